@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sanitizeTrackedEvent } from '@/utils/analyticsEvents';
+import {
+  DEFAULT_INIT_DATA_MAX_AGE_SECONDS,
+  InitDataError,
+  verifyInitData,
+} from '@/utils/telegramInitData';
+
+// Receives analytics batches from the Mini App (see utils/analytics.ts) and
+// writes them to the server log as one JSON line per event, where the log
+// pipeline picks them up. Batches must carry initData signed for our bot, as
+// proxy requests do. Nothing from the client is trusted: each event is rebuilt
+// from the known schema and its free text redacted again before logging.
+
+const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
+const MAX_AGE_SECONDS = Number(process.env.TELEGRAM_INIT_DATA_MAX_AGE) || DEFAULT_INIT_DATA_MAX_AGE_SECONDS;
+
+const MAX_EVENTS_PER_BATCH = 100;
+const MAX_BODY_BYTES = 64 * 1024;
+
+export const POST = async (request: NextRequest) => {
+  if (!BOT_TOKEN) return new NextResponse(null, { status: 500 });
+
+  const text = await request.text();
+  if (text.length > MAX_BODY_BYTES) return new NextResponse(null, { status: 413 });
+
+  let batch;
+  try {
+    batch = JSON.parse(text);
+  } catch {
+    return new NextResponse(null, { status: 400 });
+  }
+  if (!Array.isArray(batch?.events)) return new NextResponse(null, { status: 400 });
+
+  try {
+    await verifyInitData(typeof batch.init_data === 'string' ? batch.init_data : null, BOT_TOKEN, {
+      maxAgeSeconds: MAX_AGE_SECONDS,
+    });
+  } catch (err) {
+    if (err instanceof InitDataError) return new NextResponse(null, { status: 401 });
+    throw err;
+  }
+
+  // The verified Telegram user is deliberately not logged: events stay keyed by session id only.
+  for (const raw of batch.events.slice(0, MAX_EVENTS_PER_BATCH)) {
+    const event = sanitizeTrackedEvent(raw);
+    if (event) console.info(JSON.stringify({ type: 'analytics', ...event }));
+  }
+  return new NextResponse(null, { status: 204 });
+};
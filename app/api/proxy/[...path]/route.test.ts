@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { signInitData } from '@/utils/telegramInitData';
+
+const BOT_TOKEN = '123456:TEST-TOKEN';
+const BACKEND_URL = 'http://backend.test';
+
+type Route = typeof import('./route');
+
+// The route reads its configuration when it is loaded.
+const loadRoute = async (): Promise<Route> => {
+  vi.resetModules();
+  return import('./route');
+};
+
+const initData = (id = 42) =>
+  signInitData({ auth_date: String(Math.floor(Date.now() / 1000)), user: JSON.stringify({ id, first_name: 'Abebe' }) }, BOT_TOKEN);
+
+const call = async (route: Route, path: string[], body?: object, headers: Record<string, string> = {}) => {
+  const request = new NextRequest(`http://app.test/api/proxy/${path.map(encodeURIComponent).join('/')}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-telegram-init': await initData(), ...headers },
+    body: body && JSON.stringify(body),
+  });
+  return route.POST(request, { params: Promise.resolve({ path }) });
+};
+
+describe('proxy route', () => {
+  const upstream = vi.fn(async () => new Response('{"success":true}', { status: 200 }));
+  let route: Route;
+
+  beforeEach(async () => {
+    vi.stubEnv('BACKEND_URL', BACKEND_URL);
+    vi.stubEnv('TELEGRAM_BOT_TOKEN', BOT_TOKEN);
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    vi.stubGlobal('fetch', upstream);
+    route = await loadRoute();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    upstream.mockClear();
+  });
+
+  it('forwards a signed request with the verified Telegram user id', async () => {
+    const response = await call(route, ['api', 'v1', 'verifyCode'], { telegram_id: '42', activation_code: '123456' });
+    expect(response.status).toBe(200);
+    expect(upstream).toHaveBeenCalledOnce();
+    const [url, init] = upstream.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe(`${BACKEND_URL}/api/v1/verifyCode`);
+    expect((init.headers as Headers).get('X-Telegram-User-Id')).toBe('42');
+  });
+
+  // Route params arrive decoded, so `..%2F` shows up as `..` or as a segment holding a slash.
+  it.each([
+    [['api', 'v1', '..', 'admin']],
+    [['api', 'v1', '.', 'verifyCode']],
+    [['api', 'v1', '', 'verifyCode']],
+    [['api', 'v1', '../admin']],
+    [['api', 'v1', '..\\admin']],
+    [['api', 'v2', 'verifyCode']],
+    [['admin']],
+  ])('rejects %j without calling the backend', async (path) => {
+    const response = await call(route, path, {});
+    expect(response.status).toBe(404);
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it('re-encodes segments so nothing in them can end the path', async () => {
+    await call(route, ['api', 'v1', 'kyc', 'a?b#c'], {});
+    expect(upstream.mock.calls[0]).toEqual([`${BACKEND_URL}/api/v1/kyc/a%3Fb%23c`, expect.anything()]);
+  });
+
+  it('rejects a telegram_id that is not the signed user', async () => {
+    const response = await call(route, ['api', 'v1', 'verifyCode'], { telegram_id: '43' });
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'TELEGRAM_ID_MISMATCH' });
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it('rejects a request without valid initData', async () => {
+    const response = await call(route, ['api', 'v1', 'verifyCode'], { telegram_id: '42' }, { 'x-telegram-init': 'user=%7B%7D&hash=00' });
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'INIT_DATA_INVALID' });
+    expect(upstream).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DEFAULT_INIT_DATA_MAX_AGE_SECONDS,
+  InitDataError,
+  verifyInitData,
+} from '@/utils/telegramInitData';
+import { geoIpProviderFromEnv, lookupLocation, resolveClientIp } from '@/utils/geoip';
+
+// Same-origin proxy to the OnePulse backend. Every request must carry a
+// Telegram initData string signed for our bot; the verified Telegram user id
+// is forwarded as `X-Telegram-User-Id` so the backend never has to trust the
+// browser's claim. Any request reporting `device_info` (device sessions,
+// device rebinding) is additionally stamped with the client IP and its
+// geolocation, resolved here rather than reported by the browser.
+
+const BACKEND_URL = process.env.BACKEND_URL;
+const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
+const MAX_AGE_SECONDS = Number(process.env.TELEGRAM_INIT_DATA_MAX_AGE) || DEFAULT_INIT_DATA_MAX_AGE_SECONDS;
+// 0 is a valid setting (nothing in front of the app), so only an unset or non-numeric value falls back.
+const parsedProxyHops = Number.parseInt(process.env.TRUSTED_PROXY_HOPS ?? '', 10);
+const TRUSTED_PROXY_HOPS = Number.isNaN(parsedProxyHops) ? 1 : parsedProxyHops;
+const geoIpProvider = geoIpProviderFromEnv();
+
+// Only the versioned API is reachable through the proxy.
+const ALLOWED_PREFIX = 'api/v1/';
+
+// Client headers worth passing through; everything else is dropped.
+const FORWARDED_HEADERS = ['content-type', 'x-channel-id', 'x-timestamp', 'x-app-version', 'x-telegram-init', 'idempotency-key', 'x-app-session'];
+
+// KYC image chunks are the only multipart bodies; anything larger is not one of ours.
+const MAX_MULTIPART_BYTES = 1024 * 1024;
+
+// Kept above the slowest client timeout so the client, not the proxy, decides when to give up.
+const UPSTREAM_TIMEOUT_MS = 35_000;
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+const errorResponse = (status: number, code: string, message: string) =>
+  NextResponse.json({ success: false, code, message }, { status });
+
+// Route params arrive decoded, so `..%2F` would turn into a `../` that fetch
+// resolves. Dot and empty segments, and segments hiding a slash, are rejected;
+// the rest are re-encoded so nothing in them can end the path.
+const targetPathOf = (segments: string[]): string | null => {
+  const unsafe = segments.some((segment) =>
+    segment === '' || segment === '.' || segment === '..' || segment.includes('/') || segment.includes('\\'));
+  if (unsafe) return null;
+  const targetPath = segments.map(encodeURIComponent).join('/');
+  return targetPath.startsWith(ALLOWED_PREFIX) ? targetPath : null;
+};
+
+const readTelegramId = (body: string): string | undefined => {
+  try {
+    const parsed = JSON.parse(body);
+    return parsed?.telegram_id !== undefined ? String(parsed.telegram_id) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Replaces whatever network details a `device_info` body carries with the
+// server's view. Bodies without a `device_info` object pass through untouched.
+const attachNetworkInfo = async (body: string, request: NextRequest): Promise<string> => {
+  let parsed;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return body;
+  }
+  if (typeof parsed?.device_info !== 'object' || parsed.device_info === null) return body;
+
+  const ipAddress = resolveClientIp(request.headers, TRUSTED_PROXY_HOPS);
+  const geoLocation = await lookupLocation(geoIpProvider, ipAddress);
+  return JSON.stringify({
+    ...parsed,
+    device_info: {
+      ...parsed.device_info,
+      ip_address: ipAddress ?? '0.0.0.0',
+      geo_location: geoLocation,
+    },
+  });
+};
+
+const proxy = async (request: NextRequest, { params }: RouteContext) => {
+  if (!BACKEND_URL || !BOT_TOKEN) {
+    return errorResponse(500, 'PROXY_NOT_CONFIGURED', 'The backend URL is not configured correctly.');
+  }
+
+  const { path } = await params;
+  const targetPath = targetPathOf(path);
+  if (!targetPath) {
+    return errorResponse(404, 'NOT_FOUND', 'Unknown endpoint');
+  }
+
+  let verified;
+  try {
+    verified = await verifyInitData(request.headers.get('x-telegram-init'), BOT_TOKEN, {
+      maxAgeSeconds: MAX_AGE_SECONDS,
+    });
+  } catch (err) {
+    if (err instanceof InitDataError) {
+      const code = err.reason === 'expired' ? 'INIT_DATA_EXPIRED' : 'INIT_DATA_INVALID';
+      return errorResponse(401, code, err.message);
+    }
+    throw err;
+  }
+
+  const telegramUserId = String(verified.user.id);
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+  const multipart = hasBody && (request.headers.get('content-type') ?? '').startsWith('multipart/form-data');
+
+  // Multipart bodies are binary, so they are forwarded as bytes rather than text.
+  let body: string | ArrayBuffer | undefined;
+  let claimedId: string | undefined;
+  if (multipart) {
+    if (Number(request.headers.get('content-length')) > MAX_MULTIPART_BYTES) {
+      return errorResponse(413, 'PAYLOAD_TOO_LARGE', 'The upload is too large.');
+    }
+    body = await request.arrayBuffer();
+    if (body.byteLength > MAX_MULTIPART_BYTES) return errorResponse(413, 'PAYLOAD_TOO_LARGE', 'The upload is too large.');
+    const field = await new Response(body, { headers: { 'content-type': request.headers.get('content-type')! } })
+      .formData()
+      .then((form) => form.get('telegram_id'))
+      .catch(() => null);
+    claimedId = typeof field === 'string' ? field : undefined;
+  } else if (hasBody) {
+    body = await request.text();
+    claimedId = readTelegramId(body);
+  }
+
+  if (claimedId !== undefined && claimedId !== telegramUserId) {
+    return errorResponse(403, 'TELEGRAM_ID_MISMATCH', 'telegram_id does not match the signed Telegram user');
+  }
+
+  if (typeof body === 'string') body = await attachNetworkInfo(body, request);
+
+  const headers = new Headers();
+  for (const name of FORWARDED_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  headers.set('X-Telegram-User-Id', telegramUserId);
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${BACKEND_URL}/${targetPath}${request.nextUrl.search}`, {
+      method: request.method,
+      headers,
+      body,
+      cache: 'no-store',
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'TimeoutError') {
+      return errorResponse(504, 'BACKEND_TIMEOUT', 'The backend did not respond in time.');
+    }
+    return errorResponse(502, 'BACKEND_UNREACHABLE', 'The backend could not be reached.');
+  }
+
+  return new NextResponse(upstream.body, {
+    status: upstream.status,
+    headers: { 'Content-Type': upstream.headers.get('content-type') ?? 'application/json' },
+  });
+};
+
+export const GET = proxy;
+export const POST = proxy;
@@ -1,8 +1,9 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import Script from "next/script";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { TelegramInitializer } from "@/components/TelegramInitializer";
+import { I18nProvider } from "@/components/I18nProvider";
 
 
 
@@ -17,8 +18,15 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: "OnePulse",
+  description: "Register for OnePulse and link your bank account from Telegram.",
+};
+
+// `viewport-fit=cover` exposes the safe-area insets padded in globals.css.
+export const viewport: Viewport = {
+  width: "device-width",
+  initialScale: 1,
+  viewportFit: "cover",
 };
 
 export default function RootLayout({
@@ -36,7 +44,9 @@ export default function RootLayout({
           strategy="beforeInteractive"
         />
         <TelegramInitializer>
-          {children}
+          <I18nProvider>
+            {children}
+          </I18nProvider>
         </TelegramInitializer>
       </body>
     </html>
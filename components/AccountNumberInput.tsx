@@ -0,0 +1,51 @@
+'use client';
+
+import { I18n, useI18n } from '@/hooks/useI18n';
+import { AccountValidationError, AccountValidationWarning, BankRule } from '@/utils/accountNumber';
+
+export const accountErrorMessage = ({ t }: I18n, error: AccountValidationError): string => {
+  switch (error) {
+    case 'empty': return t('account.error.empty');
+    case 'invalid-characters': return t('account.error.invalidCharacters');
+  }
+};
+
+export const accountWarningMessage = ({ t }: I18n, warning: AccountValidationWarning, bank?: BankRule): string => {
+  switch (warning) {
+    case 'unknown-format': return t('account.warning.unknownFormat');
+    case 'invalid-check-digit': return t('account.warning.invalidCheckDigit', { bank: bank?.name ?? '' });
+  }
+};
+
+type AccountNumberInputProps = {
+  value: string;
+  error?: string;
+  // A likely typo the user may still submit.
+  warning?: string;
+  onChange: (value: string) => void;
+  inputClassName: string;
+};
+
+export default function AccountNumberInput({ value, error, warning, onChange, inputClassName }: AccountNumberInputProps) {
+  const { t } = useI18n();
+
+  return (
+    <div>
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="off"
+        placeholder={t('account.placeholder')}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${inputClassName} ${error ? 'ring-2 ring-app-destructive' : ''}`}
+        aria-invalid={!!error}
+        aria-describedby={error ? 'account-error' : warning ? 'account-warning' : undefined}
+        required
+        autoFocus
+      />
+      {error && <p id="account-error" className="mt-2 text-sm text-app-destructive font-medium">{error}</p>}
+      {!error && warning && <p id="account-warning" className="mt-2 text-sm text-app-accent font-medium" role="status">{warning}</p>}
+    </div>
+  );
+}
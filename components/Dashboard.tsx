@@ -0,0 +1,278 @@
+'use client';
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { useRouter } from 'next/navigation';
+import { api } from '@/utils/api';
+import { getAppSessionToken } from '@/utils/appSession';
+import { errorCopy, toAppError } from '@/utils/appError';
+import { maskAccountNumber } from '@/utils/accountNumber';
+import { allowedFinancialActions, FinancialAction } from '@/utils/financialActions';
+import { BIOMETRIC_LABELS, canOfferBiometrics, disableBiometricUnlock, enableBiometricUnlock } from '@/utils/biometricUnlock';
+import { getBiometricStatus } from '@/utils/telegramBiometrics';
+import { readLaunchContext } from '@/utils/telegramLaunch';
+import { AsyncResource, useAsyncResource } from '@/hooks/useAsyncResource';
+import { I18n, useI18n } from '@/hooks/useI18n';
+import type { MessageKey } from '@/utils/i18n';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import KycBadge from '@/components/KycBadge';
+import { AccountBalanceData, CustomerProfileData, TransactionData } from '@/types/api';
+
+const RECENT_TRANSACTIONS_LIMIT = 10;
+
+// Launch params and the app session do not change while the dashboard is open.
+const subscribeToLaunch = () => () => {};
+const readTelegramId = () => readLaunchContext().user?.id ?? null;
+const readHasSession = () => getAppSessionToken() !== undefined;
+
+const formatMoney = ({ formatNumber }: I18n, amount: number, currency: string) => {
+  try {
+    return formatNumber(amount, { style: 'currency', currency });
+  } catch {
+    // Unknown ISO code from the backend.
+    return `${formatNumber(amount, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+  }
+};
+
+const Spinner = () => (
+  <div className="w-8 h-8 border-4 border-app-button border-t-transparent rounded-full animate-spin" />
+);
+
+const SectionError = ({ error, onRetry }: { error: unknown; onRetry: () => void }) => {
+  const { t } = useI18n();
+  return (
+    <div className="text-center py-4">
+      <p className="text-sm text-app-hint">{t(errorCopy(toAppError(error).kind).message)}</p>
+      <button onClick={onRetry} className="mt-2 text-sm text-app-link font-semibold hover:underline">{t('common.tryAgain')}</button>
+    </div>
+  );
+};
+
+const BalanceCard = ({ profile, balance, onRetry }: {
+  profile: CustomerProfileData;
+  balance: AsyncResource<AccountBalanceData>;
+  onRetry: () => void;
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  return (
+    <div className="rounded-2xl bg-app-button text-app-button-text p-5 shadow-lg">
+      <p className="text-sm opacity-80">{t('dashboard.account', { number: maskAccountNumber(profile.account_number) })}</p>
+      <p className="text-xs opacity-70 mt-0.5">{profile.product_code}</p>
+      <div className="mt-4 min-h-10">
+        {balance.status === 'loading' && <div className="h-8 w-40 rounded-lg bg-app-button-text/20 animate-pulse" />}
+        {balance.status === 'success' && (
+          <>
+            <p className="text-3xl font-bold">{formatMoney(i18n, balance.data.available_balance, balance.data.currency)}</p>
+            <p className="text-xs opacity-70 mt-1">{t('dashboard.availableBalance')}</p>
+          </>
+        )}
+        {balance.status === 'error' && (
+          <button onClick={onRetry} className="text-sm font-semibold underline">{t('dashboard.balanceUnavailable')}</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ActionsGrid = ({ actions }: { actions: FinancialAction[] }) => {
+  const [selected, setSelected] = useState<FinancialAction | null>(null);
+  const { t } = useI18n();
+
+  if (!actions.length) {
+    return <p className="text-sm text-app-hint text-center py-4">{t('dashboard.noActions')}</p>;
+  }
+
+  return (
+    <div>
+      <div className="grid grid-cols-4 gap-3">
+        {actions.map((action) => (
+          <button
+            key={action.code}
+            onClick={() => setSelected(action)}
+            className="flex flex-col items-center gap-1.5 rounded-xl bg-app-secondary-bg py-3 text-app-text hover:opacity-90"
+          >
+            <span className="text-xl" aria-hidden>{action.icon}</span>
+            <span className="text-xs font-medium text-center leading-tight">{t(action.label)}</span>
+          </button>
+        ))}
+      </div>
+      {selected && (
+        <p className="text-xs text-app-hint text-center mt-3" role="status">{t('dashboard.comingSoon', { action: t(selected.label) })}</p>
+      )}
+    </div>
+  );
+};
+
+// Turns biometric unlock on or off for this device. Hidden where biometrics are not supported.
+const BiometricSetting = ({ telegramId }: { telegramId: number }) => {
+  const query = useAsyncResource('biometrics', getBiometricStatus);
+  const [pending, setPending] = useState(false);
+  const [message, setMessage] = useState<MessageKey | ''>('');
+  const { t } = useI18n();
+
+  const status = query.resource.status === 'success' ? query.resource.data : null;
+  if (!canOfferBiometrics(status)) return null;
+
+  const label = t(BIOMETRIC_LABELS[status.type]);
+  const enabled = status.accessGranted && status.tokenSaved;
+
+  const toggle = async () => {
+    setPending(true);
+    setMessage('');
+    try {
+      if (enabled) {
+        await disableBiometricUnlock(String(telegramId));
+      } else {
+        const result = await enableBiometricUnlock(String(telegramId), t('biometrics.enableReason'));
+        if (result === 'denied') setMessage('dashboard.biometricDenied');
+        else if (result === 'unavailable') setMessage('biometrics.unavailable');
+      }
+    } catch (err) {
+      setMessage(errorCopy(toAppError(err).kind).message);
+    } finally {
+      setPending(false);
+      query.reload();
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="text-sm font-semibold text-app-hint uppercase tracking-wide mb-3">{t('dashboard.security')}</h2>
+      <div className="flex items-center justify-between gap-3 rounded-xl bg-app-secondary-bg px-4 py-3">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-app-text">{t('dashboard.biometricToggle', { method: label })}</p>
+          <p className="text-xs text-app-hint">{t('dashboard.biometricHint')}</p>
+        </div>
+        <button
+          role="switch"
+          aria-checked={enabled}
+          aria-label={t('dashboard.biometricToggle', { method: label })}
+          onClick={toggle}
+          disabled={pending}
+          className={`relative shrink-0 w-11 h-6 rounded-full transition-colors disabled:opacity-50 ${enabled ? 'bg-app-button' : 'bg-app-separator'}`}
+        >
+          <span className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-app-bg shadow transition-transform ${enabled ? 'translate-x-5' : ''}`} />
+        </button>
+      </div>
+      {message && <p className="text-xs text-app-destructive mt-2" role="status">{t(message)}</p>}
+    </section>
+  );
+};
+
+const TransactionRow = ({ transaction }: { transaction: TransactionData }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const credit = transaction.direction === 'credit';
+  return (
+    <li className="flex items-center justify-between py-3">
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-app-text truncate">{transaction.description || t(credit ? 'dashboard.received' : 'dashboard.sent')}</p>
+        <p className="text-xs text-app-hint">{i18n.formatDate(transaction.posted_at, { day: 'numeric', month: 'short' }) || transaction.posted_at}</p>
+      </div>
+      <p className={`text-sm font-semibold shrink-0 ml-3 ${credit ? 'text-app-accent' : 'text-app-text'}`}>
+        {credit ? '+' : '−'}{formatMoney(i18n, Math.abs(transaction.amount), transaction.currency)}
+      </p>
+    </li>
+  );
+};
+
+// Home screen for registered customers.
+export default function Dashboard() {
+  const router = useRouter();
+  const { t } = useI18n();
+  const telegramId = useSyncExternalStore(subscribeToLaunch, readTelegramId, () => null);
+  const hasSession = useSyncExternalStore(subscribeToLaunch, readHasSession, () => true);
+
+  // Without an app session the customer has to unlock with their PIN first.
+  useEffect(() => {
+    if (!hasSession) router.replace('/');
+  }, [hasSession, router]);
+
+  const profileQuery = useAsyncResource(telegramId === null || !hasSession ? null : String(telegramId), () =>
+    api.getCustomerProfile({ telegram_id: String(telegramId) }).then((res) => res.data),
+  );
+  const profile = profileQuery.resource.status === 'success' ? profileQuery.resource.data : null;
+
+  const accountKey = profile ? `${profile.customer_id}:${profile.account_number}` : null;
+  const accountPayload = profile && {
+    account_number: profile.account_number,
+    customer_id: profile.customer_id,
+    telegram_id: String(telegramId),
+  };
+  const balanceQuery = useAsyncResource(accountKey, () =>
+    api.getBalance(accountPayload!).then((res) => res.data),
+  );
+  const transactionsQuery = useAsyncResource(accountKey, () =>
+    api.getTransactions({ ...accountPayload!, limit: RECENT_TRANSACTIONS_LIMIT }).then((res) => res.data.transactions),
+  );
+
+  if (telegramId === null) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-secondary-bg p-6 text-center">
+        <h2 className="text-xl font-bold text-app-text mb-2">{t('environment.title')}</h2>
+        <p className="text-app-hint max-w-xs">{t('environment.message')}</p>
+      </div>
+    );
+  }
+
+  if (!hasSession || profileQuery.resource.status === 'loading') {
+    return (
+      <div className="flex items-center justify-center min-h-app bg-app-bg"><Spinner /></div>
+    );
+  }
+
+  if (profileQuery.resource.status === 'error') {
+    const copy = errorCopy(toAppError(profileQuery.resource.error).kind);
+    return (
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-bg p-6 text-center">
+        <h2 className="text-xl font-bold text-app-text mb-2">{t(copy.title)}</h2>
+        <p className="text-app-hint mb-6 max-w-xs">{t(copy.message)}</p>
+        <button onClick={profileQuery.reload} className="bg-app-button text-app-button-text font-semibold py-2 px-6 rounded-lg">{t('common.tryAgain')}</button>
+      </div>
+    );
+  }
+
+  const { data } = profileQuery.resource;
+  const transactions = transactionsQuery.resource;
+
+  return (
+    <div className="min-h-app bg-app-bg p-5 space-y-6 animate-in fade-in duration-300">
+      <header className="flex items-start justify-between gap-3 pt-2">
+        <div className="min-w-0">
+          <p className="text-sm text-app-hint">{t('dashboard.welcomeBack')}</p>
+          <h1 className="text-2xl font-bold text-app-text truncate">{data.customer_name || t('dashboard.defaultName')}</h1>
+        </div>
+        <KycBadge status={data.kyc_status} className="shrink-0" />
+      </header>
+
+      <BalanceCard profile={data} balance={balanceQuery.resource} onRetry={balanceQuery.reload} />
+
+      <section>
+        <h2 className="text-sm font-semibold text-app-hint uppercase tracking-wide mb-3">{t('dashboard.actions')}</h2>
+        <ActionsGrid actions={allowedFinancialActions(data.allowed_financial_actions)} />
+      </section>
+
+      <section>
+        <h2 className="text-sm font-semibold text-app-hint uppercase tracking-wide mb-1">{t('dashboard.recentTransactions')}</h2>
+        {transactions.status === 'loading' && <div className="flex justify-center py-6"><Spinner /></div>}
+        {transactions.status === 'error' && <SectionError error={transactions.error} onRetry={transactionsQuery.reload} />}
+        {transactions.status === 'success' && (
+          transactions.data.length === 0
+            ? <p className="text-sm text-app-hint text-center py-6">{t('dashboard.noTransactions')}</p>
+            : (
+              <ul className="divide-y divide-app-separator">
+                {transactions.data.map((transaction) => <TransactionRow key={transaction.id} transaction={transaction} />)}
+              </ul>
+            )
+        )}
+      </section>
+
+      <BiometricSetting telegramId={telegramId} />
+
+      <section className="flex items-center justify-between gap-3">
+        <h2 className="text-sm font-semibold text-app-hint uppercase tracking-wide">{t('language.label')}</h2>
+        <LanguageSwitcher />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { createI18n, I18nContext } from '@/hooks/useI18n';
+import { DEFAULT_LOCALE, Locale } from '@/utils/i18n';
+import { loadLocalePreference, saveLocalePreference } from '@/utils/localePreference';
+import { readLaunchLocale } from '@/utils/telegramLaunch';
+
+// Launch params do not change while the Mini App is open.
+const subscribeToLaunch = () => () => {};
+
+// Language for everything below it: the one picked in the app if there is one,
+// else the Telegram user's. Mounted once Telegram is ready, so launch params are readable.
+// Also keeps `<html lang>` in step, since the server only knows the default.
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const launchLocale = useSyncExternalStore(subscribeToLaunch, readLaunchLocale, () => DEFAULT_LOCALE);
+  const [chosen, setChosen] = useState<Locale | null>(null);
+  const locale = chosen ?? launchLocale;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLocalePreference().then((saved) => {
+      // A language picked while this was loading wins.
+      if (!cancelled && saved) setChosen((current) => current ?? saved);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setChosen(next);
+    saveLocalePreference(next).catch(() => {});
+  }, []);
+
+  const i18n = useMemo(() => createI18n(locale, setLocale), [locale, setLocale]);
+
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+}
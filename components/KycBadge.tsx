@@ -0,0 +1,24 @@
+'use client';
+
+import { useI18n } from '@/hooks/useI18n';
+import type { MessageKey } from '@/utils/i18n';
+
+const KYC_BADGES: Record<string, { label: MessageKey; className: string }> = {
+  VERIFIED: { label: 'kyc.verified', className: 'bg-app-accent/15 text-app-accent' },
+  APPROVED: { label: 'kyc.verified', className: 'bg-app-accent/15 text-app-accent' },
+  PENDING: { label: 'kyc.pending', className: 'bg-app-hint/15 text-app-hint' },
+  SUBMITTED: { label: 'kyc.inReview', className: 'bg-app-button/15 text-app-link' },
+  IN_REVIEW: { label: 'kyc.inReview', className: 'bg-app-button/15 text-app-link' },
+  REQUIRED: { label: 'kyc.required', className: 'bg-app-destructive/15 text-app-destructive' },
+  REJECTED: { label: 'kyc.rejected', className: 'bg-app-destructive/15 text-app-destructive' },
+};
+
+// The customer's KYC status as reported by the backend; unknown statuses are shown as sent.
+export default function KycBadge({ status, className = '' }: { status: string; className?: string }) {
+  const { t } = useI18n();
+  const badge = KYC_BADGES[status.toUpperCase()];
+  const kyc = badge
+    ? { label: t(badge.label), className: badge.className }
+    : { label: t('kyc.other', { status }), className: 'bg-app-secondary-bg text-app-hint' };
+  return <span className={`text-xs font-semibold px-2.5 py-1 rounded-full ${kyc.className} ${className}`}>{kyc.label}</span>;
+}
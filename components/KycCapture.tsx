@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useI18n } from '@/hooks/useI18n';
+import type { MessageKey } from '@/utils/i18n';
+import { ImageIssue, PreparedImage, prepareKycImage } from '@/utils/kycImage';
+import { KYC_DOCUMENT_TYPES, KycDocumentType, KycImages, KycSide, requiredSides } from '@/utils/kycUpload';
+
+// A prepared photo, and whether the user chose to keep it despite its issues.
+export interface KycCaptureImage {
+  image: PreparedImage;
+  accepted: boolean;
+}
+
+export type KycCaptures = Partial<Record<KycSide, KycCaptureImage>>;
+
+/** Every side the document type needs is captured, and each photo is either clean or kept anyway. */
+export const isKycCaptureComplete = (documentType: KycDocumentType, captures: KycCaptures): boolean =>
+  requiredSides(documentType).every((side) => {
+    const capture = captures[side];
+    return !!capture && (capture.accepted || capture.image.quality.issues.length === 0);
+  });
+
+export const kycImagesOf = (captures: KycCaptures): KycImages =>
+  Object.fromEntries(Object.entries(captures).map(([side, capture]) => [side, capture.image.blob]));
+
+const DOCUMENT_LABELS: Record<KycDocumentType, MessageKey> = {
+  'national-id': 'kycCapture.document.nationalId',
+  'passport': 'kycCapture.document.passport',
+  'drivers-license': 'kycCapture.document.driversLicense',
+};
+
+const ISSUE_MESSAGES: Record<ImageIssue, MessageKey> = {
+  'blurry': 'kycCapture.issue.blurry',
+  'glare': 'kycCapture.issue.glare',
+  'low-resolution': 'kycCapture.issue.lowResolution',
+};
+
+const sideLabel = (documentType: KycDocumentType, side: KycSide): MessageKey => {
+  if (side === 'selfie') return 'kycCapture.side.selfie';
+  if (documentType === 'passport') return 'kycCapture.side.photoPage';
+  return side === 'front' ? 'kycCapture.side.front' : 'kycCapture.side.back';
+};
+
+// --- PREVIEW ---
+
+// The object URL lives only as long as the preview shows this blob.
+function Preview({ blob, alt }: { blob: Blob; alt: string }) {
+  const img = useRef<HTMLImageElement>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(blob);
+    if (img.current) img.current.src = url;
+    return () => URL.revokeObjectURL(url);
+  }, [blob]);
+
+  // eslint-disable-next-line @next/next/no-img-element -- local blob preview, nothing to optimize
+  return <img ref={img} alt={alt} className="w-full max-h-48 object-contain rounded-lg bg-app-bg" />;
+}
+
+// --- SIDE ---
+
+type SideCaptureProps = {
+  documentType: KycDocumentType;
+  side: KycSide;
+  capture?: KycCaptureImage;
+  onChange: (capture: KycCaptureImage | undefined) => void;
+};
+
+function SideCapture({ documentType, side, capture, onChange }: SideCaptureProps) {
+  const { t } = useI18n();
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<MessageKey | ''>('');
+  // Only the most recently chosen file may update the capture.
+  const latestFile = useRef<File | null>(null);
+  const label = t(sideLabel(documentType, side));
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    latestFile.current = file;
+    setChecking(true);
+    setError('');
+    // A bright background is normal for a selfie; only documents are checked for glare.
+    const result = await prepareKycImage(file, { glare: side !== 'selfie' });
+    if (latestFile.current !== file) return;
+    setChecking(false);
+    if (!result.ok) {
+      setError(result.error === 'too-large' ? 'kycCapture.error.tooLarge' : 'kycCapture.error.unreadable');
+      onChange(undefined);
+      return;
+    }
+    onChange({ image: result.image, accepted: false });
+  };
+
+  // Reset the input so choosing the same file again still triggers a change.
+  const fileInput = (cameraFacing?: 'user' | 'environment') => (
+    <input
+      type="file"
+      accept="image/*"
+      capture={cameraFacing}
+      className="sr-only"
+      onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+    />
+  );
+  const buttonStyle = "flex-1 text-center text-sm font-semibold py-2.5 px-3 rounded-lg cursor-pointer transition-colors";
+  const issues = capture?.image.quality.issues ?? [];
+
+  return (
+    <div className="bg-app-secondary-bg rounded-xl p-4 space-y-3">
+      <p className="text-sm font-semibold text-app-text">{label}</p>
+      {capture && <Preview blob={capture.image.blob} alt={t('kycCapture.preview', { side: label })} />}
+      {checking && <p className="text-sm text-app-hint" role="status">{t('kycCapture.checking')}</p>}
+      {error && <p className="text-sm text-app-destructive font-medium" role="alert">{t(error)}</p>}
+      {!checking && issues.length > 0 && (
+        <div className="space-y-2" role="status">
+          {issues.map((issue) => <p key={issue} className="text-sm text-app-destructive">{t(ISSUE_MESSAGES[issue])}</p>)}
+          <label className="flex items-center gap-2 text-sm text-app-text cursor-pointer">
+            <input
+              type="checkbox"
+              className="accent-app-button"
+              checked={capture?.accepted ?? false}
+              onChange={(e) => capture && onChange({ ...capture, accepted: e.target.checked })}
+            />
+            {t('kycCapture.useAnyway')}
+          </label>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <label className={`${buttonStyle} bg-app-button text-app-button-text`}>
+          {t(capture ? 'kycCapture.retake' : 'kycCapture.takePhoto')}
+          {fileInput(side === 'selfie' ? 'user' : 'environment')}
+        </label>
+        <label className={`${buttonStyle} bg-app-bg text-app-link`}>
+          {t('kycCapture.upload')}
+          {fileInput()}
+        </label>
+      </div>
+    </div>
+  );
+}
+
+// --- CAPTURE ---
+
+type KycCaptureProps = {
+  documentType: KycDocumentType;
+  captures: KycCaptures;
+  onDocumentTypeChange: (documentType: KycDocumentType) => void;
+  onCapture: (side: KycSide, capture: KycCaptureImage | undefined) => void;
+  inputClassName: string;
+};
+
+/**
+ * Document type picker and a camera/file capture per side the document needs.
+ * Captures are held by the caller so they survive a failed upload.
+ */
+export default function KycCapture({ documentType, captures, onDocumentTypeChange, onCapture, inputClassName }: KycCaptureProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-4">
+      <label className="block">
+        <span className="block text-sm font-semibold text-app-text mb-2">{t('kycCapture.document')}</span>
+        <select
+          value={documentType}
+          onChange={(e) => onDocumentTypeChange(e.target.value as KycDocumentType)}
+          className={inputClassName}
+        >
+          {KYC_DOCUMENT_TYPES.map((type) => <option key={type} value={type}>{t(DOCUMENT_LABELS[type])}</option>)}
+        </select>
+      </label>
+      {requiredSides(documentType).map((side) => (
+        <SideCapture
+          key={`${documentType}-${side}`}
+          documentType={documentType}
+          side={side}
+          capture={captures[side]}
+          onChange={(capture) => onCapture(side, capture)}
+        />
+      ))}
+      <p className="text-xs text-app-hint text-center">{t('kycCapture.privacy')}</p>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import { useI18n } from '@/hooks/useI18n';
+import { isLocale, LOCALE_NAMES, LOCALES } from '@/utils/i18n';
+
+// Compact language picker; each language is listed under its own name.
+export default function LanguageSwitcher({ className = '' }: { className?: string }) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <select
+      aria-label={t('language.label')}
+      value={locale}
+      onChange={(e) => { if (isLocale(e.target.value)) setLocale(e.target.value); }}
+      className={`bg-app-secondary-bg text-app-text text-sm font-medium rounded-lg px-3 py-1.5 outline-none focus:ring-2 focus:ring-app-button ${className}`}
+    >
+      {LOCALES.map((option) => <option key={option} value={option}>{LOCALE_NAMES[option]}</option>)}
+    </select>
+  );
+}
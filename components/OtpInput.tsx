@@ -0,0 +1,89 @@
+'use client';
+
+import { useRef } from 'react';
+import { useI18n } from '@/hooks/useI18n';
+
+type OtpInputProps = {
+  length: number;
+  value: string;
+  onChange: (value: string) => void;
+  // Called once every box is filled, typed or pasted.
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  invalid?: boolean;
+  autoFocus?: boolean;
+};
+
+// Segmented numeric code input: one box per digit, with paste and SMS
+// autofill spread across the boxes.
+export default function OtpInput({ length, value, onChange, onComplete, disabled, invalid, autoFocus }: OtpInputProps) {
+  const inputs = useRef<(HTMLInputElement | null)[]>([]);
+  const { t } = useI18n();
+  const digits = Array.from({ length }, (_, i) => value[i] ?? '');
+
+  const focusBox = (index: number) => {
+    inputs.current[Math.max(0, Math.min(length - 1, index))]?.focus();
+  };
+
+  const update = (next: string, focusIndex: number) => {
+    const code = next.replace(/\D/g, '').slice(0, length);
+    onChange(code);
+    focusBox(focusIndex);
+    if (code.length === length) onComplete?.(code);
+  };
+
+  const handleChange = (index: number, raw: string) => {
+    const typed = raw.replace(/\D/g, '');
+    if (!typed) return;
+    // More than one digit arrives from autofill or paste into a single box.
+    const next = (value.slice(0, index) + typed + value.slice(index + typed.length)).slice(0, length);
+    update(next, index + typed.length);
+  };
+
+  const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Backspace') {
+      e.preventDefault();
+      if (digits[index]) update(value.slice(0, index), index);
+      else if (index > 0) update(value.slice(0, index - 1), index - 1);
+    } else if (e.key === 'ArrowLeft') {
+      focusBox(index - 1);
+    } else if (e.key === 'ArrowRight') {
+      focusBox(index + 1);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    e.preventDefault();
+    const pasted = e.clipboardData.getData('text').replace(/\D/g, '').slice(0, length);
+    if (pasted) update(pasted, pasted.length);
+  };
+
+  return (
+    <div className="flex justify-center gap-2" role="group" aria-label={t('otp.inputLabel')}>
+      {digits.map((digit, index) => (
+        <input
+          key={index}
+          ref={(el) => { inputs.current[index] = el; }}
+          type="text"
+          inputMode="numeric"
+          pattern="[0-9]*"
+          autoComplete={index === 0 ? 'one-time-code' : 'off'}
+          aria-label={t('otp.digitLabel', { position: index + 1 })}
+          value={digit}
+          disabled={disabled}
+          autoFocus={autoFocus && index === 0}
+          // Only the next empty box accepts typing, so the code is always contiguous.
+          // Selecting the box's digit on focus lets typing replace it.
+          onFocus={(e) => {
+            if (index > value.length) focusBox(value.length);
+            else e.target.select();
+          }}
+          onChange={(e) => handleChange(index, e.target.value)}
+          onKeyDown={(e) => handleKeyDown(index, e)}
+          onPaste={handlePaste}
+          className={`w-11 h-14 text-center text-2xl font-semibold rounded-xl border bg-app-secondary-bg text-app-text outline-none transition-all focus:ring-2 focus:ring-app-button focus:bg-app-bg disabled:opacity-50 ${invalid ? 'border-app-destructive' : 'border-app-separator'}`}
+        />
+      ))}
+    </div>
+  );
+}
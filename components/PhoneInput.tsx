@@ -0,0 +1,72 @@
+'use client';
+
+import { I18n, useI18n } from '@/hooks/useI18n';
+import { COUNTRIES, CountryCode, CountryRule, PhoneValidationError, getCountry } from '@/utils/phoneNumber';
+
+export const phoneErrorMessage = (
+  { t, formatRegion }: I18n,
+  error: PhoneValidationError,
+  country?: CountryRule,
+): string => {
+  switch (error) {
+    case 'empty': return t('phone.error.empty');
+    case 'invalid-characters': return t('phone.error.invalidCharacters');
+    case 'unsupported-country': return t('phone.error.unsupportedCountry');
+    case 'invalid-length':
+      return country
+        ? t('phone.error.invalidLength', {
+            country: formatRegion(country.code, country.name),
+            digits: country.nationalLength,
+            dialCode: country.dialCode,
+          })
+        : t('phone.error.invalidLengthGeneric');
+    case 'invalid-prefix':
+      return country
+        ? t('phone.error.invalidPrefix', { country: formatRegion(country.code, country.name) })
+        : t('phone.error.invalidPrefixGeneric');
+  }
+};
+
+type PhoneInputProps = {
+  country: CountryCode;
+  value: string;
+  error?: string;
+  onCountryChange: (country: CountryCode) => void;
+  onChange: (value: string) => void;
+  inputClassName: string;
+};
+
+export default function PhoneInput({ country, value, error, onCountryChange, onChange, inputClassName }: PhoneInputProps) {
+  const selected = getCountry(country);
+  const { t } = useI18n();
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <select
+          aria-label={t('phone.country')}
+          value={country}
+          onChange={(e) => onCountryChange(e.target.value as CountryCode)}
+          className={`${inputClassName} w-auto shrink-0 pr-2`}
+        >
+          {COUNTRIES.map((option) => (
+            <option key={option.code} value={option.code}>{option.flag} +{option.dialCode}</option>
+          ))}
+        </select>
+        <input
+          type="tel"
+          inputMode="tel"
+          autoComplete="tel-national"
+          placeholder={selected.example}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={`${inputClassName} ${error ? 'ring-2 ring-app-destructive' : ''}`}
+          aria-invalid={!!error}
+          aria-describedby={error ? 'phone-error' : undefined}
+          required
+        />
+      </div>
+      {error && <p id="phone-error" className="mt-2 text-sm text-app-destructive">{error}</p>}
+    </div>
+  );
+}
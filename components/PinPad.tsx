@@ -0,0 +1,72 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useI18n } from '@/hooks/useI18n';
+
+type PinPadProps = {
+  length: number;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  invalid?: boolean;
+};
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'backspace'] as const;
+
+// On-screen PIN keypad. PINs are never typed into a text field, so system and
+// third-party keyboards (and their suggestion or logging features) never see
+// them. Digit keys on a physical keyboard still work for desktop clients.
+export default function PinPad({ length, value, onChange, disabled, invalid }: PinPadProps) {
+  const { t } = useI18n();
+  const press = (key: string) => {
+    if (disabled) return;
+    if (key === 'backspace') onChange(value.slice(0, -1));
+    else if (value.length < length) onChange(value + key);
+  };
+
+  // Latest handler for the window listener, without re-subscribing every keystroke.
+  const pressRef = useRef(press);
+  useEffect(() => { pressRef.current = press; });
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (/^[0-9]$/.test(e.key)) pressRef.current(e.key);
+      else if (e.key === 'Backspace') pressRef.current('backspace');
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  return (
+    <div className="flex flex-col items-center gap-8">
+      <div className={`flex gap-4 ${invalid ? 'animate-pulse' : ''}`} aria-label={t('pinPad.progress', { entered: value.length, length })} role="status">
+        {Array.from({ length }, (_, i) => (
+          <span
+            key={i}
+            className={`w-4 h-4 rounded-full border-2 transition-colors ${
+              invalid ? 'border-app-destructive' : 'border-app-button'
+            } ${i < value.length ? (invalid ? 'bg-app-destructive' : 'bg-app-button') : ''}`}
+          />
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-3 w-full max-w-xs">
+        {KEYS.map((key, i) =>
+          key === '' ? (
+            <span key={i} />
+          ) : (
+            <button
+              key={i}
+              type="button"
+              onClick={() => press(key)}
+              disabled={disabled || (key === 'backspace' && value === '')}
+              aria-label={key === 'backspace' ? t('pinPad.delete') : key}
+              className="h-16 rounded-2xl bg-app-secondary-bg text-app-text text-2xl font-semibold active:bg-app-separator transition-colors disabled:opacity-40 select-none"
+            >
+              {key === 'backspace' ? '⌫' : key}
+            </button>
+          ),
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useState } from 'react';
+import PinPad from '@/components/PinPad';
+import { useI18n } from '@/hooks/useI18n';
+import type { MessageKey } from '@/utils/i18n';
+import { PIN_LENGTH, PIN_WEAKNESS_MESSAGES, pinWeakness } from '@/utils/pin';
+
+type PinSetupProps = {
+  // Receives the confirmed PIN. This component's state is wiped before the
+  // call, and unmounts once the flow leaves the PIN step.
+  onComplete: (pin: string) => void;
+  disabled?: boolean;
+};
+
+type Stage = 'create' | 'confirm';
+
+// Two-step PIN creation: pick a PIN that passes the weak-PIN rules, then enter it again.
+export default function PinSetup({ onComplete, disabled }: PinSetupProps) {
+  const [stage, setStage] = useState<Stage>('create');
+  const [firstPin, setFirstPin] = useState('');
+  const [entry, setEntry] = useState('');
+  const [error, setError] = useState<MessageKey | ''>('');
+  const { t } = useI18n();
+
+  const startOver = (message: MessageKey | '' = '') => {
+    setStage('create');
+    setFirstPin('');
+    setEntry('');
+    setError(message);
+  };
+
+  const handleChange = (value: string) => {
+    if (value.length < PIN_LENGTH) {
+      setEntry(value);
+      if (value) setError('');
+      return;
+    }
+
+    if (stage === 'create') {
+      const weakness = pinWeakness(value);
+      if (weakness) {
+        setEntry('');
+        setError(PIN_WEAKNESS_MESSAGES[weakness]);
+        return;
+      }
+      setFirstPin(value);
+      setEntry('');
+      setError('');
+      setStage('confirm');
+      return;
+    }
+
+    if (value !== firstPin) {
+      startOver('pinSetup.mismatch');
+      return;
+    }
+    startOver();
+    onComplete(value);
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-center font-medium text-app-text">
+        {stage === 'create' ? t('pinSetup.choose', { length: PIN_LENGTH }) : t('pinSetup.confirm')}
+      </p>
+      <PinPad length={PIN_LENGTH} value={entry} onChange={handleChange} disabled={disabled} invalid={error !== ''} />
+      <div className="text-center text-sm font-medium min-h-5" aria-live="polite">
+        {error ? (
+          <p className="text-app-destructive">{t(error)}</p>
+        ) : stage === 'confirm' && (
+          <button type="button" onClick={() => startOver()} className="text-app-link font-semibold hover:underline">
+            {t('pinSetup.startOver')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
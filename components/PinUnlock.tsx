@@ -0,0 +1,49 @@
+'use client';
+
+import { useState } from 'react';
+import PinPad from '@/components/PinPad';
+import { formatCountdown, useSecondsUntil } from '@/hooks/useCountdown';
+import { useI18n } from '@/hooks/useI18n';
+import { AttemptState } from '@/utils/registrationMachine';
+import { PIN_LENGTH } from '@/utils/pin';
+
+type PinUnlockProps = {
+  // Receives the PIN as soon as all digits are entered; the keypad is cleared first.
+  onSubmit: (pin: string) => void;
+  attempts: AttemptState;
+};
+
+// PIN entry for returning customers.
+export default function PinUnlock({ onSubmit, attempts }: PinUnlockProps) {
+  const [entry, setEntry] = useState('');
+  const { t } = useI18n();
+  const lockSeconds = useSecondsUntil(attempts.lockedUntil);
+  const locked = lockSeconds > 0;
+
+  const handleChange = (value: string) => {
+    if (value.length < PIN_LENGTH) {
+      setEntry(value);
+      return;
+    }
+    setEntry('');
+    onSubmit(value);
+  };
+
+  return (
+    <div className="space-y-6">
+      <PinPad length={PIN_LENGTH} value={entry} onChange={handleChange} disabled={locked} invalid={attempts.error !== ''} />
+      <div className="text-center text-sm font-medium min-h-10" aria-live="polite">
+        {locked ? (
+          <p className="text-app-destructive">{t('attempts.locked', { time: formatCountdown(lockSeconds) })}</p>
+        ) : attempts.error && entry === '' && (
+          <>
+            <p className="text-app-destructive">{t(attempts.error)}</p>
+            {attempts.attemptsRemaining !== undefined && attempts.attemptsRemaining > 0 && (
+              <p className="text-app-hint mt-1">{t('attempts.remaining', { count: attempts.attemptsRemaining })}</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,459 +1,810 @@
 'use client';
 
-import { useEffect, useState, useRef } from 'react';
-import { retrieveLaunchParams } from '@telegram-apps/sdk-react';
-import { getDeviceInfo, DeviceInfoPayload } from '@/utils/getDeviceInfo';
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { getDeviceInfo, getOrGenerateDeviceId } from '@/utils/getDeviceInfo';
+import { api } from '@/utils/api';
+import { readLaunchContext, InitDataSource } from '@/utils/telegramLaunch';
+import { MainButtonOptions, useClosingConfirmation, useTelegramBackButton, useTelegramMainButton } from '@/hooks/useTelegramControls';
+import {
+  AppStatus,
+  backTarget,
+  canSubmit,
+  initialRegistrationState,
+  isProcessingStep,
+  registrationReducer,
+  primaryAccount,
+  ResumableStep,
+  ResumeContext,
+} from '@/utils/registrationMachine';
+import { isContactRequestSupported, requestTelegramContact } from '@/utils/telegramContact';
+import { CountryCode, DEFAULT_COUNTRY, defaultCountryFor, formatPhoneNumber, maskPhoneNumber, parsePhoneNumber } from '@/utils/phoneNumber';
+import PhoneInput, { phoneErrorMessage } from '@/components/PhoneInput';
+import AccountNumberInput, { accountErrorMessage, accountWarningMessage } from '@/components/AccountNumberInput';
+import { maskAccountNumber, validateAccountNumber } from '@/utils/accountNumber';
+import { ineligibleReasonFrom, productValidationPayload } from '@/utils/linkedAccounts';
+import OtpInput from '@/components/OtpInput';
+import PinSetup from '@/components/PinSetup';
+import PinUnlock from '@/components/PinUnlock';
+import KycCapture, { isKycCaptureComplete, KycCaptureImage, KycCaptures, kycImagesOf } from '@/components/KycCapture';
+import KycBadge from '@/components/KycBadge';
+import { createKycUploader, KycDocumentType, KycSide, KycUploader } from '@/utils/kycUpload';
+import { encryptPin, pinFailureFrom } from '@/utils/pin';
+import { saveAppSession } from '@/utils/appSession';
+import { routeForCheck } from '@/utils/returningUser';
+import { nameFields } from '@/utils/personName';
+import { BiometricStatus, getBiometricStatus, openBiometricSettings } from '@/utils/telegramBiometrics';
+import {
+  BIOMETRIC_LABELS,
+  canOfferBiometrics,
+  canUnlockWithBiometrics,
+  enableBiometricUnlock,
+  loginWithBiometrics,
+} from '@/utils/biometricUnlock';
+import { formatCountdown, useSecondsUntil } from '@/hooks/useCountdown';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { errorCopy, ErrorField, toAppError } from '@/utils/appError';
+import { useI18n } from '@/hooks/useI18n';
+import type { MessageKey } from '@/utils/i18n';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import { openSupport, SUPPORT_URL } from '@/utils/support';
+import { analytics } from '@/utils/analytics';
+import { useFunnelAnalytics } from '@/hooks/useFunnelAnalytics';
+import { DEFAULT_RESEND_COOLDOWN_SECONDS, OTP_LENGTH, otpFailureFrom, resendCooldownFrom } from '@/utils/otp';
+import { clearProgress, loadProgress, RegistrationProgress, saveProgress } from '@/utils/registrationProgress';
 import { CheckIdPayload, TelegramUser } from '@/types/user';
 
 
-// --- APP STATUS ---
-
-type AppStatus = 
-  | 'idle' 
-  | 'checking'            
-  | 'id-verified'         
-  | 'phone-entry'         
-  | 'processing-registration' 
-  | 'otp-entry'           
-  | 'verifying-otp'       
-  | 'account-entry'       
-  | 'processing-customer' 
-  | 'pin-setup'           
-  | 'registering-onepulse'
-  | 'completed'           
-  | 'error' 
-  | 'invalid-environment';
-
-type UnsafeTelegramUser = {
-  id: number;
-  first_name: string;
-  last_name?: string;
-  username?: string;
-  language_code?: string;
-  photo_url?: string;
-  is_premium?: boolean;
-} | undefined;
-
 type DebugDetails = {
-  initDataSource?: 'sdk' | 'unsafe' | 'url';
+  initDataSource?: InitDataSource;
   initDataRawPreview?: string;
   user?: TelegramUser;
 };
 
 
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-
-const mapUnsafeUser = (unsafeUser: UnsafeTelegramUser): TelegramUser | undefined => {
-  if (!unsafeUser) return undefined;
-  return {
-    id: unsafeUser.id,
-    firstName: unsafeUser.first_name,
-    lastName: unsafeUser.last_name,
-    username: unsafeUser.username,
-    languageCode: unsafeUser.language_code,
-    photoUrl: unsafeUser.photo_url,
-    isPremium: unsafeUser.is_premium,
-  };
-};
-
-const parseUserFromInitDataString = (initDataString?: string | null): TelegramUser | undefined => {
-  if (!initDataString) return undefined;
-  try {
-    const params = new URLSearchParams(initDataString);
-    const userPayload = params.get('user');
-    if (!userPayload) return undefined;
-    const unsafeUser = JSON.parse(userPayload);
-    return mapUnsafeUser(unsafeUser);
-  } catch (error) {
-    return undefined;
-  }
+const RESUME_LABELS: Record<ResumableStep, MessageKey> = {
+  'otp-entry': 'resume.otpEntry',
+  'account-entry': 'resume.accountEntry',
+  'pin-setup': 'resume.pinSetup',
 };
 
-const getInitDataFromUrl = (): string | undefined => {
-  if (typeof window === 'undefined') return undefined;
-  try {
-    const currentUrl = new URL(window.location.href);
-    const searchParam = currentUrl.searchParams.get('tgWebAppData');
-    if (searchParam) return decodeURIComponent(searchParam);
-    if (currentUrl.hash.startsWith('#tgWebAppData=')) {
-      return decodeURIComponent(currentUrl.hash.replace('#tgWebAppData=', ''));
-    }
-  } catch (error) {}
-  return undefined;
+// Steps where closing the Mini App would not lose any registration work.
+const CLOSE_WITHOUT_CONFIRMATION: AppStatus[] = [
+  'idle', 'checking', 'id-verified', 'pin-unlock', 'unlocked', 'biometric-setup', 'completed', 'invalid-environment',
+];
+
+
+const ScreenHeader = ({ title, subtitle, onBack }: { title: string, subtitle?: React.ReactNode, onBack?: () => void }) => {
+  const { t } = useI18n();
+  return (
+    <div className="text-center mb-8 relative">
+      {onBack && (
+        <button 
+          onClick={onBack}
+          className="absolute left-0 top-1 p-2 text-app-hint hover:text-app-text hover:bg-app-secondary-bg rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-app-separator"
+          type="button"
+          aria-label={t('common.back')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 19.5L3 12m0 0l7.5-7.5M3 12h18" />
+          </svg>
+        </button>
+      )}
+      <h1 className="text-2xl font-bold text-app-text pt-2">{title}</h1>
+      {subtitle && <p className="text-app-hint mt-2 text-sm font-medium">{subtitle}</p>}
+    </div>
+  );
 };
 
 
-const ScreenHeader = ({ title, subtitle, onBack }: { title: string, subtitle?: React.ReactNode, onBack?: () => void }) => (
-  <div className="text-center mb-8 relative">
-    {onBack && (
-      <button 
-        onClick={onBack}
-        className="absolute left-0 top-1 p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-gray-200"
-        type="button"
-        aria-label="Go Back"
-      >
-        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
-          <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 19.5L3 12m0 0l7.5-7.5M3 12h18" />
-        </svg>
-      </button>
-    )}
-    <h1 className="text-2xl font-bold text-gray-900 pt-2">{title}</h1>
-    {subtitle && <p className="text-gray-500 mt-2 text-sm font-medium">{subtitle}</p>}
-  </div>
-);
-
-
-
 export default function RegistrationFlow() {
-  const [status, setStatus] = useState<AppStatus>('idle');
-  const [loadingMessage, setLoadingMessage] = useState('Processing...');
-  const [errorMessage, setErrorMessage] = useState('');
+  const router = useRouter();
+  const [state, dispatch] = useReducer(registrationReducer, initialRegistrationState);
+  const i18n = useI18n();
+  const { t } = i18n;
+  useFunnelAnalytics(state);
+  const { status, loadingMessage, error, otp } = state;
   const [debugDetails, setDebugDetails] = useState<DebugDetails | null>(null);
-  const [lastActiveStatus, setLastActiveStatus] = useState<AppStatus>('idle');
 
   // Input States
+  // What the user typed, and the E.164 number every API call uses once it validates.
+  const [phoneInput, setPhoneInput] = useState('');
+  const [phoneCountry, setPhoneCountry] = useState<CountryCode>(DEFAULT_COUNTRY);
+  const [phoneError, setPhoneError] = useState('');
   const [phoneNumber, setPhoneNumber] = useState('');
+  // Signed requestContact payload; cleared as soon as the number is edited by hand.
+  const [contactPayload, setContactPayload] = useState<string | undefined>(undefined);
+  const [phoneEntryMode, setPhoneEntryMode] = useState<'contact' | 'manual'>(() =>
+    isContactRequestSupported() ? 'contact' : 'manual'
+  );
+  const [contactDeclined, setContactDeclined] = useState(false);
   const [activationCode, setActivationCode] = useState('');
+  const [resendPending, setResendPending] = useState(false);
+  // The account being linked, and the primary account OnePulse registers once chosen.
+  const [accountInput, setAccountInput] = useState('');
   const [accountNumber, setAccountNumber] = useState('');
-  const [pin, setPin] = useState('');
+  const [accountError, setAccountError] = useState('');
+  // Shown for a number our bank rules reject; submitting it unchanged goes ahead anyway.
+  const [accountWarning, setAccountWarning] = useState('');
+  // KYC photos stay here, so a failed upload can be retried without retaking them.
+  const [kycDocumentType, setKycDocumentType] = useState<KycDocumentType>('national-id');
+  const [kycCaptures, setKycCaptures] = useState<KycCaptures>({});
+  const [kycProgress, setKycProgress] = useState(0);
+  const kycUploader = useRef<KycUploader | null>(null);
+  const checkInFlight = useRef(false);
   
   // Data States
   const [currentUser, setCurrentUser] = useState<TelegramUser | null>(null);
-  const [initDataRawString, setInitDataRawString] = useState<string | undefined>(undefined);
-  
-  // *** CRITICAL DATA: FROM BACKEND RESPONSE ***
-  const [sessionId, setSessionId] = useState(''); 
-  const [verifiedDeviceId, setVerifiedDeviceId] = useState(''); 
-  const [deviceFingerprint, setDeviceFingerprint] = useState(''); 
-  
-  const [customerId, setCustomerId] = useState('');
-  const [productCode, setProductCode] = useState('');
-
-  const hasChecked = useRef(false);
-
-  // --- NAVIGATION LOGIC ---
-  const handleBack = () => {
-    switch (status) {
-      case 'phone-entry': setStatus('id-verified'); break;
-      case 'otp-entry': setStatus('phone-entry'); break;
-      case 'account-entry': setStatus('phone-entry'); break;
-      case 'pin-setup': setStatus('account-entry'); break;
-      case 'error': handleErrorBack(); break;
-      default: console.warn("Back not handled for status:", status);
-    }
+  const [savedProgress, setSavedProgress] = useState<RegistrationProgress | null>(null);
+  const [biometrics, setBiometrics] = useState<BiometricStatus | null>(null);
+
+  // Requests wait for the connection to come back; the loading screens say so.
+  const online = useOnlineStatus();
+  const progressMessage = t(online ? loadingMessage : 'loading.waitingForConnection');
+
+  const resendSeconds = useSecondsUntil(state.otp.resendAvailableAt);
+  const otpLockSeconds = useSecondsUntil(state.otp.lockedUntil);
+
+  const resumeContextOf = (overrides: Partial<ResumeContext> = {}): ResumeContext => ({
+    sessionId: state.sessionId,
+    verifiedDeviceId: state.verifiedDeviceId,
+    deviceFingerprint: state.deviceFingerprint,
+    customerId: state.customerId,
+    productCode: state.productCode,
+    ...overrides,
+  });
+
+  // Saving is best effort: a failed write only means the user cannot resume.
+  const persistProgress = (
+    step: ResumableStep,
+    context: ResumeContext,
+    inputs: { phoneNumber?: string; accountNumber?: string } = {},
+  ) => {
+    if (!currentUser) return;
+    saveProgress(currentUser.id, {
+      step,
+      context,
+      phoneNumber: inputs.phoneNumber ?? phoneNumber,
+      accountNumber: inputs.accountNumber ?? accountNumber,
+    }).catch(() => {});
   };
 
-  const handleRetry = () => {
-    if (lastActiveStatus !== 'idle') setStatus(lastActiveStatus);
-    else window.location.reload();
+  // --- NAVIGATION LOGIC ---
+  const handleBack = () => dispatch({ type: 'BACK' });
+  const fail = (err: unknown) => dispatch({ type: 'FAILED', error: toAppError(err) });
+
+  // Errors are shown inline on the field they are about once the user is sent back to it.
+  const showFieldError = (field: ErrorField, message: string) => {
+    if (field === 'phone') { setPhoneEntryMode('manual'); setPhoneError(message); }
+    else if (field === 'account-number') setAccountError(message);
+    else setActivationCode('');
   };
 
-  const handleErrorBack = () => {
-    switch (lastActiveStatus) {
-      case 'phone-entry': setStatus('id-verified'); break;
-      case 'otp-entry': setStatus('phone-entry'); break;
-      case 'account-entry': setStatus('phone-entry'); break;
-      case 'pin-setup': setStatus('account-entry'); break;
-      default: window.location.reload(); 
+  const handleRecover = () => {
+    if (!error) return;
+    const { recovery } = error;
+    switch (recovery.type) {
+      case 'retry': dispatch({ type: 'RETRY' }); break;
+      case 'edit-field':
+        showFieldError(recovery.field, t(errorCopy(error.kind).message));
+        dispatch({ type: 'RECOVER', step: recovery.step });
+        break;
+      case 'go-to-step': dispatch({ type: 'RECOVER', step: recovery.step }); break;
+      case 'reopen':
+        // Closing tears the page down before any timer-based send.
+        analytics.flush();
+        window.Telegram?.WebApp?.close();
+        break;
+      case 'contact-support': openSupport(); break;
     }
   };
 
-  // --- FETCH WRAPPER ---
-  const authenticatedFetch = async (url: string, payload: any) => {
-    const headers: Record<string, string> = {
-      'Content-Type': "application/json",
-      'X-Channel-Id': "telegram",
-      'X-Timestamp': new Date().toISOString(),
-      'X-App-Version': "1.0.0",
-    };
-    if (initDataRawString) headers['X-Telegram-Init'] = initDataRawString;
-
-    const response = await fetch(`${BACKEND_URL}${url}`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.message || `Request failed: ${response.statusText}`);
+  // Stable so the launch check can start it right away; the PIN screen offers it again.
+  const unlockWithBiometrics = useCallback(async (telegramId: number, reason: string) => {
+    dispatch({ type: 'UNLOCK_WITH_BIOMETRICS' });
+    try {
+      const result = await loginWithBiometrics(telegramId.toString(), reason);
+      if (result.type === 'unlocked') {
+        saveAppSession(result.session);
+        dispatch({ type: 'UNLOCKED' });
+        return;
+      }
+      if (result.type === 'invalidated') setBiometrics((current) => current && { ...current, tokenSaved: false });
+      dispatch({
+        type: 'BIOMETRIC_REJECTED',
+        message: result.type === 'cancelled' ? 'biometrics.cancelled' : 'biometrics.invalidated',
+      });
+    } catch (err) {
+      dispatch({ type: 'FAILED', error: toAppError(err) });
     }
-    return await response.json();
-  };
+  }, []);
 
-  // 1. INITIAL MOUNT & ID CHECK
+  // 1. ID CHECK (re-runs whenever the machine is reset to `idle`)
+  // The ref stops a second check while one is in flight: Strict Mode runs the
+  // effect twice, which would send checkTelegramID (and a rebind OTP) twice.
   useEffect(() => {
-    if (!BACKEND_URL) {
-      setStatus('error');
-      setErrorMessage('The backend URL is not configured correctly.');
-      return;
-    }
-
-    if (hasChecked.current) return;
-    hasChecked.current = true;
+    if (status !== 'idle' || checkInFlight.current) return;
+    checkInFlight.current = true;
 
     const performCheck = async () => {
-      setStatus('checking');
-      setLoadingMessage('Verifying Account...');
+      dispatch({ type: 'CHECK_STARTED' });
       try {
-        let initDataRaw: string | undefined;
-        try {
-          const params = retrieveLaunchParams();
-          initDataRaw = typeof params.initDataRaw === 'string' ? params.initDataRaw : undefined;
-        } catch (e) {}
-
-        let tgUser = undefined as TelegramUser | undefined;
-        let initSource: DebugDetails['initDataSource'];
-
-        if (typeof window !== 'undefined') {
-          const webApp = (window as any).Telegram?.WebApp;
-          const unsafeUser = webApp?.initDataUnsafe?.user as UnsafeTelegramUser;
-          if (unsafeUser) { tgUser = mapUnsafeUser(unsafeUser); initSource = 'unsafe'; }
-          initDataRaw = initDataRaw ?? webApp?.initData;
-
-          if (!tgUser) {
-            const urlInitData = getInitDataFromUrl();
-            const parsed = parseUserFromInitDataString(urlInitData);
-            if (parsed) { tgUser = parsed; initSource = 'url'; }
-            initDataRaw = initDataRaw ?? urlInitData;
-          }
-        }
+        const { user: tgUser, source } = readLaunchContext();
 
-        setDebugDetails({ user: tgUser, initDataSource: initSource });
+        setDebugDetails({ user: tgUser, initDataSource: source });
 
-        if (!tgUser) { setStatus('invalid-environment'); return; }
+        if (!tgUser) { dispatch({ type: 'ENVIRONMENT_INVALID' }); return; }
 
         setCurrentUser(tgUser);
-        setInitDataRawString(initDataRaw);
+        setPhoneCountry(defaultCountryFor(tgUser.languageCode, navigator.language));
 
         const payload: CheckIdPayload = {
           allowed_financial_actions: ["ALL"],
           customer_profile: { avatar: "" },
-          first_name: tgUser.firstName.replace(/[^a-zA-Z]/g, '') || 'User',
+          ...nameFields(tgUser),
           is_bot_user: true,
           is_premium: tgUser.isPremium || false,
           kyc_status: "PENDING",
           language_code: tgUser.languageCode || "en",
-          last_name: tgUser.lastName || "",
           phone_number: "", 
           registration_status: "SELF",
           telegram_id: tgUser.id,
-          username: tgUser.username || ""
+          username: tgUser.username || "",
+          device_id: getOrGenerateDeviceId()
         };
 
-        await authenticatedFetch('/api/v1/customers/checkTelegramID', payload);
-        setStatus('id-verified');
+        const check = (await api.checkTelegramId(payload)).data;
+        const route = routeForCheck(check);
+
+        if (route.type === 'unlock') {
+          const biometricStatus = await getBiometricStatus();
+          setBiometrics(biometricStatus);
+          dispatch({ type: 'UNLOCK_REQUIRED' });
+          if (canUnlockWithBiometrics(biometricStatus)) unlockWithBiometrics(tgUser.id, t('biometrics.unlockReason'));
+          return;
+        }
+
+        // Registered on another device: confirm it is the customer with an OTP before unlocking here.
+        if (route.type === 'rebind') {
+          dispatch({ type: 'PROGRESS', message: 'loading.securingDevice' });
+          const rebind = await api.startDeviceRebind({
+            device_info: await getDeviceInfo(),
+            telegram_id: tgUser.id.toString()
+          });
+          setPhoneNumber(check.phone_number ?? '');
+          const resendAfter = rebind.data.resend_after_seconds ?? DEFAULT_RESEND_COOLDOWN_SECONDS;
+          dispatch({
+            type: 'REBIND_STARTED',
+            rebindSessionId: rebind.data.rebind_session_id,
+            resendAvailableAt: Date.now() + resendAfter * 1000,
+          });
+          return;
+        }
+
+        // The backend knows the unfinished step, so there is nothing to ask the user.
+        if (route.type === 'resume') {
+          setPhoneNumber(check.phone_number ?? '');
+          const saved = parsePhoneNumber(check.phone_number ?? '');
+          if (saved.ok) { setPhoneCountry(saved.country.code); setPhoneInput(saved.nationalNumber); }
+          setAccountInput(check.account_number ?? '');
+          dispatch({ type: 'ID_VERIFIED' });
+          dispatch({ type: 'RESUME', step: route.step, context: route.context });
+          return;
+        }
 
-      } catch (err: any) {
-        setErrorMessage(err.message || "Unknown error occurred");
-        setStatus('error');
+        setSavedProgress(await loadProgress(tgUser.id).catch(() => null));
+        dispatch({ type: 'ID_VERIFIED' });
+
+      } catch (err) {
+        dispatch({ type: 'FAILED', error: toAppError(err) });
+      } finally {
+        // Only a later return to `idle` (retry, start over) may check again.
+        checkInFlight.current = false;
       }
     };
 
     performCheck();
-  }, []);
+  }, [status, unlockWithBiometrics, t]);
 
-  const handleContinueToPhone = () => setStatus('phone-entry');
+  useEffect(() => {
+    if (status === 'unlocked') router.replace('/dashboard');
+  }, [status, router]);
+
+  const handleContinueToPhone = () => dispatch({ type: 'CONTINUE' });
+
+  // Saved progress only has masked numbers, so they are typed again and checked against the masks.
+  const handleResume = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!savedProgress) return;
+    const phone = parsePhoneNumber(phoneInput, phoneCountry);
+    if (!phone.ok) { setPhoneError(phoneErrorMessage(i18n, phone.error, phone.country)); return; }
+    if (maskPhoneNumber(phone.e164) !== savedProgress.phoneHint) { setPhoneError(t('resume.error.phoneMismatch')); return; }
+    let account = '';
+    if (savedProgress.accountHint) {
+      const parsed = validateAccountNumber(accountInput);
+      if (!parsed.ok) { setAccountError(accountErrorMessage(i18n, parsed.error)); return; }
+      if (maskAccountNumber(parsed.accountNumber) !== savedProgress.accountHint) { setAccountError(t('resume.error.accountMismatch')); return; }
+      account = parsed.accountNumber;
+    }
+    setPhoneNumber(phone.e164);
+    setPhoneInput(phone.nationalNumber);
+    setPhoneCountry(phone.country.code);
+    setAccountNumber(account);
+    setAccountInput('');
+    dispatch({ type: 'RESUME', step: savedProgress.step, context: savedProgress.context });
+  };
+
+  const handleStartOver = () => {
+    if (currentUser) clearProgress(currentUser.id).catch(() => {});
+    setSavedProgress(null);
+    dispatch({ type: 'CONTINUE' });
+  };
 
   // STEP 2: Phone -> Session (Get Device ID) -> SIM
-  const handlePhoneSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!currentUser || !phoneNumber) return;
-    if (phoneNumber.length < 5) { alert("Invalid phone"); return; }
+  // Takes the validated E.164 number explicitly: it is not in state yet when this runs.
+  const submitPhone = async (phone: string, signedContact?: string) => {
+    if (!currentUser || !phone || !canSubmit(state)) return;
 
-    setStatus('processing-registration');
+    dispatch({ type: 'SUBMIT' });
     try {
       // 1. Share Contact
-      setLoadingMessage('Saving Contact Info...');
-      await authenticatedFetch('/api/v1/customers/share-contact', {
-        phone_number: phoneNumber,
+      await api.shareContact({
+        contact_payload: signedContact,
+        phone_number: phone,
         telegram_id: currentUser.id
       });
 
       // 2. Start Session & CAPTURE BACKEND DEVICE ID
-      setLoadingMessage('Initializing Secure Session...');
+      dispatch({ type: 'PROGRESS', message: 'loading.startingSession' });
       const deviceInfo = await getDeviceInfo();
       
-      const sessionRes = await authenticatedFetch('/api/v1/device-session-start', {
+      // The client rejects responses without device_info.device_id.
+      const sessionRes = await api.startDeviceSession({
         device_info: deviceInfo,
-        phone_number: phoneNumber,
+        phone_number: phone,
         telegram_id: currentUser.id.toString()
       });
-      
-
-      const returnedDeviceId = sessionRes.data?.device_info?.device_id;
-      const returnedSessionId = sessionRes.data?.registration_session_id;
-
-      if (!returnedDeviceId) throw new Error("Backend did not return a valid Device ID");
-
-      setVerifiedDeviceId(returnedDeviceId);
-      setSessionId(returnedSessionId || "");
-      setDeviceFingerprint(deviceInfo.fingerprint); 
 
       // 3. SIM Verify
-      setLoadingMessage('Verifying Device Security...');
-      await authenticatedFetch('/api/v1/SIM-Verify', {
+      dispatch({ type: 'PROGRESS', message: 'loading.verifyingDevice' });
+      const simRes = await api.verifySim({
         device_fingerprint: deviceInfo.fingerprint,
-        phone_number: phoneNumber,
+        phone_number: phone,
         telegram_id: currentUser.id.toString()
       });
 
-      setStatus('otp-entry');
-
-    } catch (err: any) {
-      if (err.message.includes("does not match")) {
-        setErrorMessage("Phone number linked to another account.");
-      } else {
-        setErrorMessage(err.message);
-      }
-      setLastActiveStatus('phone-entry');
-      setStatus('error');
+      const registered = {
+        sessionId: sessionRes.data.registration_session_id || "",
+        verifiedDeviceId: sessionRes.data.device_info.device_id,
+        deviceFingerprint: deviceInfo.fingerprint,
+      };
+      const resendAfter = simRes.data.resend_after_seconds ?? DEFAULT_RESEND_COOLDOWN_SECONDS;
+      dispatch({ type: 'PHONE_REGISTERED', ...registered, resendAvailableAt: Date.now() + resendAfter * 1000 });
+      persistProgress('otp-entry', resumeContextOf(registered), { phoneNumber: phone });
+
+    } catch (err) {
+      fail(err);
     }
   };
 
-  // STEP 3: OTP Verification
-  const handleOtpSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handlePhoneSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const parsed = parsePhoneNumber(phoneInput, phoneCountry);
+    if (!parsed.ok) { setPhoneError(phoneErrorMessage(i18n, parsed.error, parsed.country)); return; }
+    setPhoneNumber(parsed.e164);
+    submitPhone(parsed.e164, contactPayload);
+  };
+
+  const handleShareContact = async () => {
     if (!currentUser) return;
+    const contact = await requestTelegramContact(currentUser.id);
+    if (!contact) {
+      setContactDeclined(true);
+      setPhoneEntryMode('manual');
+      return;
+    }
+    const parsed = parsePhoneNumber(contact.phoneNumber);
+    if (!parsed.ok) {
+      // A shared number outside our markets: let the user type a different one.
+      setPhoneInput(contact.phoneNumber);
+      setPhoneError(phoneErrorMessage(i18n, parsed.error, parsed.country));
+      setPhoneEntryMode('manual');
+      return;
+    }
+    setPhoneCountry(parsed.country.code);
+    setPhoneInput(parsed.nationalNumber);
+    setPhoneNumber(parsed.e164);
+    setContactPayload(contact.contactPayload);
+    submitPhone(parsed.e164, contact.contactPayload);
+  };
+
+  const handlePhoneChange = (value: string) => {
+    setPhoneInput(value);
+    setPhoneError('');
+    setContactPayload(undefined);
+  };
+
+  const handleCountryChange = (country: CountryCode) => {
+    setPhoneCountry(country);
+    setPhoneError('');
+    setContactPayload(undefined);
+  };
 
-    setStatus('verifying-otp');
-    setLoadingMessage('Verifying Code...');
+  // STEP 3: OTP Verification (also confirms a new device for returning customers)
+  const submitOtp = async (code: string) => {
+    if (!currentUser || !canSubmit(state) || code.length !== OTP_LENGTH || otpLockSeconds > 0) return;
+
+    const rebinding = status === 'rebind-otp';
+    dispatch({ type: 'SUBMIT' });
     try {
-      await authenticatedFetch('/api/v1/verifyCode', {
-        activation_code: activationCode,
+      if (rebinding) {
+        await api.confirmDeviceRebind({
+          activation_code: code,
+          rebind_session_id: state.rebindSessionId,
+          telegram_id: currentUser.id.toString()
+        });
+        dispatch({ type: 'DEVICE_REBOUND' });
+        return;
+      }
+      await api.verifyCode({
+        activation_code: code,
         phone_number: phoneNumber,
         telegram_id: currentUser.id.toString()
       });
-      setStatus('account-entry');
-    } catch (err: any) {
-      setErrorMessage(err.message);
-      setLastActiveStatus('otp-entry');
-      setStatus('error');
+      dispatch({ type: 'OTP_VERIFIED' });
+      persistProgress('account-entry', resumeContextOf());
+    } catch (err) {
+      const failure = otpFailureFrom(err);
+      if (!failure) { fail(err); return; }
+      // Wrong codes stay on the OTP screen, so they are reported here rather than by the error screen.
+      const { kind, code, status: httpStatus } = toAppError(err);
+      analytics.track({ name: 'error', kind, step: rebinding ? 'rebind-otp' : 'otp-entry', code, status: httpStatus });
+      setActivationCode('');
+      dispatch({
+        type: 'OTP_REJECTED',
+        message: failure.message,
+        attemptsRemaining: failure.attemptsRemaining,
+        lockedUntil: failure.lockedForSeconds ? Date.now() + failure.lockedForSeconds * 1000 : undefined,
+      });
     }
   };
 
+  const handleOtpSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    submitOtp(activationCode);
+  };
+
   const handleResendCode = async () => {
-    if (!currentUser) return;
+    if (!currentUser || resendPending || resendSeconds > 0) return;
+    setResendPending(true);
     try {
-      await authenticatedFetch('/api/v1/resendCode', {
-        phone_number: phoneNumber,
-        telegram_id: currentUser.id.toString()
+      const res = status === 'rebind-otp'
+        ? await api.resendRebindCode({
+            rebind_session_id: state.rebindSessionId,
+            telegram_id: currentUser.id.toString()
+          })
+        : await api.resendCode({
+            phone_number: phoneNumber,
+            telegram_id: currentUser.id.toString()
+          });
+      setActivationCode('');
+      const resendAfter = res.data.resend_after_seconds ?? DEFAULT_RESEND_COOLDOWN_SECONDS;
+      dispatch({ type: 'CODE_RESENT', resendAvailableAt: Date.now() + resendAfter * 1000 });
+    } catch (err) {
+      const cooldown = resendCooldownFrom(err);
+      dispatch({
+        type: 'RESEND_FAILED',
+        message: errorCopy(toAppError(err).kind).message,
+        resendAvailableAt: cooldown ? Date.now() + cooldown * 1000 : undefined,
       });
-      alert("Code resent successfully!");
-    } catch (err: any) {
-      alert("Failed to resend code: " + err.message);
+    } finally {
+      setResendPending(false);
     }
   };
 
-  // STEP 4: Account Verify -> Product Validation
-  const handleAccountSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!currentUser || !verifiedDeviceId) return;
+  // STEP 4: Account Verify -> Holder Confirmation -> Product Validation
+  const handleAccountSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!currentUser || !canSubmit(state)) return;
+
+    // Format and check digit are checked here, so most typos never reach verifyCustomer.
+    const parsed = validateAccountNumber(accountInput);
+    if (!parsed.ok) { setAccountError(accountErrorMessage(i18n, parsed.error)); return; }
+    setAccountInput(parsed.accountNumber);
+    if (parsed.warning && !accountWarning) {
+      setAccountWarning(accountWarningMessage(i18n, parsed.warning, parsed.bank));
+      return;
+    }
+    setAccountWarning('');
 
-    setStatus('processing-customer');
-    setLoadingMessage('Verifying Bank Account...');
+    dispatch({ type: 'SUBMIT' });
     try {
-      // 1. Verify Customer (USING VERIFIED DEVICE ID)
-      const customerRes = await authenticatedFetch('/api/v1/verifyCustomer', {
-        account_number: accountNumber,
-        device_id: verifiedDeviceId, 
+      // Verify Customer (USING VERIFIED DEVICE ID)
+      const customerRes = await api.verifyCustomer({
+        account_number: parsed.accountNumber,
+        device_id: state.verifiedDeviceId, 
         phone_number: phoneNumber,
         telegram_id: currentUser.id.toString()
       });
       
       const custData = customerRes.data;
-      if (!custData || !custData.customer_id || !custData.product_code) {
-        throw new Error("Invalid customer data received.");
-      }
-      
-      setCustomerId(custData.customer_id);
-      setProductCode(custData.product_code);
-
-      // 2. Product Validation
-      setLoadingMessage('Validating Product Eligibility...');
-      await authenticatedFetch('/api/v1/product-validation', {
-        channel: "ussd",
-        customer_group: "noncorporate",
-        product_code: custData.product_code,
-        tier_group: "1"
+      dispatch({
+        type: 'CUSTOMER_VERIFIED',
+        account: {
+          accountNumber: parsed.accountNumber,
+          bankName: parsed.bank?.name ?? '',
+          customerId: custData.customer_id,
+          customerName: custData.customer_name ?? '',
+          productCode: custData.product_code,
+          productName: custData.product_name ?? '',
+          customerGroup: custData.customer_group,
+          tierGroup: custData.tier_group,
+        },
       });
 
-      setStatus('pin-setup');
+    } catch (err) {
+      fail(err);
+    }
+  };
+
+  // Each linked account's product is validated on its own.
+  const handleAccountConfirm = async () => {
+    const account = state.pendingAccount;
+    if (!currentUser || !account || !canSubmit(state)) return;
 
-    } catch (err: any) {
-      setErrorMessage(err.message);
-      setLastActiveStatus('account-entry');
-      setStatus('error');
+    dispatch({ type: 'SUBMIT' });
+    try {
+      await api.validateProduct(productValidationPayload(account));
+      setAccountInput('');
+      dispatch({ type: 'PRODUCT_VALIDATED' });
+    } catch (err) {
+      const reason = ineligibleReasonFrom(err);
+      if (reason === null) { fail(err); return; }
+      // Listed as ineligible on the account screen, so reported here rather than by the error screen.
+      const { kind, code, status: httpStatus } = toAppError(err);
+      analytics.track({ name: 'error', kind, step: 'account-confirmation', code, status: httpStatus });
+      setAccountInput('');
+      dispatch({ type: 'PRODUCT_REJECTED', reason });
     }
   };
 
+  const handleAccountsContinue = () => {
+    const primary = primaryAccount(state);
+    if (!primary) return;
+    setAccountNumber(primary.accountNumber);
+    dispatch({ type: 'ACCOUNTS_CONFIRMED' });
+    persistProgress(
+      'pin-setup',
+      resumeContextOf({ customerId: primary.customerId, productCode: primary.productCode }),
+      { accountNumber: primary.accountNumber },
+    );
+  };
+
   // STEP 5: PIN Setup -> Final Registration
-  const handlePinSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!currentUser || !verifiedDeviceId || !pin) return;
-    if (pin.length < 4) { alert("PIN must be at least 4 digits"); return; }
+  // The PIN is only held by PinSetup and this call; it is encrypted before it leaves the client.
+  const submitPin = async (pin: string) => {
+    if (!currentUser || !canSubmit(state)) return;
 
-    setStatus('registering-onepulse');
-    setLoadingMessage('Finalizing Registration...');
+    dispatch({ type: 'SUBMIT' });
 
     try {
-      await authenticatedFetch('/api/v1/onepulse-registration', {
+      const keyRes = await api.getPinEncryptionKey({
+        session_id: state.sessionId,
+        telegram_id: currentUser.id.toString()
+      });
+      const encryptedPin = await encryptPin(pin, keyRes.data.public_key, { session_id: state.sessionId });
+
+      dispatch({ type: 'PROGRESS', message: 'loading.finalizing' });
+      const registration = await api.registerOnePulse({
         account_number: accountNumber,
-        customer_id: customerId,
-        device_id: verifiedDeviceId, 
+        // Only the primary account is known after resuming at PIN setup.
+        linked_account_numbers: state.accounts.length
+          ? state.accounts.filter((account) => account.eligible).map((account) => account.accountNumber)
+          : [accountNumber],
+        customer_id: state.customerId,
+        device_id: state.verifiedDeviceId, 
         phone_number: phoneNumber,
-        pin: pin,
-        session_id: sessionId,
+        encrypted_pin: encryptedPin,
+        pin_key_id: keyRes.data.key_id,
+        session_id: state.sessionId,
         telegram_id: currentUser.id.toString()
       });
 
-      setStatus('completed');
+      // Without a session the dashboard sends the user back here to unlock with the new PIN.
+      // Enabling biometrics needs the session too, so they are only offered with one.
+      const appSession = registration.data.app_session;
+      if (appSession) saveAppSession(appSession);
+      const biometricStatus = appSession ? await getBiometricStatus() : null;
+      setBiometrics(biometricStatus);
+      dispatch({
+        type: 'REGISTERED',
+        offerBiometrics: canOfferBiometrics(biometricStatus),
+        kycRequired: registration.data.kyc_required ?? false,
+        kycStatus: registration.data.kyc_status ?? '',
+      });
+      clearProgress(currentUser.id).catch(() => {});
+      setSavedProgress(null);
+
+    } catch (err) {
+      fail(err);
+    }
+  };
 
-    } catch (err: any) {
-      setErrorMessage(err.message);
-      setLastActiveStatus('pin-setup');
-      setStatus('error');
+  // STEP 6 (when the bank requires it): KYC documents -> Review
+  // The uploader remembers finished chunks, so a retry resumes the upload.
+  const handleKycSubmit = async () => {
+    if (!currentUser || !canSubmit(state) || !isKycCaptureComplete(kycDocumentType, kycCaptures)) return;
+
+    dispatch({ type: 'SUBMIT' });
+    kycUploader.current ??= createKycUploader(api, currentUser.id.toString());
+    try {
+      const kycStatus = await kycUploader.current.submit(kycDocumentType, kycImagesOf(kycCaptures), setKycProgress);
+      setKycCaptures({});
+      dispatch({ type: 'KYC_SUBMITTED', kycStatus });
+    } catch (err) {
+      fail(err);
     }
   };
 
+  // Another document needs other photos; the selfie still applies.
+  const handleKycDocumentTypeChange = (documentType: KycDocumentType) => {
+    setKycDocumentType(documentType);
+    setKycCaptures((captures) => (captures.selfie ? { selfie: captures.selfie } : {}));
+  };
+
+  const handleKycCapture = (side: KycSide, capture: KycCaptureImage | undefined) =>
+    setKycCaptures((captures) => ({ ...captures, [side]: capture }));
+
+  const handleSkipKyc = () => dispatch({ type: 'KYC_SKIPPED' });
+
+  // RETURNING USERS: PIN -> App Session
+  const submitUnlock = async (pin: string) => {
+    if (!currentUser || !canSubmit(state)) return;
+
+    dispatch({ type: 'SUBMIT' });
+    const deviceId = getOrGenerateDeviceId();
+    try {
+      const keyRes = await api.getPinEncryptionKey({ telegram_id: currentUser.id.toString() });
+      const encryptedPin = await encryptPin(pin, keyRes.data.public_key, { device_id: deviceId });
+      const session = await api.loginWithPin({
+        device_id: deviceId,
+        encrypted_pin: encryptedPin,
+        pin_key_id: keyRes.data.key_id,
+        telegram_id: currentUser.id.toString()
+      });
+      saveAppSession(session.data);
+      dispatch({ type: 'UNLOCKED' });
+    } catch (err) {
+      const failure = pinFailureFrom(err);
+      if (!failure) { fail(err); return; }
+      const { kind, code, status: httpStatus } = toAppError(err);
+      analytics.track({ name: 'error', kind, step: 'pin-unlock', code, status: httpStatus });
+      dispatch({
+        type: 'PIN_REJECTED',
+        message: failure.message,
+        attemptsRemaining: failure.attemptsRemaining,
+        lockedUntil: failure.lockedForSeconds ? Date.now() + failure.lockedForSeconds * 1000 : undefined,
+      });
+    }
+  };
+
+  const handleEnableBiometrics = async () => {
+    if (!currentUser || !canSubmit(state)) return;
+
+    dispatch({ type: 'SUBMIT' });
+    try {
+      const result = await enableBiometricUnlock(currentUser.id.toString(), t('biometrics.enableReason'));
+      if (result === 'enabled') {
+        dispatch({ type: 'BIOMETRICS_ENABLED' });
+        return;
+      }
+      setBiometrics(await getBiometricStatus());
+      dispatch({
+        type: 'BIOMETRICS_DENIED',
+        message: result === 'denied' ? 'biometrics.denied' : 'biometrics.unavailable',
+      });
+    } catch (err) {
+      fail(err);
+    }
+  };
+
+  const handleSkipBiometrics = () => dispatch({ type: 'BIOMETRICS_SKIPPED' });
+
+  const handleGoToDashboard = () => router.push('/dashboard');
+
+  const biometricLabel = t(BIOMETRIC_LABELS[biometrics?.type ?? 'unknown']);
+  const linkLabel: MessageKey = state.accounts.length ? 'account.addAnother' : 'account.submit';
+
+  // --- NATIVE TELEGRAM CONTROLS ---
+  // The HTML buttons below are only rendered when these are unavailable.
+  const mainButtonOptions = ((): MainButtonOptions | null => {
+    if (isProcessingStep(status)) return { text: progressMessage, onClick: () => {}, progress: true };
+    switch (status) {
+      case 'id-verified':
+        return savedProgress
+          ? { text: t('idVerified.resume'), onClick: () => handleResume(), enabled: phoneInput !== '' && (!savedProgress.accountHint || accountInput !== '') }
+          : { text: t('common.continue'), onClick: handleContinueToPhone };
+      case 'phone-entry':
+        return phoneEntryMode === 'contact'
+          ? { text: t('phone.share'), onClick: handleShareContact }
+          : { text: t('common.next'), onClick: () => handlePhoneSubmit(), enabled: phoneInput !== '' };
+      case 'otp-entry':
+      case 'rebind-otp':
+        return { text: t('otp.verify'), onClick: () => handleOtpSubmit(), enabled: activationCode.length === OTP_LENGTH && otpLockSeconds === 0 };
+      case 'account-entry':
+        return accountInput === '' && primaryAccount(state)
+          ? { text: t('common.continue'), onClick: handleAccountsContinue }
+          : { text: t(linkLabel), onClick: () => handleAccountSubmit(), enabled: accountInput !== '' };
+      case 'account-confirmation': return { text: t('accountConfirm.confirm'), onClick: handleAccountConfirm };
+      // The keypad submits by itself once the PIN is confirmed (or, when unlocking, complete).
+      case 'pin-setup':
+      case 'pin-unlock':
+        return null;
+      case 'kyc-capture':
+        return { text: t('kycCapture.submit'), onClick: handleKycSubmit, enabled: isKycCaptureComplete(kycDocumentType, kycCaptures) };
+      case 'biometric-setup': return { text: t('biometrics.enable', { method: biometricLabel }), onClick: handleEnableBiometrics };
+      case 'error': return error && { text: t(errorCopy(error.kind).action), onClick: handleRecover };
+      case 'completed': return { text: t('completed.goToDashboard'), onClick: handleGoToDashboard };
+      default: return null;
+    }
+  })();
+
+  const hasNativeMainButton = useTelegramMainButton(mainButtonOptions);
+  const hasNativeBackButton = useTelegramBackButton(backTarget(state) ? handleBack : undefined);
+  useClosingConfirmation(!CLOSE_WITHOUT_CONFIRMATION.includes(status));
+  const screenBack = hasNativeBackButton ? undefined : handleBack;
 
   // Shared Input Styles for High Visibility
-  const inputStyle = "w-full px-4 py-3 rounded-xl border border-gray-400 bg-gray-50 focus:bg-white focus:ring-2 focus:ring-blue-600 focus:border-transparent outline-none transition-all text-gray-900 placeholder-gray-500 font-medium";
+  const inputStyle = "w-full px-4 py-3 rounded-xl border border-app-separator bg-app-secondary-bg focus:bg-app-bg focus:ring-2 focus:ring-app-button focus:border-transparent outline-none transition-all text-app-text placeholder-app-hint font-medium";
 
   if (status === 'invalid-environment') {
     return (
-      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-6 text-center">
-        <div className="bg-yellow-100 p-4 rounded-full mb-4"><span className="text-2xl">⚠️</span></div>
-        <h2 className="text-xl font-bold text-gray-900 mb-2">Unsupported Environment</h2>
-        <p className="text-gray-600 mb-6 max-w-xs mx-auto">Please open this inside the Telegram App.</p>
-        {debugDetails && <div className="mt-4 text-xs text-left text-gray-500 bg-gray-100 rounded-md p-4 w-full max-w-sm"><p>Source: {debugDetails.initDataSource ?? 'none'}</p><p>User: {debugDetails.user ? 'Detected' : 'Missing'}</p></div>}
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-secondary-bg p-6 text-center">
+        <div className="bg-app-destructive/15 p-4 rounded-full mb-4"><span className="text-2xl">⚠️</span></div>
+        <h2 className="text-xl font-bold text-app-text mb-2">{t('environment.title')}</h2>
+        <p className="text-app-hint mb-6 max-w-xs mx-auto">{t('environment.message')}</p>
+        {debugDetails && <div className="mt-4 text-xs text-left text-app-hint bg-app-secondary-bg rounded-md p-4 w-full max-w-sm"><p>Source: {debugDetails.initDataSource ?? 'none'}</p><p>User: {debugDetails.user ? 'Detected' : 'Missing'}</p></div>}
       </div>
     );
   }
 
   // Loading States
-  if (['checking', 'processing-registration', 'verifying-otp', 'processing-customer', 'registering-onepulse'].includes(status)) {
+  if (isProcessingStep(status)) {
     return (
-      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 text-gray-800">
-        <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-4"></div>
-        <p className="font-medium animate-pulse">{loadingMessage}</p>
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-secondary-bg text-app-text">
+        <div className="w-12 h-12 border-4 border-app-button border-t-transparent rounded-full animate-spin mb-4"></div>
+        <p className="font-medium animate-pulse">{progressMessage}</p>
+        {status === 'submitting-kyc' && (
+          <div className="w-48 mt-4" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(kycProgress * 100)}>
+            <div className="h-2 rounded-full bg-app-separator overflow-hidden">
+              <div className="h-full bg-app-button transition-all" style={{ width: `${kycProgress * 100}%` }} />
+            </div>
+            <p className="text-xs text-app-hint text-center mt-2">{Math.round(kycProgress * 100)}%</p>
+          </div>
+        )}
+        {!online && <p className="text-sm text-app-hint mt-2 px-6 text-center">{t('loading.offline')}</p>}
       </div>
     );
   }
 
   if (status === 'error') {
+    const copy = error && errorCopy(error.kind);
     return (
-      <div className="flex flex-col items-center justify-center min-h-screen bg-red-50 p-6 text-center">
-        <div className="w-full max-w-sm relative">
-            <button onClick={handleErrorBack} className="absolute left-0 top-0 p-2 text-red-700 hover:bg-red-100 rounded-full transition-colors" aria-label="Go Back">
-                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M10.5 19.5L3 12m0 0l7.5-7.5M3 12h18" /></svg>
-            </button>
-        </div>
-        <div className="bg-red-100 p-4 rounded-full mb-4 mt-8"><svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg></div>
-        <h2 className="text-xl font-bold text-gray-900 mb-2">Connection Failed</h2>
-        <p className="text-gray-600 mb-6 break-words max-w-xs mx-auto">{errorMessage}</p>
-        <button onClick={handleRetry} className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors">Try Again</button>
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-bg p-6 text-center">
+        {screenBack && (
+          <div className="w-full max-w-sm relative">
+              <button onClick={screenBack} className="absolute left-0 top-0 p-2 text-app-destructive hover:bg-app-secondary-bg rounded-full transition-colors" aria-label={t('common.back')}>
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M10.5 19.5L3 12m0 0l7.5-7.5M3 12h18" /></svg>
+              </button>
+          </div>
+        )}
+        <div className="bg-app-destructive/15 p-4 rounded-full mb-4 mt-8"><svg className="w-8 h-8 text-app-destructive" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg></div>
+        <h2 className="text-xl font-bold text-app-text mb-2">{copy && t(copy.title)}</h2>
+        <p className="text-app-hint mb-6 break-words max-w-xs mx-auto">{copy && t(copy.message)}</p>
+        {!hasNativeMainButton && copy && <button onClick={handleRecover} className="bg-app-button hover:opacity-90 text-app-button-text font-semibold py-2 px-6 rounded-lg transition-colors">{t(copy.action)}</button>}
+        {SUPPORT_URL && error?.recovery.type !== 'contact-support' && (
+          <button onClick={openSupport} className="mt-4 text-sm text-app-link font-semibold hover:underline">{t('common.contactSupport')}</button>
+        )}
       </div>
     );
   }
@@ -461,11 +812,42 @@ export default function RegistrationFlow() {
   // ID Verified
   if (status === 'id-verified') {
     return (
-      <div className="flex flex-col items-center justify-center min-h-screen bg-white p-6 animate-in fade-in duration-300">
-        <div className="bg-green-100 p-6 rounded-full mb-6 text-green-600"><span className="text-4xl">✓</span></div>
-        <h1 className="text-2xl font-bold text-gray-900 mb-2">ID Verified Successfully</h1>
-        <p className="text-gray-500 text-center mb-8 max-w-xs">Your Telegram identity has been confirmed.</p>
-        <button onClick={handleContinueToPhone} className="w-full max-w-sm bg-blue-600 hover:bg-blue-700 text-white font-bold py-3.5 px-4 rounded-xl shadow-lg">Continue</button>
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-bg p-6 animate-in fade-in duration-300">
+        <LanguageSwitcher className="mb-8" />
+        <div className="bg-app-accent/15 p-6 rounded-full mb-6 text-app-accent"><span className="text-4xl">✓</span></div>
+        <h1 className="text-2xl font-bold text-app-text mb-2">{t('idVerified.title')}</h1>
+        <p className="text-app-hint text-center mb-8 max-w-xs">{t('idVerified.message')}</p>
+        {savedProgress ? (
+          <>
+            <p className="text-app-text text-center mb-4 max-w-xs text-sm">{t('idVerified.unfinished')} <span className="font-semibold">{t(RESUME_LABELS[savedProgress.step])}</span></p>
+            <form onSubmit={handleResume} className="w-full max-w-sm space-y-4" noValidate>
+              <p className="text-app-hint text-center text-sm">{t('resume.confirmPhone', { hint: savedProgress.phoneHint })}</p>
+              <PhoneInput
+                country={phoneCountry}
+                value={phoneInput}
+                error={phoneError}
+                onCountryChange={handleCountryChange}
+                onChange={handlePhoneChange}
+                inputClassName={inputStyle}
+              />
+              {savedProgress.accountHint && (
+                <>
+                  <p className="text-app-hint text-center text-sm">{t('resume.confirmAccount', { hint: savedProgress.accountHint })}</p>
+                  <AccountNumberInput
+                    value={accountInput}
+                    error={accountError}
+                    onChange={(value) => { setAccountInput(value); setAccountError(''); }}
+                    inputClassName={inputStyle}
+                  />
+                </>
+              )}
+              {!hasNativeMainButton && <button type="submit" disabled={phoneInput === '' || (!!savedProgress.accountHint && accountInput === '')} className="w-full bg-app-button hover:opacity-90 text-app-button-text font-bold py-3.5 px-4 rounded-xl shadow-lg disabled:opacity-50">{t('idVerified.resume')}</button>}
+            </form>
+            <button onClick={handleStartOver} className="w-full max-w-sm mt-3 text-sm text-app-link font-semibold hover:underline">{t('idVerified.startOver')}</button>
+          </>
+        ) : (
+          !hasNativeMainButton && <button onClick={handleContinueToPhone} className="w-full max-w-sm bg-app-button hover:opacity-90 text-app-button-text font-bold py-3.5 px-4 rounded-xl shadow-lg">{t('common.continue')}</button>
+        )}
       </div>
     );
   }
@@ -473,29 +855,75 @@ export default function RegistrationFlow() {
   // Phone Entry
   if (status === 'phone-entry') {
     return (
-      <div className="flex flex-col items-center justify-center min-h-screen bg-white p-6 animate-in slide-in-from-right duration-300">
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-bg p-6 animate-in slide-in-from-right duration-300">
         <div className="w-full max-w-sm">
-          <ScreenHeader title="Share Contact" subtitle="Enter your phone number to complete registration." onBack={handleBack} />
-          <form onSubmit={handlePhoneSubmit} className="space-y-4">
-            <input type="tel" placeholder="+251..." value={phoneNumber} onChange={(e) => setPhoneNumber(e.target.value)} className={inputStyle} required />
-            <button type="submit" className="w-full bg-blue-600 text-white font-bold py-3.5 px-4 rounded-xl shadow-lg">Next</button>
-          </form>
+          {phoneEntryMode === 'contact' ? (
+            <>
+              <ScreenHeader title={t('phone.title')} subtitle={t('phone.contactSubtitle')} onBack={screenBack} />
+              {!hasNativeMainButton && <button onClick={handleShareContact} className="w-full bg-app-button text-app-button-text font-bold py-3.5 px-4 rounded-xl shadow-lg">{t('phone.share')}</button>}
+              <button onClick={() => setPhoneEntryMode('manual')} className="w-full mt-6 text-sm text-app-link font-semibold hover:underline">{t('phone.enterManually')}</button>
+            </>
+          ) : (
+            <>
+              <ScreenHeader title={t('phone.title')} subtitle={t('phone.manualSubtitle')} onBack={screenBack} />
+              {contactDeclined && <p className="text-app-hint text-sm text-center mb-4">{t('phone.contactDeclined')}</p>}
+              <form onSubmit={handlePhoneSubmit} className="space-y-4" noValidate>
+                <PhoneInput
+                  country={phoneCountry}
+                  value={phoneInput}
+                  error={phoneError}
+                  onCountryChange={handleCountryChange}
+                  onChange={handlePhoneChange}
+                  inputClassName={inputStyle}
+                />
+                {!hasNativeMainButton && <button type="submit" className="w-full bg-app-button text-app-button-text font-bold py-3.5 px-4 rounded-xl shadow-lg">{t('common.next')}</button>}
+              </form>
+              {isContactRequestSupported() && <button onClick={() => setPhoneEntryMode('contact')} className="w-full mt-6 text-sm text-app-link font-semibold hover:underline">{t('phone.shareInstead')}</button>}
+            </>
+          )}
         </div>
       </div>
     );
   }
 
-  // OTP Entry
-  if (status === 'otp-entry') {
+  // OTP Entry (registration, or confirming a new device)
+  if (status === 'otp-entry' || status === 'rebind-otp') {
+    const sentTo = phoneNumber ? <span className="font-semibold text-app-text">{formatPhoneNumber(phoneNumber)}</span> : t('otp.registeredPhone');
     return (
-      <div className="flex flex-col items-center justify-center min-h-screen bg-white p-6 animate-in slide-in-from-right duration-300">
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-bg p-6 animate-in slide-in-from-right duration-300">
         <div className="w-full max-w-sm">
-            <ScreenHeader title="Enter Code" subtitle={<>We sent an activation code to <br/><span className="font-semibold text-gray-800">{phoneNumber}</span></>} onBack={handleBack} />
+            {status === 'rebind-otp' ? (
+              <ScreenHeader title={t('rebind.title')} subtitle={<>{t('rebind.sentTo')} <br/>{sentTo}</>} />
+            ) : (
+              <ScreenHeader title={t('otp.title')} subtitle={<>{t('otp.sentTo')} <br/>{sentTo}</>} onBack={screenBack} />
+            )}
             <form onSubmit={handleOtpSubmit} className="space-y-6">
-                <input type="text" placeholder="000000" value={activationCode} onChange={(e) => setActivationCode(e.target.value)} className={`${inputStyle} text-center text-2xl tracking-widest`} maxLength={6} required autoFocus />
-                <button type="submit" className="w-full bg-blue-600 text-white font-bold py-3.5 px-4 rounded-xl shadow-lg">Verify</button>
+                <OtpInput
+                  length={OTP_LENGTH}
+                  value={activationCode}
+                  onChange={setActivationCode}
+                  onComplete={submitOtp}
+                  disabled={otpLockSeconds > 0}
+                  invalid={otp.error !== ''}
+                  autoFocus
+                />
+                <div className="text-center text-sm font-medium min-h-10" aria-live="polite">
+                  {otpLockSeconds > 0 ? (
+                    <p className="text-app-destructive">{t('attempts.locked', { time: formatCountdown(otpLockSeconds) })}</p>
+                  ) : otp.error && (
+                    <>
+                      <p className="text-app-destructive">{t(otp.error)}</p>
+                      {otp.attemptsRemaining !== undefined && otp.attemptsRemaining > 0 && (
+                        <p className="text-app-hint mt-1">{t('attempts.remaining', { count: otp.attemptsRemaining })}</p>
+                      )}
+                    </>
+                  )}
+                </div>
+                {!hasNativeMainButton && <button type="submit" disabled={activationCode.length !== OTP_LENGTH || otpLockSeconds > 0} className="w-full bg-app-button text-app-button-text font-bold py-3.5 px-4 rounded-xl shadow-lg disabled:opacity-50">{t('otp.verify')}</button>}
             </form>
-            <button onClick={handleResendCode} className="w-full mt-6 text-sm text-blue-600 font-semibold hover:underline">Resend Code</button>
+            <button onClick={handleResendCode} disabled={resendPending || resendSeconds > 0} className="w-full mt-6 text-sm text-app-link font-semibold hover:underline disabled:text-app-hint disabled:no-underline">
+              {resendPending ? t('common.sending') : resendSeconds > 0 ? t('otp.resendIn', { seconds: resendSeconds }) : t('otp.resend')}
+            </button>
         </div>
       </div>
     );
@@ -504,13 +932,83 @@ export default function RegistrationFlow() {
   // Account Entry
   if (status === 'account-entry') {
     return (
-      <div className="flex flex-col items-center justify-center min-h-screen bg-white p-6 animate-in slide-in-from-right duration-300">
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-bg p-6 animate-in slide-in-from-right duration-300">
         <div className="w-full max-w-sm">
-            <ScreenHeader title="Link Bank Account" subtitle="Enter your account number to finalize the setup." onBack={handleBack} />
-            <form onSubmit={handleAccountSubmit} className="space-y-4">
-                <input type="text" placeholder="Account Number" value={accountNumber} onChange={(e) => setAccountNumber(e.target.value)} className={inputStyle} required autoFocus />
-                <button type="submit" className="w-full bg-blue-600 text-white font-bold py-3.5 px-4 rounded-xl shadow-lg">Link Account</button>
+            <ScreenHeader title={t('account.title')} subtitle={t('account.subtitle')} onBack={screenBack} />
+            {state.accounts.length > 0 && (
+              <fieldset className="mb-6">
+                <legend className="text-sm font-semibold text-app-text mb-1">{t('account.linked')}</legend>
+                <p className="text-xs text-app-hint mb-3">{primaryAccount(state) ? t('account.primaryHint') : t('account.noEligible')}</p>
+                <div className="bg-app-secondary-bg rounded-xl divide-y divide-app-separator">
+                  {state.accounts.map((account) => (
+                    <label key={account.accountNumber} className={`flex items-start gap-3 px-4 py-3 ${account.eligible ? 'cursor-pointer' : 'opacity-70'}`}>
+                      <input
+                        type="radio"
+                        name="primary-account"
+                        className="mt-1 accent-app-button"
+                        checked={account.accountNumber === state.primaryAccountNumber}
+                        disabled={!account.eligible}
+                        onChange={() => dispatch({ type: 'PRIMARY_SELECTED', accountNumber: account.accountNumber })}
+                      />
+                      <span className="flex-1 min-w-0">
+                        <span className="block text-sm font-semibold text-app-text">{account.bankName} {maskAccountNumber(account.accountNumber)}</span>
+                        <span className="block text-xs text-app-hint">{account.productName || account.productCode}</span>
+                        {account.eligible && account.accountNumber === state.primaryAccountNumber && (
+                          <span className="block text-xs text-app-link font-semibold mt-1">{t('account.primary')}</span>
+                        )}
+                        {!account.eligible && (
+                          <span className="block text-xs text-app-destructive mt-1">
+                            <span className="block font-semibold">{t('account.ineligible')}</span>
+                            {account.ineligibleReason || t('errors.product-ineligible.message')}
+                          </span>
+                        )}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            )}
+            <form onSubmit={handleAccountSubmit} className="space-y-4" noValidate>
+                <AccountNumberInput
+                  value={accountInput}
+                  error={accountError}
+                  warning={accountWarning}
+                  onChange={(value) => { setAccountInput(value); setAccountError(''); setAccountWarning(''); }}
+                  inputClassName={inputStyle}
+                />
+                {!hasNativeMainButton && <button type="submit" disabled={accountInput === ''} className="w-full bg-app-button text-app-button-text font-bold py-3.5 px-4 rounded-xl shadow-lg disabled:opacity-50">{t(linkLabel)}</button>}
             </form>
+            {!hasNativeMainButton && primaryAccount(state) && (
+              <button onClick={handleAccountsContinue} className="w-full mt-4 bg-app-secondary-bg text-app-text font-bold py-3.5 px-4 rounded-xl">{t('common.continue')}</button>
+            )}
+        </div>
+      </div>
+    );
+  }
+
+  // Account Confirmation
+  if (status === 'account-confirmation') {
+    const account = state.pendingAccount;
+    const details: [MessageKey, string][] = account ? [
+      ['accountConfirm.holder', account.customerName],
+      ['accountConfirm.product', account.productName || account.productCode],
+      ['accountConfirm.bank', account.bankName],
+      ['accountConfirm.number', maskAccountNumber(account.accountNumber)],
+    ] : [];
+    return (
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-bg p-6 animate-in slide-in-from-right duration-300">
+        <div className="w-full max-w-sm">
+            <ScreenHeader title={t('accountConfirm.title')} subtitle={t('accountConfirm.subtitle')} onBack={screenBack} />
+            <dl className="bg-app-secondary-bg rounded-xl divide-y divide-app-separator mb-6">
+              {details.filter(([, value]) => value).map(([label, value]) => (
+                <div key={label} className="flex justify-between gap-4 px-4 py-3">
+                  <dt className="text-sm text-app-hint">{t(label)}</dt>
+                  <dd className="text-sm font-semibold text-app-text text-right break-words">{value}</dd>
+                </div>
+              ))}
+            </dl>
+            {!hasNativeMainButton && <button onClick={handleAccountConfirm} className="w-full bg-app-button text-app-button-text font-bold py-3.5 px-4 rounded-xl shadow-lg">{t('accountConfirm.confirm')}</button>}
+            <button onClick={handleBack} className="w-full mt-6 text-sm text-app-link font-semibold hover:underline">{t('accountConfirm.notMine')}</button>
         </div>
       </div>
     );
@@ -519,13 +1017,84 @@ export default function RegistrationFlow() {
   // PIN Setup
   if (status === 'pin-setup') {
     return (
-      <div className="flex flex-col items-center justify-center min-h-screen bg-white p-6 animate-in slide-in-from-right duration-300">
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-bg p-6 animate-in slide-in-from-right duration-300">
         <div className="w-full max-w-sm">
-            <ScreenHeader title="Set Your PIN" subtitle="Create a secure 4-digit PIN for your account." onBack={handleBack} />
-            <form onSubmit={handlePinSubmit} className="space-y-6">
-                <input type="password" placeholder="Enter 4-digit PIN" value={pin} onChange={(e) => setPin(e.target.value.replace(/[^0-9]/g, '').slice(0, 4))} className={`${inputStyle} text-center text-2xl tracking-widest`} maxLength={4} required autoFocus />
-                <button type="submit" className="w-full bg-blue-600 text-white font-bold py-3.5 px-4 rounded-xl shadow-lg">Complete Registration</button>
-            </form>
+            <ScreenHeader
+              title={t('pinSetup.title')}
+              subtitle={<>{t('pinSetup.subtitle')}{accountNumber && <><br />{t('pinSetup.account', { number: maskAccountNumber(accountNumber) })}</>}</>}
+              onBack={screenBack}
+            />
+            <PinSetup onComplete={submitPin} />
+        </div>
+      </div>
+    );
+  }
+
+  // PIN Unlock
+  if (status === 'pin-unlock') {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-bg p-6 animate-in fade-in duration-300">
+        <div className="w-full max-w-sm">
+            <LanguageSwitcher className="block mx-auto mb-6" />
+            <ScreenHeader title={t('pinUnlock.title')} subtitle={t('pinUnlock.subtitle')} />
+            {state.biometricError && <p className="text-sm text-app-hint text-center mb-4" role="status">{t(state.biometricError)}</p>}
+            <PinUnlock onSubmit={submitUnlock} attempts={state.pinUnlock} />
+            {currentUser && canUnlockWithBiometrics(biometrics) && (
+              <button onClick={() => unlockWithBiometrics(currentUser.id, t('biometrics.unlockReason'))} className="w-full mt-6 text-sm text-app-link font-semibold hover:underline">{t('pinUnlock.useBiometrics', { method: biometricLabel })}</button>
+            )}
+            {SUPPORT_URL && <button onClick={openSupport} className="w-full mt-6 text-sm text-app-link font-semibold hover:underline">{t('pinUnlock.forgotPin')}</button>}
+        </div>
+      </div>
+    );
+  }
+
+  // Unlocked: on the way to the dashboard
+  if (status === 'unlocked') {
+    return (
+      <div className="flex items-center justify-center min-h-app bg-app-bg">
+        <div className="w-12 h-12 border-4 border-app-button border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  // KYC Capture (after registration, when the bank requires it)
+  if (status === 'kyc-capture') {
+    const kycReady = isKycCaptureComplete(kycDocumentType, kycCaptures);
+    return (
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-bg p-6 animate-in slide-in-from-right duration-300">
+        <div className="w-full max-w-sm">
+            <ScreenHeader title={t('kycCapture.title')} subtitle={t('kycCapture.subtitle')} />
+            <KycCapture
+              documentType={kycDocumentType}
+              captures={kycCaptures}
+              onDocumentTypeChange={handleKycDocumentTypeChange}
+              onCapture={handleKycCapture}
+              inputClassName={inputStyle}
+            />
+            {!hasNativeMainButton && <button onClick={handleKycSubmit} disabled={!kycReady} className="w-full mt-6 bg-app-button text-app-button-text font-bold py-3.5 px-4 rounded-xl shadow-lg disabled:opacity-50">{t('kycCapture.submit')}</button>}
+            <button onClick={handleSkipKyc} className="w-full mt-4 text-sm text-app-link font-semibold hover:underline">{t('kycCapture.later')}</button>
+        </div>
+      </div>
+    );
+  }
+
+  // Biometric Setup (optional, after registration)
+  if (status === 'biometric-setup') {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-bg p-6 text-center animate-in fade-in duration-300">
+        <div className="w-full max-w-sm">
+            <div className="bg-app-button/15 p-4 rounded-full mb-4 inline-block"><span className="text-4xl" aria-hidden>🔐</span></div>
+            <ScreenHeader title={t('biometrics.setupTitle', { method: biometricLabel })} subtitle={t('biometrics.setupSubtitle')} />
+            {state.biometricError && (
+              <div className="mb-4" role="status">
+                <p className="text-sm text-app-destructive font-medium">{t(state.biometricError)}</p>
+                {biometrics?.accessRequested && !biometrics.accessGranted && (
+                  <button onClick={openBiometricSettings} className="mt-2 text-sm text-app-link font-semibold hover:underline">{t('biometrics.openSettings')}</button>
+                )}
+              </div>
+            )}
+            {!hasNativeMainButton && <button onClick={handleEnableBiometrics} className="w-full bg-app-button text-app-button-text font-bold py-3.5 px-4 rounded-xl shadow-lg">{t('biometrics.enable', { method: biometricLabel })}</button>}
+            <button onClick={handleSkipBiometrics} className="w-full mt-4 text-sm text-app-link font-semibold hover:underline">{t('biometrics.notNow')}</button>
         </div>
       </div>
     );
@@ -534,11 +1103,12 @@ export default function RegistrationFlow() {
   // Completed
   if (status === 'completed') {
     return (
-      <div className="flex flex-col items-center justify-center min-h-screen bg-green-50 text-center p-6">
-        <div className="bg-green-100 p-4 rounded-full mb-4 animate-bounce"><span className="text-4xl">✅</span></div>
-        <h1 className="text-2xl font-bold text-gray-900">All Set!</h1>
-        <p className="text-gray-600 mt-2">Registration successful.</p>
-        <button onClick={() => alert("Go to Dashboard")} className="mt-8 bg-green-600 text-white px-8 py-3 rounded-full font-semibold shadow-lg">Go to Dashboard</button>
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-bg text-center p-6">
+        <div className="bg-app-accent/15 p-4 rounded-full mb-4 animate-bounce"><span className="text-4xl">✅</span></div>
+        <h1 className="text-2xl font-bold text-app-text">{t('completed.title')}</h1>
+        <p className="text-app-hint mt-2">{t('completed.message')}</p>
+        {state.kycStatus && <KycBadge status={state.kycStatus} className="mt-4" />}
+        {!hasNativeMainButton && <button onClick={handleGoToDashboard} className="mt-8 bg-app-button text-app-button-text px-8 py-3 rounded-full font-semibold shadow-lg">{t('completed.goToDashboard')}</button>}
       </div>
     );
   }
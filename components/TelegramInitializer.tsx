@@ -1,50 +1,74 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { bindTelegramTheme } from '@/utils/telegramTheme';
+import { DEFAULT_LOCALE, translate } from '@/utils/i18n';
+import { readLaunchLocale } from '@/utils/telegramLaunch';
+
+// Dev-only: fake `window.Telegram.WebApp` for running outside Telegram.
+// The NODE_ENV check is inlined at build time, so production bundles drop the import.
+const SIMULATOR_ENABLED =
+  process.env.NODE_ENV !== 'production' && process.env.NEXT_PUBLIC_TELEGRAM_SIMULATOR === 'true';
+
+// Re-read on every render: the Telegram user only becomes readable once the script has loaded.
+const subscribeToLaunch = () => () => {};
 
 export function TelegramInitializer({ children }: { children: React.ReactNode }) {
   const [isMounted, setIsMounted] = useState(false);
   const [telegramReady, setTelegramReady] = useState(false);
+  // Rendered outside I18nProvider, which needs Telegram to be ready.
+  const locale = useSyncExternalStore(subscribeToLaunch, readLaunchLocale, () => DEFAULT_LOCALE);
 
   useEffect(() => {
     setIsMounted(true);
+    let unbindTheme: (() => void) | undefined;
 
     const tryBootstrap = () => {
       if (typeof window === 'undefined') return false;
-      const tg = (window as any).Telegram?.WebApp;
-      console.log("Telegram WebApp object:", tg);
+      const tg = window.Telegram?.WebApp;
       if (!tg) return false;
       tg.ready();
       tg.expand();
-      tg.disableVerticalSwipes();
+      tg.disableVerticalSwipes?.();
+      unbindTheme = bindTelegramTheme(tg);
       setTelegramReady(true);
       return true;
     };
 
+    // telegram-web-app.js defines WebApp even in a normal browser, just without initData.
+    if (SIMULATOR_ENABLED && !window.Telegram?.WebApp?.initData) {
+      import('@/utils/dev/telegramSimulator')
+        .then(({ installTelegramSimulator }) => installTelegramSimulator())
+        .then(() => tryBootstrap());
+      return () => unbindTheme?.();
+    }
+
     // Attempt immediately, then retry briefly in case the script loads a tick later
+    let timeout: ReturnType<typeof setTimeout> | undefined;
     if (!tryBootstrap()) {
-      const timeout = setTimeout(() => {
+      timeout = setTimeout(() => {
         tryBootstrap();
       }, 100);
-      return () => clearTimeout(timeout);
     }
+    return () => {
+      clearTimeout(timeout);
+      unbindTheme?.();
+    };
   }, []);
 
   if (!isMounted) {
     return (
-      <div className="flex items-center justify-center min-h-screen bg-gray-100 text-gray-500">
-        Initializing App...
+      <div className="flex items-center justify-center min-h-app bg-app-secondary-bg text-app-hint">
+        {translate(locale, 'init.loading')}
       </div>
     );
   }
 
   if (!telegramReady) {
     return (
-      <div className="flex flex-col items-center justify-center min-h-screen bg-yellow-50 text-yellow-800 p-6 text-center">
-        <p className="font-medium">Waiting for Telegram Mini App context…</p>
-        <p className="text-sm mt-2 text-yellow-700">
-          If this screen persists, open the bot from Telegram&apos;s menu button.
-        </p>
+      <div className="flex flex-col items-center justify-center min-h-app bg-app-bg text-app-text p-6 text-center">
+        <p className="font-medium">{translate(locale, 'init.waiting')}</p>
+        <p className="text-sm mt-2 text-app-hint">{translate(locale, 'init.waitingHint')}</p>
       </div>
     );
   }
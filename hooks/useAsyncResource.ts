@@ -0,0 +1,37 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+export type AsyncResource<T> =
+  | { status: 'loading' }
+  | { status: 'success'; data: T }
+  | { status: 'error'; error: unknown };
+
+/**
+ * Runs `load` whenever `key` changes and tracks its outcome. `reload` runs it
+ * again for the same key. Pass `key = null` to wait (stays `loading`).
+ */
+export const useAsyncResource = <T>(key: string | null, load: () => Promise<T>) => {
+  const [result, setResult] = useState<{ key: string; token: number; resource: AsyncResource<T> } | null>(null);
+  const [token, setToken] = useState(0);
+
+  useEffect(() => {
+    if (key === null) return;
+    let cancelled = false;
+    load().then(
+      (data) => { if (!cancelled) setResult({ key, token, resource: { status: 'success', data } }); },
+      (error: unknown) => { if (!cancelled) setResult({ key, token, resource: { status: 'error', error } }); },
+    );
+    return () => { cancelled = true; };
+    // `load` is expected to change on every render; `key` identifies what it loads.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, token]);
+
+  const reload = useCallback(() => setToken((t) => t + 1), []);
+
+  // A result for an older key or load is stale: report loading until the current one settles.
+  const resource: AsyncResource<T> =
+    result && result.key === key && result.token === token ? result.resource : { status: 'loading' };
+
+  return { resource, reload };
+};
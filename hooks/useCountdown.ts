@@ -0,0 +1,24 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/** Whole seconds left until `target` (epoch ms), re-rendering once per second. */
+export const useSecondsUntil = (target: number | undefined): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!target) return;
+    const tick = () => setNow(Date.now());
+    const interval = setInterval(() => {
+      tick();
+      if (Date.now() >= target) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [target]);
+
+  return target ? Math.max(0, Math.ceil((target - now) / 1000)) : 0;
+};
+
+/** Formats a second count as `m:ss`. */
+export const formatCountdown = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
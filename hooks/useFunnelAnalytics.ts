@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { analytics } from '@/utils/analytics';
+import { RegistrationState } from '@/utils/registrationMachine';
+
+// Emits step entry/exit (with time spent on the step) and error events as the
+// registration machine moves.
+export const useFunnelAnalytics = (state: RegistrationState) => {
+  const current = useRef<{ step: RegistrationState['status']; enteredAt: number } | null>(null);
+  const { status, error, failedStep } = state;
+
+  useEffect(() => {
+    const previous = current.current;
+    // Effects re-run in development Strict Mode without a real transition.
+    if (previous?.step === status) return;
+    const now = Date.now();
+    if (previous) {
+      analytics.track({ name: 'step_exited', step: previous.step, to: status, durationMs: now - previous.enteredAt });
+    }
+    analytics.track({ name: 'step_entered', step: status, from: previous?.step });
+    current.current = { step: status, enteredAt: now };
+  }, [status]);
+
+  useEffect(() => {
+    if (!error) return;
+    analytics.track({
+      name: 'error',
+      kind: error.kind,
+      step: failedStep,
+      code: error.code,
+      status: error.status,
+      detail: error.detail,
+    });
+  }, [error, failedStep]);
+};
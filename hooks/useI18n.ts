@@ -0,0 +1,28 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import { DEFAULT_LOCALE, formatDate, formatNumber, formatRegion, Locale, MessageArgs, MessageKey, translate } from '@/utils/i18n';
+
+export interface I18n {
+  locale: Locale;
+  // Switches the language and remembers the choice.
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, args?: MessageArgs) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (date: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+  formatRegion: (regionCode: string, fallback: string) => string;
+}
+
+export const createI18n = (locale: Locale, setLocale: (locale: Locale) => void): I18n => ({
+  locale,
+  setLocale,
+  t: (key, args) => translate(locale, key, args),
+  formatNumber: (value, options) => formatNumber(locale, value, options),
+  formatDate: (date, options) => formatDate(locale, date, options),
+  formatRegion: (regionCode, fallback) => formatRegion(locale, regionCode, fallback),
+});
+
+// English until I18nProvider mounts (TelegramInitializer's own screens, server rendering).
+export const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE, () => {}));
+
+export const useI18n = (): I18n => useContext(I18nContext);
@@ -0,0 +1,8 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { isOnline, subscribeToConnectivity } from '@/utils/network';
+
+// Assumes online during server rendering.
+export const useOnlineStatus = (): boolean =>
+  useSyncExternalStore(subscribeToConnectivity, isOnline, () => true);
@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { TelegramWebApp } from '@/types/telegram';
+
+// Hooks that drive Telegram's native MainButton, BackButton and closing
+// confirmation. Each returns whether the native control is available, so
+// screens can fall back to their own HTML controls when it is not.
+
+const getWebApp = (): TelegramWebApp | undefined =>
+  typeof window === 'undefined' ? undefined : window.Telegram?.WebApp;
+
+// telegram-web-app.js also loads in a normal browser, where it reports the
+// platform as "unknown" and has no initData; its buttons render nothing there.
+const isInsideTelegram = (webApp: TelegramWebApp | undefined): webApp is TelegramWebApp =>
+  !!webApp && !!webApp.initData && webApp.platform !== 'unknown';
+
+export interface MainButtonOptions {
+  text: string;
+  onClick: () => void;
+  enabled?: boolean;
+  // Shows the native spinner and disables the button.
+  progress?: boolean;
+}
+
+/** Shows the MainButton with the given options, or hides it for `null`. */
+export const useTelegramMainButton = (options: MainButtonOptions | null): boolean => {
+  const [available] = useState(() => isInsideTelegram(getWebApp()));
+  const onClickRef = useRef<(() => void) | undefined>(undefined);
+
+  useEffect(() => {
+    onClickRef.current = options?.onClick;
+  });
+
+  useEffect(() => {
+    if (!available) return;
+    const button = getWebApp()!.MainButton;
+    const listener = () => onClickRef.current?.();
+    button.onClick(listener);
+    return () => {
+      button.offClick(listener);
+      button.hideProgress();
+      button.hide();
+    };
+  }, [available]);
+
+  const visible = options !== null;
+  const text = options?.text ?? '';
+  const enabled = options?.enabled ?? true;
+  const progress = options?.progress ?? false;
+
+  useEffect(() => {
+    if (!available) return;
+    const button = getWebApp()!.MainButton;
+    if (!visible) {
+      button.hideProgress();
+      button.hide();
+      return;
+    }
+    button.setText(text);
+    if (progress) button.showProgress(false);
+    else button.hideProgress();
+    if (enabled && !progress) button.enable();
+    else button.disable();
+    button.show();
+  }, [available, visible, text, enabled, progress]);
+
+  return available;
+};
+
+/** Shows the header BackButton while `onBack` is set. */
+export const useTelegramBackButton = (onBack: (() => void) | undefined): boolean => {
+  const [available] = useState(() => {
+    const webApp = getWebApp();
+    return isInsideTelegram(webApp) && webApp.isVersionAtLeast('6.1');
+  });
+  const onBackRef = useRef(onBack);
+
+  useEffect(() => {
+    onBackRef.current = onBack;
+  });
+
+  useEffect(() => {
+    if (!available) return;
+    const button = getWebApp()!.BackButton;
+    const listener = () => onBackRef.current?.();
+    button.onClick(listener);
+    return () => {
+      button.offClick(listener);
+      button.hide();
+    };
+  }, [available]);
+
+  const visible = onBack !== undefined;
+
+  useEffect(() => {
+    if (!available) return;
+    const button = getWebApp()!.BackButton;
+    if (visible) button.show();
+    else button.hide();
+  }, [available, visible]);
+
+  return available;
+};
+
+/** Asks the user to confirm before closing the Mini App while `enabled`. */
+export const useClosingConfirmation = (enabled: boolean) => {
+  useEffect(() => {
+    const webApp = getWebApp();
+    if (!isInsideTelegram(webApp) || !webApp.isVersionAtLeast('6.2')) return;
+    if (enabled) webApp.enableClosingConfirmation();
+    else webApp.disableClosingConfirmation();
+  }, [enabled]);
+};
@@ -0,0 +1,485 @@
+// Local stand-in for the OnePulse backend.
+//
+//   npm run mock:backend                          # happy path on :4000
+//   MOCK_SCENARIO=invalid-otp npm run mock:backend
+//
+// Point the Next.js proxy at it with BACKEND_URL=http://localhost:4000.
+// The active scenario can also be switched at runtime, which is what
+// end-to-end runs use:
+//
+//   curl -X POST localhost:4000/__mock/scenario -d '{"scenario":"phone-linked"}'
+//
+// A single request can override it with the `X-Mock-Scenario` header.
+
+import { createServer } from 'node:http';
+import { constants, createHash, generateKeyPairSync, privateDecrypt, randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_BACKEND_PORT) || 4000;
+const SLOW_NETWORK_DELAY_MS = 3000;
+const MAX_RECORDED_REQUESTS = 100;
+const RESEND_AFTER_SECONDS = 30;
+const OTP_MAX_ATTEMPTS = 3;
+const OTP_LOCK_SECONDS = 60;
+const PIN_MAX_ATTEMPTS = 3;
+const PIN_LOCK_SECONDS = 300;
+const APP_SESSION_SECONDS = 15 * 60;
+
+// Every code is wrong; after OTP_MAX_ATTEMPTS the key is locked for a while.
+const rejectOtp = (key) => {
+  const attempt = otpAttempts.get(key) ?? { failures: 0, lockedUntil: 0 };
+  const now = Date.now();
+  if (attempt.lockedUntil > now) {
+    return fail(423, 'OTP_LOCKED', 'Too many incorrect attempts', {
+      retry_after_seconds: Math.ceil((attempt.lockedUntil - now) / 1000),
+    });
+  }
+  if (attempt.lockedUntil) attempt.failures = 0;
+  attempt.failures += 1;
+  attempt.lockedUntil = attempt.failures >= OTP_MAX_ATTEMPTS ? now + OTP_LOCK_SECONDS * 1000 : 0;
+  otpAttempts.set(key, attempt);
+  return attempt.lockedUntil
+    ? fail(423, 'OTP_LOCKED', 'Too many incorrect attempts', { retry_after_seconds: OTP_LOCK_SECONDS })
+    : fail(400, 'OTP_INVALID', 'Invalid activation code', {
+        attempts_remaining: OTP_MAX_ATTEMPTS - attempt.failures,
+      });
+};
+
+// Each scenario may override individual endpoints; anything it does not
+// override falls through to the happy path.
+const SCENARIOS = {
+  'happy': {},
+  'phone-linked': {
+    '/api/v1/customers/share-contact': () =>
+      fail(409, 'PHONE_LINKED_ELSEWHERE', 'Phone number does not match the Telegram account'),
+  },
+  'invalid-otp': {
+    '/api/v1/verifyCode': (payload) => rejectOtp(payload.phone_number),
+    '/api/v1/devices/rebind/confirm': (payload) => rejectOtp(payload.rebind_session_id),
+  },
+  'missing-device-id': {
+    '/api/v1/device-session-start': () =>
+      ok('Device session started', { registration_session_id: randomUUID(), device_info: {} }),
+  },
+  'account-not-found': {
+    '/api/v1/verifyCustomer': () => fail(404, 'ACCOUNT_NOT_FOUND', 'No customer found for this account number'),
+  },
+  'product-ineligible': {
+    '/api/v1/product-validation': () =>
+      fail(422, 'PRODUCT_INELIGIBLE', 'Product is not eligible for OnePulse'),
+  },
+  // Corporate accounts (numbers starting with 50) are ineligible, the rest pass.
+  'mixed-eligibility': {
+    '/api/v1/product-validation': (payload) =>
+      payload.customer_group === 'corporate'
+        ? fail(422, 'PRODUCT_INELIGIBLE', 'Corporate accounts cannot be used with OnePulse yet')
+        : ok('Product eligible'),
+  },
+  // Registration asks for KYC documents before the user is done.
+  'kyc-required': {
+    '/api/v1/onepulse-registration': (payload) => {
+      const result = HAPPY_PATH['/api/v1/onepulse-registration'](payload);
+      if (result.status !== 200) return result;
+      updateProgress(payload.telegram_id, { kyc_status: 'REQUIRED' });
+      return ok(result.body.message, { ...result.body.data, kyc_required: true, kyc_status: 'REQUIRED' });
+    },
+  },
+  'no-transactions': {
+    '/api/v1/accounts/transactions': () => ok('Transactions', { transactions: [] }),
+  },
+  'balance-unavailable': {
+    '/api/v1/accounts/balance': () => fail(503, 'SERVICE_UNAVAILABLE', 'Core banking is unavailable'),
+  },
+  'slow-network': {},
+  // Answers 503 to every other request, so client retries can be observed.
+  'flaky-network': {},
+};
+
+let activeScenario = process.env.MOCK_SCENARIO || 'happy';
+const recordedRequests = [];
+// Responses by Idempotency-Key, replayed when a retry arrives with the same key.
+const idempotentResponses = new Map();
+let flakyCounter = 0;
+// Registration progress by Telegram id: what checkTelegramID reports on the
+// next launch, and the PIN and devices of completed registrations.
+const registrations = new Map();
+// Pending device rebinds by rebind session id.
+const rebinds = new Map();
+// Wrong-PIN counters, keyed by Telegram id.
+const pinAttempts = new Map();
+// Biometric tokens by `telegram_id|device_id`, with the biometric device id they were issued for.
+const biometricTokens = new Map();
+// Wrong-code counters for the invalid-otp scenario, keyed by phone number or rebind session.
+const otpAttempts = new Map();
+// KYC uploads by upload id: their owner, expected size and chunk count, the chunks received so far.
+const kycUploads = new Map();
+
+// PIN encryption key, regenerated on every start like a rotated production key.
+const PIN_KEY_ID = `mock-${randomUUID()}`;
+const pinKeyPair = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+});
+
+// Mirrors what the real backend does with `encrypted_pin`: decrypt it and
+// check it was produced for this registration session (`binding = 'session_id'`)
+// or this device (`binding = 'device_id'`).
+const decryptPin = (payload, binding) => {
+  if (payload.pin_key_id !== PIN_KEY_ID) return null;
+  try {
+    const plaintext = privateDecrypt(
+      { key: pinKeyPair.privateKey, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+      Buffer.from(String(payload.encrypted_pin), 'base64'),
+    );
+    const decrypted = JSON.parse(plaintext.toString('utf8'));
+    return decrypted[binding] === payload[binding] && /^[0-9]{4}$/.test(decrypted.pin) ? decrypted.pin : null;
+  } catch {
+    return null;
+  }
+};
+
+const ok = (message, data = null) => ({ status: 200, body: { success: true, message, data } });
+const fail = (status, code, message, extra = {}) => ({ status, body: { success: false, code, message, ...extra } });
+
+const progressOf = (telegramId) => registrations.get(String(telegramId)) ?? {};
+const updateProgress = (telegramId, changes) =>
+  registrations.set(String(telegramId), { ...progressOf(telegramId), ...changes });
+
+const appSession = () => ({ session_token: randomUUID(), expires_in_seconds: APP_SESSION_SECONDS });
+
+const daysAgo = (days) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const SAMPLE_TRANSACTIONS = [
+  { id: 'txn-1', amount: 2500, currency: 'ETB', direction: 'credit', description: 'Salary top-up', posted_at: daysAgo(1) },
+  { id: 'txn-2', amount: 150, currency: 'ETB', direction: 'debit', description: 'Airtime', posted_at: daysAgo(2) },
+  { id: 'txn-3', amount: 820.5, currency: 'ETB', direction: 'debit', description: 'Electricity bill', posted_at: daysAgo(5) },
+];
+
+const HAPPY_PATH = {
+  '/api/v1/customers/checkTelegramID': (payload) => {
+    const progress = progressOf(payload.telegram_id);
+    const completed = progress.registration_status === 'COMPLETED';
+    return ok('Telegram ID verified', {
+      telegram_id: payload.telegram_id,
+      registration_status: progress.registration_status ?? 'NEW',
+      device_status: completed && progress.devices.includes(payload.device_id) ? 'KNOWN' : 'NEW',
+      kyc_status: progress.kyc_status ?? 'PENDING',
+      phone_number: progress.phone_number,
+      registration_session_id: completed ? undefined : progress.registration_session_id,
+      device_id: completed ? undefined : progress.device_id,
+      customer_id: progress.customer_id,
+      product_code: progress.product_code,
+      account_number: progress.account_number,
+    });
+  },
+  '/api/v1/customers/share-contact': () => ok('Contact saved'),
+  '/api/v1/device-session-start': (payload) => {
+    const session = { registration_session_id: randomUUID(), device_id: randomUUID() };
+    updateProgress(payload.telegram_id, {
+      ...session,
+      registration_status: 'NEW',
+      phone_number: payload.phone_number,
+      client_device_id: payload.device_info?.device_id,
+    });
+    return ok('Device session started', {
+      registration_session_id: session.registration_session_id,
+      device_info: { device_id: session.device_id },
+    });
+  },
+  '/api/v1/SIM-Verify': (payload) => {
+    otpAttempts.delete(payload.phone_number);
+    updateProgress(payload.telegram_id, { registration_status: 'OTP_PENDING' });
+    return ok('SIM verified', { resend_after_seconds: RESEND_AFTER_SECONDS });
+  },
+  '/api/v1/verifyCode': (payload) => {
+    if (!payload.activation_code) return fail(400, 'VALIDATION_ERROR', 'activation_code is required');
+    updateProgress(payload.telegram_id, { registration_status: 'PHONE_VERIFIED' });
+    return ok('Code verified');
+  },
+  '/api/v1/resendCode': () => ok('Code resent', { resend_after_seconds: RESEND_AFTER_SECONDS }),
+  '/api/v1/verifyCustomer': (payload) => {
+    const accountNumber = String(payload.account_number ?? '');
+    const corporate = accountNumber.startsWith('50');
+    const customer = {
+      customer_id: `CUST-${accountNumber.slice(-4) || '0000'}`,
+      product_code: corporate ? 'OP-CORPORATE' : 'OP-STANDARD',
+    };
+    updateProgress(payload.telegram_id, {
+      ...customer,
+      registration_status: 'ACCOUNT_LINKED',
+      account_number: payload.account_number,
+    });
+    return ok('Customer verified', {
+      ...customer,
+      customer_name: 'Abebe Kebede',
+      product_name: corporate ? 'OnePulse Corporate' : 'OnePulse Standard',
+      customer_group: corporate ? 'corporate' : 'noncorporate',
+      tier_group: '1',
+    });
+  },
+  '/api/v1/product-validation': () => ok('Product eligible'),
+  '/api/v1/pin-encryption-key': () =>
+    ok('PIN encryption key', { key_id: PIN_KEY_ID, public_key: pinKeyPair.publicKey }),
+  '/api/v1/onepulse-registration': (payload) => {
+    const pin = decryptPin(payload, 'session_id');
+    if (!pin) return fail(400, 'PIN_DECRYPTION_FAILED', 'Could not read the encrypted PIN');
+    const progress = progressOf(payload.telegram_id);
+    updateProgress(payload.telegram_id, {
+      registration_status: 'COMPLETED',
+      customer_id: payload.customer_id,
+      account_number: payload.account_number,
+      linked_account_numbers: payload.linked_account_numbers,
+      pin,
+      devices: [progress.client_device_id].filter(Boolean),
+    });
+    return ok('Registration complete', { app_session: appSession() });
+  },
+  '/api/v1/auth/pin-login': (payload) => {
+    const progress = progressOf(payload.telegram_id);
+    if (progress.registration_status !== 'COMPLETED') return fail(404, 'NOT_REGISTERED', 'No registration for this Telegram ID');
+    if (!progress.devices.includes(payload.device_id)) return fail(403, 'DEVICE_NOT_BOUND', 'Device is not bound to this customer');
+
+    const key = String(payload.telegram_id);
+    const attempt = pinAttempts.get(key) ?? { failures: 0, lockedUntil: 0 };
+    const now = Date.now();
+    if (attempt.lockedUntil > now) {
+      return fail(423, 'PIN_LOCKED', 'Too many incorrect PINs', {
+        retry_after_seconds: Math.ceil((attempt.lockedUntil - now) / 1000),
+      });
+    }
+    if (attempt.lockedUntil) attempt.failures = 0;
+    if (decryptPin(payload, 'device_id') === progress.pin) {
+      pinAttempts.delete(key);
+      return ok('Unlocked', appSession());
+    }
+    attempt.failures += 1;
+    attempt.lockedUntil = attempt.failures >= PIN_MAX_ATTEMPTS ? now + PIN_LOCK_SECONDS * 1000 : 0;
+    pinAttempts.set(key, attempt);
+    return attempt.lockedUntil
+      ? fail(423, 'PIN_LOCKED', 'Too many incorrect PINs', { retry_after_seconds: PIN_LOCK_SECONDS })
+      : fail(401, 'PIN_INVALID', 'Incorrect PIN', { attempts_remaining: PIN_MAX_ATTEMPTS - attempt.failures });
+  },
+  '/api/v1/auth/biometric/enable': (payload) => {
+    const token = randomUUID();
+    biometricTokens.set(`${payload.telegram_id}|${payload.device_id}`, {
+      token,
+      biometric_device_id: payload.biometric_device_id,
+    });
+    return ok('Biometric login enabled', { biometric_token: token });
+  },
+  '/api/v1/auth/biometric/disable': (payload) => {
+    biometricTokens.delete(`${payload.telegram_id}|${payload.device_id}`);
+    return ok('Biometric login disabled');
+  },
+  // Tokens are revoked when the biometric setup changed since they were issued.
+  '/api/v1/auth/biometric-login': (payload) => {
+    const key = `${payload.telegram_id}|${payload.device_id}`;
+    const issued = biometricTokens.get(key);
+    if (!issued || issued.token !== payload.biometric_token || issued.biometric_device_id !== payload.biometric_device_id) {
+      biometricTokens.delete(key);
+      return fail(401, 'BIOMETRIC_TOKEN_INVALID', 'Biometric token is no longer valid');
+    }
+    return ok('Unlocked', appSession());
+  },
+  '/api/v1/devices/rebind/start': (payload) => {
+    if (progressOf(payload.telegram_id).registration_status !== 'COMPLETED') {
+      return fail(404, 'NOT_REGISTERED', 'No registration for this Telegram ID');
+    }
+    const rebindSessionId = randomUUID();
+    rebinds.set(rebindSessionId, { telegram_id: String(payload.telegram_id), device_id: payload.device_info?.device_id });
+    return ok('Code sent', { rebind_session_id: rebindSessionId, resend_after_seconds: RESEND_AFTER_SECONDS });
+  },
+  '/api/v1/devices/rebind/resend': (payload) =>
+    rebinds.has(payload.rebind_session_id)
+      ? ok('Code resent', { resend_after_seconds: RESEND_AFTER_SECONDS })
+      : fail(404, 'REBIND_NOT_FOUND', 'Unknown rebind session'),
+  // Any non-empty code is accepted, as with verifyCode.
+  '/api/v1/devices/rebind/confirm': (payload) => {
+    const rebind = rebinds.get(payload.rebind_session_id);
+    if (!rebind || rebind.telegram_id !== String(payload.telegram_id)) {
+      return fail(404, 'REBIND_NOT_FOUND', 'Unknown rebind session');
+    }
+    if (!payload.activation_code) return fail(400, 'VALIDATION_ERROR', 'activation_code is required');
+    rebinds.delete(payload.rebind_session_id);
+    const progress = progressOf(rebind.telegram_id);
+    updateProgress(rebind.telegram_id, { devices: [...progress.devices, rebind.device_id] });
+    return ok('Device bound');
+  },
+  // Unregistered ids get a sample profile so the dashboard can be opened directly.
+  '/api/v1/customers/profile': (payload) => {
+    const registered = registrations.get(String(payload.telegram_id));
+    return ok('Customer profile', {
+      customer_id: registered?.customer_id ?? 'CUST-6789',
+      customer_name: 'Abebe Kebede',
+      account_number: registered?.account_number ?? '1000123456789',
+      product_code: 'OP-STANDARD',
+      kyc_status: registered?.kyc_status ?? 'VERIFIED',
+      allowed_financial_actions: ['ALL'],
+    });
+  },
+  '/api/v1/kyc/uploads/start': (payload) => {
+    if (!payload.chunk_count || !payload.size_bytes) return fail(400, 'VALIDATION_ERROR', 'size_bytes and chunk_count are required');
+    const uploadId = randomUUID();
+    kycUploads.set(uploadId, {
+      telegram_id: String(payload.telegram_id),
+      side: payload.side,
+      size_bytes: payload.size_bytes,
+      chunk_count: payload.chunk_count,
+      chunks: [],
+      completed: false,
+    });
+    return ok('Upload started', { upload_id: uploadId });
+  },
+  '/api/v1/kyc/uploads/chunk': (payload) => {
+    const upload = kycUploads.get(payload.upload_id);
+    if (!upload || upload.telegram_id !== String(payload.telegram_id)) return fail(404, 'UPLOAD_NOT_FOUND', 'Unknown upload');
+    const index = Number(payload.index);
+    if (!Number.isInteger(index) || index < 0 || index >= upload.chunk_count || !Buffer.isBuffer(payload.chunk)) {
+      return fail(400, 'VALIDATION_ERROR', 'Invalid chunk');
+    }
+    upload.chunks[index] = payload.chunk;
+    return ok('Chunk received', { upload_id: payload.upload_id });
+  },
+  // The checksum proves the chunks were put back together in the right order.
+  '/api/v1/kyc/uploads/complete': (payload) => {
+    const upload = kycUploads.get(payload.upload_id);
+    if (!upload || upload.telegram_id !== String(payload.telegram_id)) return fail(404, 'UPLOAD_NOT_FOUND', 'Unknown upload');
+    const received = upload.chunks.filter(Boolean);
+    if (received.length !== upload.chunk_count) return fail(400, 'UPLOAD_INCOMPLETE', 'Not every chunk was received');
+    const file = Buffer.concat(upload.chunks);
+    if (file.length !== upload.size_bytes || createHash('sha256').update(file).digest('hex') !== payload.sha256) {
+      return fail(400, 'CHECKSUM_MISMATCH', 'Uploaded file does not match its checksum');
+    }
+    upload.completed = true;
+    return ok('Upload complete', { upload_id: payload.upload_id });
+  },
+  '/api/v1/kyc/submit': (payload) => {
+    const ids = [payload.front_upload_id, payload.back_upload_id, payload.selfie_upload_id].filter(Boolean);
+    const ready = ids.every((id) => {
+      const upload = kycUploads.get(id);
+      return upload?.completed && upload.telegram_id === String(payload.telegram_id);
+    });
+    if (!payload.front_upload_id || !payload.selfie_upload_id || !ready) {
+      return fail(400, 'VALIDATION_ERROR', 'Front and selfie uploads must be complete');
+    }
+    ids.forEach((id) => kycUploads.delete(id));
+    updateProgress(payload.telegram_id, { kyc_status: 'IN_REVIEW' });
+    return ok('Documents submitted', { kyc_status: 'IN_REVIEW' });
+  },
+  '/api/v1/accounts/balance': () =>
+    ok('Balance', { available_balance: 12500.75, currency: 'ETB', as_of: new Date().toISOString() }),
+  '/api/v1/accounts/transactions': (payload) =>
+    ok('Transactions', {
+      transactions: SAMPLE_TRANSACTIONS.slice(0, Number(payload.limit) || SAMPLE_TRANSACTIONS.length),
+    }),
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Multipart fields are read as strings, and files as Buffers.
+const readBody = async (req) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const contentType = req.headers['content-type'] ?? '';
+  if (contentType.startsWith('multipart/form-data')) {
+    try {
+      const form = await new Response(Buffer.concat(chunks), { headers: { 'content-type': contentType } }).formData();
+      const payload = {};
+      for (const [key, value] of form) {
+        payload[key] = typeof value === 'string' ? value : Buffer.from(await value.arrayBuffer());
+      }
+      return payload;
+    } catch {
+      return undefined;
+    }
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const handleControl = async (req, res, path) => {
+  if (path === '/__mock/scenario') {
+    if (req.method === 'POST') {
+      const body = await readBody(req);
+      if (!body || !(body.scenario in SCENARIOS)) {
+        return send(res, 400, { message: `Unknown scenario. Available: ${Object.keys(SCENARIOS).join(', ')}` });
+      }
+      activeScenario = body.scenario;
+    }
+    return send(res, 200, { scenario: activeScenario, available: Object.keys(SCENARIOS) });
+  }
+
+  if (path === '/__mock/requests') {
+    if (req.method === 'DELETE') {
+      recordedRequests.length = 0;
+      otpAttempts.clear();
+      idempotentResponses.clear();
+      registrations.clear();
+      rebinds.clear();
+      pinAttempts.clear();
+      biometricTokens.clear();
+      kycUploads.clear();
+    }
+    return send(res, 200, recordedRequests);
+  }
+
+  return send(res, 404, { message: 'Unknown control endpoint' });
+};
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+
+  if (pathname.startsWith('/__mock/')) return handleControl(req, res, pathname);
+
+  const handler = HAPPY_PATH[pathname];
+  if (!handler || req.method !== 'POST') {
+    return send(res, 404, { success: false, code: 'NOT_FOUND', message: `No mock for ${req.method} ${pathname}` });
+  }
+
+  const payload = await readBody(req);
+  if (payload === undefined) return send(res, 400, { success: false, code: 'VALIDATION_ERROR', message: 'Invalid request body' });
+
+  const scenarioName = req.headers['x-mock-scenario'] || activeScenario;
+  const scenario = SCENARIOS[scenarioName] ?? SCENARIOS.happy;
+
+  recordedRequests.push({
+    path: pathname,
+    scenario: scenarioName,
+    telegramUserId: req.headers['x-telegram-user-id'] ?? null,
+    idempotencyKey: req.headers['idempotency-key'] ?? null,
+    // File bytes are recorded by size only.
+    payload: Object.fromEntries(
+      Object.entries(payload).map(([key, value]) => [key, Buffer.isBuffer(value) ? { size_bytes: value.length } : value]),
+    ),
+  });
+  if (recordedRequests.length > MAX_RECORDED_REQUESTS) recordedRequests.shift();
+
+  if (scenarioName === 'slow-network') await sleep(SLOW_NETWORK_DELAY_MS);
+  if (scenarioName === 'flaky-network' && flakyCounter++ % 2 === 0) {
+    console.log(`[mock-backend] ${scenarioName} POST ${pathname} -> 503`);
+    return send(res, 503, { success: false, code: 'SERVICE_UNAVAILABLE', message: 'Temporarily unavailable' });
+  }
+
+  const idempotencyKey = req.headers['idempotency-key'];
+  const cacheKey = idempotencyKey && `${pathname}|${idempotencyKey}`;
+  const replayed = cacheKey && idempotentResponses.get(cacheKey);
+  const { status, body } = replayed || (scenario[pathname] ?? handler)(payload);
+  if (cacheKey && !replayed && status < 500) idempotentResponses.set(cacheKey, { status, body });
+
+  console.log(`[mock-backend] ${scenarioName} POST ${pathname} -> ${status}${replayed ? ' (replayed)' : ''}`);
+  send(res, status, body);
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-backend] listening on http://localhost:${PORT} (scenario: ${activeScenario})`);
+});
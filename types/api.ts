@@ -0,0 +1,133 @@
+// Response envelopes returned by the OnePulse backend.
+// Every endpoint wraps its payload as `{ success, message, data }`.
+
+export interface ApiEnvelope<T> {
+  success?: boolean;
+  message?: string;
+  data: T;
+}
+
+// Endpoints that only acknowledge the request and carry no data we rely on.
+export type ApiAck = ApiEnvelope<Record<string, unknown> | null>;
+
+export interface CheckTelegramIdData {
+  telegram_id?: number;
+  // NEW, OTP_PENDING, PHONE_VERIFIED, ACCOUNT_LINKED or COMPLETED; see utils/returningUser.ts.
+  registration_status?: string;
+  // Whether the `device_id` sent with the check is bound to the customer: KNOWN or NEW.
+  device_status?: string;
+  kyc_status?: string;
+  phone_number?: string;
+  // Progress of an unfinished registration, so it can continue where it stopped.
+  registration_session_id?: string;
+  device_id?: string;
+  customer_id?: string;
+  product_code?: string;
+  account_number?: string;
+}
+
+export interface DeviceSessionData {
+  registration_session_id?: string;
+  device_info: {
+    device_id: string;
+  };
+}
+
+// Returned by the endpoints that send an activation code (SIM-Verify, resendCode).
+export interface OtpDispatchData {
+  // Seconds before the backend accepts another resendCode call.
+  resend_after_seconds?: number;
+}
+
+export interface VerifyCustomerData {
+  customer_id: string;
+  product_code: string;
+  // Account holder and product shown to the user for confirmation.
+  customer_name?: string;
+  product_name?: string;
+  // Sent with product validation; configured defaults apply when absent.
+  customer_group?: string;
+  tier_group?: string;
+}
+
+// RSA-OAEP public key the PIN is encrypted with before registration.
+export interface PinEncryptionKeyData {
+  key_id: string;
+  // PEM or base64-encoded SPKI.
+  public_key: string;
+}
+
+// Issued by PIN login (and by registration) for the dashboard endpoints.
+export interface AppSessionData {
+  session_token: string;
+  expires_in_seconds: number;
+}
+
+export interface OnePulseRegistrationData {
+  app_session?: AppSessionData;
+  // Whether the bank needs identity documents before the account is fully enabled.
+  kyc_required?: boolean;
+  kyc_status?: string;
+}
+
+// Stored behind the device's biometrics and exchanged for an app session.
+export interface BiometricTokenData {
+  biometric_token: string;
+}
+
+export interface KycUploadData {
+  upload_id: string;
+}
+
+export interface KycSubmitData {
+  kyc_status: string;
+}
+
+export interface DeviceRebindData {
+  rebind_session_id: string;
+  resend_after_seconds?: number;
+}
+
+export interface CustomerProfileData {
+  customer_id: string;
+  customer_name?: string;
+  account_number: string;
+  product_code: string;
+  kyc_status: string;
+  // Action codes the customer may use; "ALL" grants every action.
+  allowed_financial_actions: string[];
+}
+
+export interface AccountBalanceData {
+  available_balance: number;
+  currency: string;
+  as_of?: string;
+}
+
+export interface TransactionData {
+  id: string;
+  amount: number;
+  currency: string;
+  direction: 'credit' | 'debit';
+  description?: string;
+  posted_at: string;
+}
+
+export interface TransactionsData {
+  transactions: TransactionData[];
+}
+
+export type CheckTelegramIdResponse = ApiEnvelope<CheckTelegramIdData>;
+export type DeviceSessionResponse = ApiEnvelope<DeviceSessionData>;
+export type OtpDispatchResponse = ApiEnvelope<OtpDispatchData>;
+export type VerifyCustomerResponse = ApiEnvelope<VerifyCustomerData>;
+export type PinEncryptionKeyResponse = ApiEnvelope<PinEncryptionKeyData>;
+export type AppSessionResponse = ApiEnvelope<AppSessionData>;
+export type OnePulseRegistrationResponse = ApiEnvelope<OnePulseRegistrationData>;
+export type DeviceRebindResponse = ApiEnvelope<DeviceRebindData>;
+export type KycUploadResponse = ApiEnvelope<KycUploadData>;
+export type KycSubmitResponse = ApiEnvelope<KycSubmitData>;
+export type BiometricTokenResponse = ApiEnvelope<BiometricTokenData>;
+export type CustomerProfileResponse = ApiEnvelope<CustomerProfileData>;
+export type AccountBalanceResponse = ApiEnvelope<AccountBalanceData>;
+export type TransactionsResponse = ApiEnvelope<TransactionsData>;
@@ -0,0 +1,168 @@
+// Subset of the `window.Telegram.WebApp` object injected by telegram-web-app.js.
+// See https://core.telegram.org/bots/webapps#initializing-mini-apps
+
+type CloudStorageCallback<T> = (error: string | null, result?: T) => void;
+
+export interface TelegramCloudStorage {
+  setItem: (key: string, value: string, callback?: CloudStorageCallback<boolean>) => void;
+  getItem: (key: string, callback: CloudStorageCallback<string>) => void;
+  removeItem: (key: string, callback?: CloudStorageCallback<boolean>) => void;
+}
+
+export interface TelegramThemeParams {
+  bg_color?: string;
+  text_color?: string;
+  hint_color?: string;
+  link_color?: string;
+  button_color?: string;
+  button_text_color?: string;
+  secondary_bg_color?: string;
+  header_bg_color?: string;
+  bottom_bar_bg_color?: string;
+  accent_text_color?: string;
+  section_bg_color?: string;
+  section_header_text_color?: string;
+  section_separator_color?: string;
+  subtitle_text_color?: string;
+  destructive_text_color?: string;
+}
+
+export interface TelegramSafeAreaInset {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export interface TelegramBottomButton {
+  text: string;
+  color: string;
+  textColor: string;
+  isVisible: boolean;
+  isActive: boolean;
+  isProgressVisible: boolean;
+  setText: (text: string) => TelegramBottomButton;
+  onClick: (callback: () => void) => TelegramBottomButton;
+  offClick: (callback: () => void) => TelegramBottomButton;
+  show: () => TelegramBottomButton;
+  hide: () => TelegramBottomButton;
+  enable: () => TelegramBottomButton;
+  disable: () => TelegramBottomButton;
+  showProgress: (leaveActive?: boolean) => TelegramBottomButton;
+  hideProgress: () => TelegramBottomButton;
+}
+
+export interface TelegramBackButton {
+  isVisible: boolean;
+  onClick: (callback: () => void) => TelegramBackButton;
+  offClick: (callback: () => void) => TelegramBackButton;
+  show: () => TelegramBackButton;
+  hide: () => TelegramBackButton;
+}
+
+export interface TelegramContact {
+  user_id: number;
+  phone_number: string;
+  first_name: string;
+  last_name?: string;
+}
+
+export interface RequestContactResponse {
+  status: 'sent' | 'cancelled';
+  // Raw signed query string (`contact=...&auth_date=...&hash=...`).
+  response?: string;
+  responseUnsafe?: {
+    contact: TelegramContact;
+    auth_date: string;
+    hash: string;
+  };
+}
+
+export interface BiometricRequestAccessParams {
+  // Shown to the user in the access prompt.
+  reason?: string;
+}
+
+export interface BiometricAuthenticateParams {
+  reason?: string;
+}
+
+// Bot API 7.2+.
+export interface TelegramBiometricManager {
+  isInited: boolean;
+  isBiometricAvailable: boolean;
+  biometricType: 'finger' | 'face' | 'unknown';
+  isAccessRequested: boolean;
+  isAccessGranted: boolean;
+  isBiometricTokenSaved: boolean;
+  // Identifies the device's biometric setup; it changes when biometrics are re-enrolled.
+  deviceId: string;
+  init: (callback?: () => void) => TelegramBiometricManager;
+  requestAccess: (params: BiometricRequestAccessParams, callback?: (granted: boolean) => void) => TelegramBiometricManager;
+  authenticate: (params: BiometricAuthenticateParams, callback?: (authenticated: boolean, token?: string) => void) => TelegramBiometricManager;
+  // An empty token removes the saved one.
+  updateBiometricToken: (token: string, callback?: (updated: boolean) => void) => TelegramBiometricManager;
+  openSettings: () => TelegramBiometricManager;
+}
+
+export type TelegramEventType =
+  | 'themeChanged'
+  | 'viewportChanged'
+  | 'safeAreaChanged'
+  | 'contentSafeAreaChanged'
+  | 'mainButtonClicked'
+  | 'backButtonClicked'
+  | 'contactRequested'
+  | 'biometricManagerUpdated';
+
+export interface TelegramWebApp {
+  initData: string;
+  initDataUnsafe: {
+    user?: {
+      id: number;
+      first_name: string;
+      last_name?: string;
+      username?: string;
+      language_code?: string;
+      photo_url?: string;
+      is_premium?: boolean;
+    };
+    auth_date?: number;
+    hash?: string;
+  };
+  version: string;
+  platform: string;
+  colorScheme: 'light' | 'dark';
+  themeParams: TelegramThemeParams;
+  viewportHeight: number;
+  viewportStableHeight: number;
+  isExpanded: boolean;
+  safeAreaInset?: TelegramSafeAreaInset;
+  contentSafeAreaInset?: TelegramSafeAreaInset;
+  isClosingConfirmationEnabled: boolean;
+  MainButton: TelegramBottomButton;
+  BackButton: TelegramBackButton;
+  CloudStorage?: TelegramCloudStorage;
+  BiometricManager?: TelegramBiometricManager;
+  isVersionAtLeast: (version: string) => boolean;
+  // Method syntax keeps handler parameters bivariant, so typed payload handlers are accepted.
+  onEvent(eventType: TelegramEventType, handler: (payload?: unknown) => void): void;
+  offEvent(eventType: TelegramEventType, handler: (payload?: unknown) => void): void;
+  requestContact?: (callback?: (shared: boolean, response?: RequestContactResponse) => void) => void;
+  enableClosingConfirmation: () => void;
+  disableClosingConfirmation: () => void;
+  ready: () => void;
+  expand: () => void;
+  close: () => void;
+  openLink?: (url: string) => void;
+  openTelegramLink?: (url: string) => void;
+  disableVerticalSwipes?: () => void;
+}
+
+declare global {
+  interface Window {
+    Telegram?: {
+      WebApp?: TelegramWebApp;
+    };
+  }
+}
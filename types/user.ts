@@ -32,6 +32,9 @@ export interface CheckIdPayload {
   allowed_financial_actions: string[];
   customer_profile: { avatar: string };
   first_name: string;
+  // ASCII transliterations, sent when the names are not plain ASCII (see utils/personName).
+  first_name_latin?: string;
+  last_name_latin?: string;
   is_bot_user: boolean;
   is_premium: boolean;
   kyc_status: string;
@@ -41,9 +44,13 @@ export interface CheckIdPayload {
   registration_status: string;
   telegram_id: number;
   username: string;
+  // This browser's device id; the backend answers whether it is bound to the customer.
+  device_id: string;
 }
 
 export interface ShareContactPayload {
+  // Signed requestContact response; absent when the number was typed manually.
+  contact_payload?: string;
   phone_number: string;
   telegram_id: number;
 }
@@ -86,12 +93,115 @@ export interface ProductValidationPayload {
   tier_group: string;
 }
 
+export interface PinEncryptionKeyPayload {
+  // Absent for PIN login, which has no registration session.
+  session_id?: string;
+  telegram_id: string;
+}
+
+export interface CustomerProfilePayload {
+  telegram_id: string;
+}
+
+export interface AccountPayload {
+  account_number: string;
+  customer_id: string;
+  telegram_id: string;
+}
+
+export interface TransactionsPayload extends AccountPayload {
+  limit: number;
+}
+
 export interface OnePulseRegistrationPayload {
+  // The primary account.
   account_number: string;
+  // Every eligible account the user linked, primary included.
+  linked_account_numbers: string[];
   customer_id: string;
   device_id: string;
   phone_number: string;
-  pin: string;
+  // Base64 RSA-OAEP ciphertext of `{ pin, session_id }`; see utils/pin.ts.
+  encrypted_pin: string;
+  pin_key_id: string;
   session_id: string;
   telegram_id: string;
-}
\ No newline at end of file
+}
+
+export interface PinLoginPayload {
+  device_id: string;
+  // Base64 RSA-OAEP ciphertext of `{ pin, device_id }`; see utils/pin.ts.
+  encrypted_pin: string;
+  pin_key_id: string;
+  telegram_id: string;
+}
+
+export interface DeviceRebindStartPayload {
+  device_info: DeviceInfoPayload;
+  telegram_id: string;
+}
+
+export interface DeviceRebindResendPayload {
+  rebind_session_id: string;
+  telegram_id: string;
+}
+
+export interface DeviceRebindConfirmPayload {
+  activation_code: string;
+  rebind_session_id: string;
+  telegram_id: string;
+}
+
+export interface BiometricEnablePayload {
+  // `BiometricManager.deviceId`; a different one at login means biometrics were re-enrolled.
+  biometric_device_id: string;
+  device_id: string;
+  telegram_id: string;
+}
+
+export interface BiometricDisablePayload {
+  device_id: string;
+  telegram_id: string;
+}
+
+export interface KycUploadStartPayload {
+  // NATIONAL_ID, PASSPORT or DRIVERS_LICENSE.
+  document_type: string;
+  // FRONT, BACK or SELFIE.
+  side: string;
+  content_type: string;
+  size_bytes: number;
+  chunk_count: number;
+  telegram_id: string;
+}
+
+// Sent as multipart/form-data.
+export interface KycUploadChunkPayload {
+  upload_id: string;
+  index: number;
+  chunk: Blob;
+  telegram_id: string;
+}
+
+export interface KycUploadCompletePayload {
+  upload_id: string;
+  // Hex SHA-256 of the whole image, checked against the reassembled chunks.
+  sha256: string;
+  telegram_id: string;
+}
+
+export interface KycSubmitPayload {
+  document_type: string;
+  front_upload_id: string;
+  // Absent for passports, which only have a photo page.
+  back_upload_id?: string;
+  selfie_upload_id: string;
+  telegram_id: string;
+}
+
+export interface BiometricLoginPayload {
+  biometric_device_id: string;
+  biometric_token: string;
+  device_id: string;
+  telegram_id: string;
+}
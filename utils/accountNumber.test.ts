@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { maskAccountNumber, validateAccountNumber } from '@/utils/accountNumber';
+
+describe('validateAccountNumber', () => {
+  it.each([
+    ['1000123456799', 'CBE'],
+    ['0100 0123 4567 91', 'AWASH'],
+    ['5000-1234-56792', 'DASHEN'],
+  ])('accepts %s as %s', (input, code) => {
+    const result = validateAccountNumber(input);
+    expect(result).toMatchObject({ ok: true, bank: { code } });
+    expect(result.ok && result.warning).toBeFalsy();
+  });
+
+  it.each([
+    ['', 'empty'],
+    ['  ', 'empty'],
+    ['1000-12345-67a9', 'invalid-characters'],
+  ])('rejects %j as %s', (input, error) => {
+    expect(validateAccountNumber(input)).toEqual({ ok: false, error });
+  });
+
+  // The bank rules are unconfirmed, so numbers breaking them are let through with a warning.
+  it('warns about a number no bank rule matches', () => {
+    expect(validateAccountNumber('12345678')).toEqual({ ok: true, accountNumber: '12345678', warning: 'unknown-format' });
+  });
+
+  it('warns about a wrong check digit and names the likely bank', () => {
+    expect(validateAccountNumber('1000123456798')).toMatchObject({
+      ok: true,
+      accountNumber: '1000123456798',
+      bank: { code: 'CBE' },
+      warning: 'invalid-check-digit',
+    });
+  });
+});
+
+describe('maskAccountNumber', () => {
+  it('shows only the last four digits', () => {
+    expect(maskAccountNumber('1000123456799')).toBe('•••• 6799');
+    expect(maskAccountNumber('6799')).toBe('6799');
+  });
+});
@@ -0,0 +1,133 @@
+import { AnalyticsEvent, redact, TrackedEvent } from '@/utils/analyticsEvents';
+import { readLaunchContext } from '@/utils/telegramLaunch';
+
+// Registration funnel analytics. Events (utils/analyticsEvents.ts) are typed,
+// redacted on the way in and fanned out to pluggable sinks. Nothing here
+// identifies the user: events are keyed by a random per-launch session id,
+// never by Telegram id or phone.
+
+export interface AnalyticsSink {
+  send(events: TrackedEvent[]): void;
+  // Called when the page is being hidden or closed; must not rely on async work finishing.
+  flush?(): void;
+}
+
+// --- SINKS ---
+
+export const createConsoleSink = (): AnalyticsSink => ({
+  send: (events) => events.forEach((event) => console.debug('[analytics]', event.name, event)),
+});
+
+/** Keeps every event in memory; `events` is the live list. */
+export const createMemorySink = (): AnalyticsSink & { events: TrackedEvent[]; clear(): void } => {
+  const events: TrackedEvent[] = [];
+  return {
+    events,
+    send: (batch) => { events.push(...batch); },
+    clear: () => { events.length = 0; },
+  };
+};
+
+interface HttpSinkOptions {
+  url: string;
+  // Sent with every batch so the endpoint only accepts events from real launches.
+  getInitData?: () => string | undefined;
+  batchSize?: number;
+  flushIntervalMs?: number;
+}
+
+/**
+ * Batches events and POSTs them as `{ init_data, events: [...] }`. The initData
+ * travels in the body because `sendBeacon` cannot set headers. Batches are sent when
+ * full, on a timer, and with `sendBeacon` when the page goes away, which is
+ * the only transport browsers let finish after the WebApp closes.
+ */
+export const createHttpSink = ({ url, getInitData, batchSize = 20, flushIntervalMs = 5_000 }: HttpSinkOptions): AnalyticsSink => {
+  let queue: TrackedEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const bodyOf = (events: TrackedEvent[]) => JSON.stringify({ init_data: getInitData?.(), events });
+
+  const take = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    const batch = queue;
+    queue = [];
+    return batch;
+  };
+
+  const post = () => {
+    const batch = take();
+    if (!batch.length) return;
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: bodyOf(batch),
+      keepalive: true,
+    }).catch(() => {
+      // Dropped on failure: analytics must never retry into a user's data plan.
+    });
+  };
+
+  return {
+    send: (events) => {
+      queue.push(...events);
+      if (queue.length >= batchSize) post();
+      else timer ??= setTimeout(post, flushIntervalMs);
+    },
+    flush: () => {
+      const batch = take();
+      if (!batch.length) return;
+      const body = new Blob([bodyOf(batch)], { type: 'application/json' });
+      if (!navigator.sendBeacon?.(url, body)) {
+        fetch(url, { method: 'POST', body, keepalive: true }).catch(() => {});
+      }
+    },
+  };
+};
+
+// --- TRACKER ---
+
+export interface Analytics {
+  track(event: AnalyticsEvent): void;
+  flush(): void;
+}
+
+export const createAnalytics = (sinks: AnalyticsSink[]): Analytics => {
+  const sessionId = typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : String(Date.now());
+
+  const flush = () => sinks.forEach((sink) => sink.flush?.());
+
+  if (typeof window !== 'undefined') {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flush();
+    });
+    window.addEventListener('pagehide', flush);
+  }
+
+  return {
+    track: (event) => {
+      // Only the event is redacted; the envelope fields are ours and digit-heavy by nature.
+      const tracked: TrackedEvent = { ...redact(event), sessionId, timestamp: new Date().toISOString() };
+      for (const sink of sinks) {
+        try {
+          sink.send([tracked]);
+        } catch {
+          // A broken sink must not break the flow.
+        }
+      }
+    },
+    flush,
+  };
+};
+
+const ANALYTICS_ENDPOINT = process.env.NEXT_PUBLIC_ANALYTICS_ENDPOINT ?? '/api/analytics';
+
+const defaultSinks = (): AnalyticsSink[] => {
+  const sinks = [createHttpSink({ url: ANALYTICS_ENDPOINT, getInitData: () => readLaunchContext().initDataRaw })];
+  if (process.env.NODE_ENV !== 'production') sinks.push(createConsoleSink());
+  return sinks;
+};
+
+// App-wide tracker. Server rendering gets one with no sinks.
+export const analytics: Analytics = createAnalytics(typeof window === 'undefined' ? [] : defaultSinks());
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { redact, sanitizeTrackedEvent } from '@/utils/analyticsEvents';
+
+const meta = { sessionId: '7f0c2b1e-5d2a-4c1b-9b0e-3a1f2c4d5e6f', timestamp: '2026-10-19T08:00:00.000Z' };
+
+describe('redact', () => {
+  it.each([
+    ['call +251 911 234 567 failed', 'call [REDACTED] failed'],
+    ['account 1000123456799 not found', 'account [REDACTED] not found'],
+    ['mail abebe@example.com', 'mail [REDACTED]'],
+    ['query_id=AAHdF6IQ&user=%7B%22id%22%3A1%7D&hash=c0ffee', '[REDACTED]&[REDACTED]&[REDACTED]'],
+    ['token eyJhbGciOiJIUzI1NiJ9abcdefghij', 'token [REDACTED]'],
+    ['Request timed out after 3 attempts', 'Request timed out after 3 attempts'],
+  ])('scrubs %j', (input, expected) => {
+    expect(redact(input)).toBe(expected);
+  });
+
+  it('leaves schema fields alone', () => {
+    const event = { name: 'api_call', endpoint: '/api/v1/customers/checkTelegramID', outcome: 'network-error', durationMs: 3, attempts: 2 };
+    expect(redact(event)).toEqual(event);
+    expect(redact({ name: 'step_exited', step: 'processing-registration', to: 'completed' }).step).toBe('processing-registration');
+  });
+
+  it('drops values under sensitive keys', () => {
+    expect(redact({ phoneNumber: '0911', step: 'otp-entry' })).toEqual({ phoneNumber: '[REDACTED]', step: 'otp-entry' });
+  });
+});
+
+describe('sanitizeTrackedEvent', () => {
+  it('keeps a well-formed event', () => {
+    const event = { name: 'api_call', endpoint: '/api/v1/verifyCode', outcome: 'http-error', durationMs: 120, attempts: 1, status: 400, ...meta };
+    expect(sanitizeTrackedEvent(event)).toEqual(event);
+  });
+
+  it.each([
+    '/api/v1/customers/checkTelegramID',
+    '/api/v1/device-session-start',
+    '/api/v1/onepulse-registration',
+    '/api/v1/customers/share-contact',
+  ])('keeps an api_call to %s through client redaction', (endpoint) => {
+    const event = { name: 'api_call', endpoint, outcome: 'success', durationMs: 80, attempts: 1, status: 200 } as const;
+    expect(sanitizeTrackedEvent({ ...redact(event), ...meta })).toEqual({ ...event, ...meta });
+  });
+
+  it('drops fields the schema does not know', () => {
+    const event = { name: 'step_entered', step: 'otp-entry', phone: '+251911234567', telegram_id: 1, ...meta };
+    expect(sanitizeTrackedEvent(event)).toEqual({ name: 'step_entered', step: 'otp-entry', ...meta });
+  });
+
+  it('redacts and truncates error details again', () => {
+    const event = sanitizeTrackedEvent({ name: 'error', kind: 'validation', step: 'account-entry', detail: `no account 1000123456799 ${'x '.repeat(200)}`, ...meta });
+    expect(event).toMatchObject({ name: 'error', detail: expect.stringMatching(/^no account \[REDACTED\] /) });
+    expect(event?.name === 'error' && event.detail?.length).toBe(200);
+  });
+
+  it('leaves out malformed optional fields', () => {
+    const event = { name: 'error', kind: 'auth', step: 'pin-unlock', code: 'invalid code 123456', status: 999, ...meta };
+    expect(sanitizeTrackedEvent(event)).toEqual({ name: 'error', kind: 'auth', step: 'pin-unlock', ...meta });
+  });
+
+  it.each([
+    ['an unknown event name', { name: 'page_view', step: 'otp-entry', ...meta }],
+    ['free text as a step', { name: 'step_entered', step: 'Abebe +251911234567', ...meta }],
+    ['an endpoint outside the API', { name: 'api_call', endpoint: 'https://evil.test/x', outcome: 'success', durationMs: 1, attempts: 1, ...meta }],
+    ['an unknown outcome', { name: 'api_call', endpoint: '/api/v1/verifyCode', outcome: 'pwned', durationMs: 1, attempts: 1, ...meta }],
+    ['a negative duration', { name: 'step_exited', step: 'otp-entry', to: 'account-entry', durationMs: -5, ...meta }],
+    ['a bad session id', { name: 'step_entered', step: 'otp-entry', ...meta, sessionId: 'user 12345 / phone' }],
+    ['a bad timestamp', { name: 'step_entered', step: 'otp-entry', ...meta, timestamp: 'yesterday' }],
+    ['a non-object', 'step_entered'],
+  ])('rejects %s', (_, value) => {
+    expect(sanitizeTrackedEvent(value)).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import type { AppErrorKind } from '@/utils/appError';
+import type { AppStatus, InputStep } from '@/utils/registrationMachine';
+
+// Analytics event schema and redaction, shared by the tracker in the browser
+// (utils/analytics.ts) and the collecting endpoint (app/api/analytics), which
+// trusts nothing the client sends and re-checks both.
+
+// --- EVENTS ---
+
+export type ApiCallOutcome = 'success' | 'http-error' | 'network-error' | 'invalid-response';
+
+export type AnalyticsEvent =
+  | { name: 'step_entered'; step: AppStatus; from?: AppStatus }
+  | { name: 'step_exited'; step: AppStatus; to: AppStatus; durationMs: number }
+  | { name: 'api_call'; endpoint: string; outcome: ApiCallOutcome; durationMs: number; attempts: number; status?: number }
+  | { name: 'error'; kind: AppErrorKind; step: InputStep | null; code?: string; status?: number; detail?: string };
+
+export type TrackedEvent = AnalyticsEvent & {
+  sessionId: string;
+  timestamp: string;
+};
+
+// --- REDACTION ---
+
+const REDACTED = '[REDACTED]';
+
+// Keys whose values are never recorded, whatever their shape.
+const SENSITIVE_KEY = /phone|account|otp|activation|pin|password/i;
+
+// Schema fields hold identifiers from a fixed set (endpoints, steps, outcomes,
+// error kinds and codes), checked against their own patterns on the server.
+// Free-text redaction would mangle them, e.g. a long endpoint reads as a token.
+const SCHEMA_KEYS = new Set(['name', 'step', 'from', 'to', 'endpoint', 'outcome', 'kind', 'code']);
+
+// Patterns scrubbed from free text such as error details:
+const SENSITIVE_TEXT = [
+  // Runs of 6+ digits (optionally with +, spaces or dashes): phone numbers, account numbers, OTPs.
+  /\+?\d[\d\s-]{4,}\d/g,
+  /[^\s@]+@[^\s@]+\.[^\s@]+/g,
+  // initData and other signed query strings.
+  /\b(?:init_?data|hash|auth_date|user|query_id|signature)=[^\s&]*/gi,
+  // Tokens, keys and ids: long runs without spaces.
+  /[A-Za-z0-9_+/=-]{24,}/g,
+];
+
+export const redact = <T>(value: T): T => {
+  if (typeof value === 'string') {
+    return SENSITIVE_TEXT.reduce((text: string, pattern) => text.replace(pattern, REDACTED), value) as T;
+  }
+  if (Array.isArray(value)) return value.map(redact) as T;
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => {
+        if (SENSITIVE_KEY.test(key)) return [key, REDACTED];
+        return [key, SCHEMA_KEYS.has(key) ? entry : redact(entry)];
+      }),
+    ) as T;
+  }
+  return value;
+};
+
+// --- VALIDATION ---
+
+// Steps and error kinds are kebab-case; error codes are the backend's SCREAMING_CASE.
+const IDENTIFIER = /^[a-z][a-z0-9-]{0,39}$/;
+const ERROR_CODE = /^[A-Z][A-Z0-9_]{0,63}$/;
+const ENDPOINT = /^\/api\/v1\/[\w/-]{1,100}$/;
+const SESSION_ID = /^[\w-]{1,64}$/;
+const OUTCOMES: readonly ApiCallOutcome[] = ['success', 'http-error', 'network-error', 'invalid-response'];
+const MAX_DETAIL_LENGTH = 200;
+
+const matching = (value: unknown, pattern: RegExp): string | undefined =>
+  typeof value === 'string' && pattern.test(value) ? value : undefined;
+
+const count = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.round(value) : undefined;
+
+const httpStatus = (value: unknown): number | undefined => {
+  const status = count(value);
+  return status !== undefined && status >= 100 && status < 600 ? status : undefined;
+};
+
+const eventOf = (raw: Record<string, unknown>): AnalyticsEvent | null => {
+  switch (raw.name) {
+    case 'step_entered': {
+      const step = matching(raw.step, IDENTIFIER) as AppStatus | undefined;
+      if (!step) return null;
+      return { name: raw.name, step, from: matching(raw.from, IDENTIFIER) as AppStatus | undefined };
+    }
+    case 'step_exited': {
+      const step = matching(raw.step, IDENTIFIER) as AppStatus | undefined;
+      const to = matching(raw.to, IDENTIFIER) as AppStatus | undefined;
+      const durationMs = count(raw.durationMs);
+      if (!step || !to || durationMs === undefined) return null;
+      return { name: raw.name, step, to, durationMs };
+    }
+    case 'api_call': {
+      const endpoint = matching(raw.endpoint, ENDPOINT);
+      const outcome = OUTCOMES.find((candidate) => candidate === raw.outcome);
+      const durationMs = count(raw.durationMs);
+      const attempts = count(raw.attempts);
+      if (!endpoint || !outcome || durationMs === undefined || attempts === undefined) return null;
+      return { name: raw.name, endpoint, outcome, durationMs, attempts, status: httpStatus(raw.status) };
+    }
+    case 'error': {
+      const kind = matching(raw.kind, IDENTIFIER) as AppErrorKind | undefined;
+      if (!kind) return null;
+      return {
+        name: raw.name,
+        kind,
+        step: (matching(raw.step, IDENTIFIER) as InputStep | undefined) ?? null,
+        code: matching(raw.code, ERROR_CODE),
+        status: httpStatus(raw.status),
+        detail: typeof raw.detail === 'string' ? redact(raw.detail).slice(0, MAX_DETAIL_LENGTH) : undefined,
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Rebuilds a tracked event from untrusted input, keeping only the fields the
+ * schema knows and redacting free text again. Returns `null` for anything
+ * that is not a well-formed event.
+ */
+export const sanitizeTrackedEvent = (value: unknown): TrackedEvent | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  const sessionId = matching(raw.sessionId, SESSION_ID);
+  const timestamp = typeof raw.timestamp === 'string' ? Date.parse(raw.timestamp) : NaN;
+  const event = eventOf(raw);
+  if (!sessionId || Number.isNaN(timestamp) || !event) return null;
+  return { ...event, sessionId, timestamp: new Date(timestamp).toISOString() };
+};
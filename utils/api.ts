@@ -0,0 +1,16 @@
+import { analytics } from '@/utils/analytics';
+import { getAppSessionToken } from '@/utils/appSession';
+import { createOnePulseClient } from '@/utils/onePulseClient';
+import { readLaunchContext } from '@/utils/telegramLaunch';
+
+// The app's one backend client, shared by every screen.
+
+// Same-origin proxy (app/api/proxy) that verifies initData before calling the backend.
+const API_BASE_URL = '/api/proxy';
+
+export const api = createOnePulseClient({
+  baseUrl: API_BASE_URL,
+  getInitData: () => readLaunchContext().initDataRaw,
+  getAppSession: () => getAppSessionToken(),
+  onRequestComplete: (report) => analytics.track({ name: 'api_call', ...report }),
+});
@@ -0,0 +1,166 @@
+import { OnePulseApiError, OnePulseNetworkError } from '@/utils/onePulseClient';
+import type { InputStep } from '@/utils/registrationMachine';
+import type { MessageKey } from '@/utils/i18n';
+
+// Typed errors for the registration flow. Every failure is classified from the
+// backend error `code` (falling back to the HTTP status) into a kind with its
+// own copy and recovery action, so screens never show raw backend text.
+
+export type AppErrorKind =
+  | 'network'
+  | 'validation'
+  | 'auth'
+  | 'otp-invalid'
+  | 'pin-invalid'
+  | 'account-not-found'
+  | 'product-ineligible'
+  | 'phone-linked'
+  | 'rate-limited'
+  | 'server';
+
+export type ErrorField = 'phone' | 'activation-code' | 'account-number';
+
+export type RecoveryAction =
+  | { type: 'retry' }
+  // Back to an input step with its value kept and the error shown on the field.
+  | { type: 'edit-field'; step: InputStep; field: ErrorField }
+  | { type: 'go-to-step'; step: InputStep }
+  // initData can only be refreshed by reopening the Mini App.
+  | { type: 'reopen' }
+  | { type: 'contact-support' };
+
+export interface AppError {
+  kind: AppErrorKind;
+  recovery: RecoveryAction;
+  code?: string;
+  status?: number;
+  retryAfterSeconds?: number;
+  // Original error text, for logs only.
+  detail: string;
+}
+
+// --- CLASSIFICATION ---
+
+const CODE_KINDS: Record<string, AppErrorKind> = {
+  VALIDATION_ERROR: 'validation',
+  INIT_DATA_EXPIRED: 'auth',
+  INIT_DATA_INVALID: 'auth',
+  TELEGRAM_ID_MISMATCH: 'auth',
+  OTP_INVALID: 'otp-invalid',
+  OTP_LOCKED: 'rate-limited',
+  PIN_INVALID: 'pin-invalid',
+  PIN_LOCKED: 'rate-limited',
+  RATE_LIMITED: 'rate-limited',
+  ACCOUNT_NOT_FOUND: 'account-not-found',
+  PRODUCT_INELIGIBLE: 'product-ineligible',
+  PHONE_LINKED_ELSEWHERE: 'phone-linked',
+  BACKEND_UNREACHABLE: 'network',
+  BACKEND_TIMEOUT: 'network',
+};
+
+// The input step whose data each endpoint submits, used to send the user back
+// to the right field on validation errors.
+const ENDPOINT_STEPS: Record<string, InputStep> = {
+  '/api/v1/customers/share-contact': 'phone-entry',
+  '/api/v1/device-session-start': 'phone-entry',
+  '/api/v1/SIM-Verify': 'phone-entry',
+  '/api/v1/verifyCode': 'otp-entry',
+  '/api/v1/resendCode': 'otp-entry',
+  '/api/v1/verifyCustomer': 'account-entry',
+  '/api/v1/product-validation': 'account-entry',
+  '/api/v1/pin-encryption-key': 'pin-setup',
+  '/api/v1/onepulse-registration': 'pin-setup',
+  '/api/v1/devices/rebind/confirm': 'rebind-otp',
+  '/api/v1/devices/rebind/resend': 'rebind-otp',
+  '/api/v1/auth/pin-login': 'pin-unlock',
+  '/api/v1/auth/biometric-login': 'pin-unlock',
+  '/api/v1/auth/biometric/enable': 'biometric-setup',
+  '/api/v1/kyc/uploads/start': 'kyc-capture',
+  '/api/v1/kyc/uploads/chunk': 'kyc-capture',
+  '/api/v1/kyc/uploads/complete': 'kyc-capture',
+  '/api/v1/kyc/submit': 'kyc-capture',
+};
+
+const STEP_FIELDS: Partial<Record<InputStep, ErrorField>> = {
+  'phone-entry': 'phone',
+  'otp-entry': 'activation-code',
+  'rebind-otp': 'activation-code',
+  'account-entry': 'account-number',
+};
+
+const kindFromStatus = (status: number, endpoint: string): AppErrorKind => {
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 404 && endpoint === '/api/v1/verifyCustomer') return 'account-not-found';
+  if (status === 409 && endpoint === '/api/v1/customers/share-contact') return 'phone-linked';
+  if (status === 429) return 'rate-limited';
+  if (status === 408 || status === 502 || status === 504) return 'network';
+  return 'server';
+};
+
+const recoveryFor = (kind: AppErrorKind, endpoint?: string): RecoveryAction => {
+  switch (kind) {
+    case 'auth': return { type: 'reopen' };
+    case 'otp-invalid': {
+      const step = endpoint && ENDPOINT_STEPS[endpoint] === 'rebind-otp' ? 'rebind-otp' : 'otp-entry';
+      return { type: 'edit-field', step, field: 'activation-code' };
+    }
+    case 'pin-invalid': return { type: 'go-to-step', step: 'pin-unlock' };
+    case 'account-not-found': return { type: 'edit-field', step: 'account-entry', field: 'account-number' };
+    case 'phone-linked': return { type: 'edit-field', step: 'phone-entry', field: 'phone' };
+    // Eligibility is decided by the bank; BACK still lets the user try another account.
+    case 'product-ineligible': return { type: 'contact-support' };
+    case 'validation': {
+      const step = endpoint ? ENDPOINT_STEPS[endpoint] : undefined;
+      const field = step && STEP_FIELDS[step];
+      if (step && field) return { type: 'edit-field', step, field };
+      return step ? { type: 'go-to-step', step } : { type: 'retry' };
+    }
+    default: return { type: 'retry' };
+  }
+};
+
+const bodyField = (body: unknown, key: string): unknown =>
+  typeof body === 'object' && body !== null ? (body as Record<string, unknown>)[key] : undefined;
+
+/** Classifies anything thrown by the registration flow. */
+export const toAppError = (err: unknown): AppError => {
+  const detail = err instanceof Error ? err.message : String(err);
+
+  if (err instanceof OnePulseNetworkError) {
+    return { kind: 'network', recovery: recoveryFor('network'), detail };
+  }
+
+  if (err instanceof OnePulseApiError) {
+    const code = typeof bodyField(err.body, 'code') === 'string' ? (bodyField(err.body, 'code') as string) : undefined;
+    const kind = (code && CODE_KINDS[code]) || kindFromStatus(err.status, err.endpoint);
+    const retryAfter = bodyField(err.body, 'retry_after_seconds');
+    return {
+      kind,
+      recovery: recoveryFor(kind, err.endpoint),
+      code,
+      status: err.status,
+      retryAfterSeconds: typeof retryAfter === 'number' ? retryAfter : undefined,
+      detail,
+    };
+  }
+
+  // Malformed 2xx responses (ResponseValidationError) and anything unexpected on our side.
+  return { kind: 'server', recovery: recoveryFor('server'), detail };
+};
+
+// --- COPY ---
+
+// Catalog keys for an error's copy; the text lives in utils/messages.
+export interface ErrorCopy {
+  title: MessageKey;
+  message: MessageKey;
+  // Label of the button that runs the recovery action.
+  action: MessageKey;
+}
+
+export const errorCopy = (kind: AppErrorKind): ErrorCopy => ({
+  title: `errors.${kind}.title`,
+  message: `errors.${kind}.message`,
+  action: `errors.${kind}.action`,
+});
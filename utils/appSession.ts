@@ -0,0 +1,43 @@
+import { AppSessionData } from '@/types/api';
+
+// The app session issued by PIN login. Kept in sessionStorage, so it ends
+// with the Mini App and the next launch asks for the PIN again.
+
+const STORAGE_KEY = 'app_session';
+
+interface StoredSession {
+  token: string;
+  expiresAt: number;
+}
+
+export const saveAppSession = (session: AppSessionData, now = Date.now()): void => {
+  const stored: StoredSession = { token: session.session_token, expiresAt: now + session.expires_in_seconds * 1000 };
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage disabled: the session is not kept at all, so the dashboard asks for the PIN again.
+  }
+};
+
+/** Returns the session token, or `undefined` when there is none or it has expired. */
+export const getAppSessionToken = (now = Date.now()): string | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    if (!raw) return undefined;
+    const stored: StoredSession = JSON.parse(raw);
+    if (typeof stored.token === 'string' && stored.expiresAt > now) return stored.token;
+  } catch {
+    // Unreadable entries are treated as no session.
+  }
+  clearAppSession();
+  return undefined;
+};
+
+export const clearAppSession = (): void => {
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear.
+  }
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { toAppError } from '@/utils/appError';
+import { OnePulseApiError } from '@/utils/onePulseClient';
+import { DEFAULT_LOCKOUT_SECONDS, otpFailureFrom } from '@/utils/otp';
+import { pinFailureFrom } from '@/utils/pin';
+
+const apiError = (endpoint: string, status: number, body: unknown) =>
+  new OnePulseApiError(`HTTP ${status}`, status, endpoint, body);
+
+describe('otpFailureFrom', () => {
+  it('reads a wrong code with the attempts left', () => {
+    const err = apiError('/api/v1/verifyCode', 400, { code: 'OTP_INVALID', attempts_remaining: 2 });
+    expect(otpFailureFrom(err)).toEqual({ message: 'errors.otp-invalid.message', attemptsRemaining: 2 });
+  });
+
+  it('reads a lockout with its duration', () => {
+    const err = apiError('/api/v1/devices/rebind/confirm', 423, { code: 'OTP_LOCKED', retry_after_seconds: 45 });
+    expect(otpFailureFrom(err)).toMatchObject({ attemptsRemaining: 0, lockedForSeconds: 45 });
+  });
+
+  it('falls back to the lockout default, not the resend cooldown, for a lockout without a duration', () => {
+    const err = apiError('/api/v1/verifyCode', 423, { code: 'OTP_LOCKED' });
+    expect(otpFailureFrom(err)).toMatchObject({ attemptsRemaining: 0, lockedForSeconds: DEFAULT_LOCKOUT_SECONDS });
+  });
+
+  it('treats a bare 400 as a wrong code', () => {
+    expect(otpFailureFrom(apiError('/api/v1/verifyCode', 400, {}))).not.toBeNull();
+  });
+
+  it('leaves a bare 401 to the regular error handling', () => {
+    expect(otpFailureFrom(apiError('/api/v1/verifyCode', 401, {}))).toBeNull();
+  });
+
+  it.each(['INIT_DATA_EXPIRED', 'INIT_DATA_INVALID', 'TELEGRAM_ID_MISMATCH'])(
+    'sends %s to the reopen recovery instead of counting an attempt',
+    (code) => {
+      const err = apiError('/api/v1/verifyCode', code === 'TELEGRAM_ID_MISMATCH' ? 403 : 401, { code });
+      expect(otpFailureFrom(err)).toBeNull();
+      expect(toAppError(err).recovery).toEqual({ type: 'reopen' });
+    },
+  );
+
+  it('ignores other endpoints', () => {
+    expect(otpFailureFrom(apiError('/api/v1/resendCode', 400, { code: 'OTP_INVALID' }))).toBeNull();
+  });
+});
+
+describe('pinFailureFrom', () => {
+  it('reads a wrong PIN', () => {
+    const err = apiError('/api/v1/auth/pin-login', 401, { code: 'PIN_INVALID', attempts_remaining: 1 });
+    expect(pinFailureFrom(err)).toEqual({ message: 'errors.pin-invalid.message', attemptsRemaining: 1 });
+  });
+
+  it('does not count a 401 with an INIT_DATA_EXPIRED body as a wrong PIN', () => {
+    const err = apiError('/api/v1/auth/pin-login', 401, { code: 'INIT_DATA_EXPIRED', message: 'Telegram initData has expired' });
+    expect(pinFailureFrom(err)).toBeNull();
+    expect(toAppError(err)).toMatchObject({ kind: 'auth', recovery: { type: 'reopen' } });
+  });
+
+  it('falls back to the default lock time', () => {
+    const err = apiError('/api/v1/auth/pin-login', 423, { code: 'PIN_LOCKED' });
+    expect(pinFailureFrom(err)).toMatchObject({ lockedForSeconds: 300 });
+  });
+});
@@ -0,0 +1,65 @@
+import { AppErrorKind, errorCopy } from '@/utils/appError';
+import { OnePulseApiError } from '@/utils/onePulseClient';
+import type { MessageKey } from '@/utils/i18n';
+
+// Wrong-code and lockout answers from endpoints that accept a limited number
+// of attempts (activation codes, PIN login). They keep the user on the entry
+// screen instead of sending them to the error screen.
+
+export interface AttemptFailure {
+  message: MessageKey;
+  attemptsRemaining?: number;
+  // Seconds until the endpoint accepts attempts again; set when the backend locked it.
+  lockedForSeconds?: number;
+}
+
+export interface AttemptCodes {
+  // Endpoints that count attempts; failures of any other call in the same step are regular failures.
+  endpoints: string[];
+  invalidCode: string;
+  lockedCode: string;
+  // Kind whose copy is shown for a wrong attempt.
+  invalidKind: AppErrorKind;
+  // Used when a lockout does not say how long it lasts.
+  defaultLockSeconds: number;
+}
+
+// The proxy answers any route with these when initData is stale or the user
+// does not match it. They are not wrong attempts: the user has to reopen the app.
+const SESSION_CODES = ['INIT_DATA_EXPIRED', 'INIT_DATA_INVALID', 'TELEGRAM_ID_MISMATCH'];
+
+export const numberField = (body: Record<string, unknown>, key: string): number | undefined =>
+  typeof body[key] === 'number' ? (body[key] as number) : undefined;
+
+export const errorBody = (err: OnePulseApiError): Record<string, unknown> =>
+  (typeof err.body === 'object' && err.body !== null ? err.body : {}) as Record<string, unknown>;
+
+/**
+ * Reads a wrong-attempt or lockout answer from a failed call. Returns `null`
+ * for anything else (expired sessions, network and server errors), which the
+ * flow treats as a regular failure.
+ */
+export const attemptFailureFrom = (err: unknown, codes: AttemptCodes): AttemptFailure | null => {
+  if (!(err instanceof OnePulseApiError) || !codes.endpoints.includes(err.endpoint)) return null;
+  const body = errorBody(err);
+  if (typeof body.code === 'string' && SESSION_CODES.includes(body.code)) return null;
+
+  if (err.status === 423 || err.status === 429 || body.code === codes.lockedCode) {
+    return {
+      message: errorCopy('rate-limited').title,
+      attemptsRemaining: 0,
+      lockedForSeconds: numberField(body, 'retry_after_seconds') ?? codes.defaultLockSeconds,
+    };
+  }
+
+  // Matched by code. A bare 400 is taken as a wrong attempt too, but a bare
+  // 401 is not: it may be the session, not the code.
+  if (body.code === codes.invalidCode || (err.status === 400 && body.code === undefined)) {
+    return {
+      message: errorCopy(codes.invalidKind).message,
+      attemptsRemaining: numberField(body, 'attempts_remaining'),
+    };
+  }
+
+  return null;
+};
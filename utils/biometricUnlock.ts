@@ -0,0 +1,93 @@
+import { AppSessionData } from '@/types/api';
+import { api } from '@/utils/api';
+import { errorBody } from '@/utils/attemptFailure';
+import { getOrGenerateDeviceId } from '@/utils/getDeviceInfo';
+import type { MessageKey } from '@/utils/i18n';
+import { OnePulseApiError } from '@/utils/onePulseClient';
+import {
+  authenticateBiometric,
+  BiometricStatus,
+  getBiometricStatus,
+  requestBiometricAccess,
+  updateBiometricToken,
+} from '@/utils/telegramBiometrics';
+
+// Opt-in biometric unlock. Enabling asks the backend for a token bound to
+// this device and its biometric setup, and stores it behind Face ID or the
+// fingerprint reader; unlocking exchanges it for an app session. The PIN
+// always remains the fallback.
+
+export const BIOMETRIC_LABELS: Record<BiometricStatus['type'], MessageKey> = {
+  face: 'biometrics.face',
+  finger: 'biometrics.finger',
+  unknown: 'biometrics.unknown',
+};
+
+/** Whether biometrics can be offered at all: the device supports them. */
+export const canOfferBiometrics = (status: BiometricStatus | null): status is BiometricStatus =>
+  !!status && status.available;
+
+/** Whether this launch can unlock with biometrics instead of the PIN. */
+export const canUnlockWithBiometrics = (status: BiometricStatus | null): status is BiometricStatus =>
+  canOfferBiometrics(status) && status.accessGranted && status.tokenSaved;
+
+export type EnableBiometricsResult = 'enabled' | 'denied' | 'unavailable';
+
+/**
+ * Requires an app session. `reason` is shown in the system permission prompt.
+ * Throws on backend failures.
+ */
+export const enableBiometricUnlock = async (telegramId: string, reason: string): Promise<EnableBiometricsResult> => {
+  const status = await getBiometricStatus();
+  if (!canOfferBiometrics(status)) return 'unavailable';
+  if (!(await requestBiometricAccess(reason))) return 'denied';
+
+  const deviceId = getOrGenerateDeviceId();
+  const res = await api.enableBiometricLogin({
+    biometric_device_id: status.deviceId,
+    device_id: deviceId,
+    telegram_id: telegramId,
+  });
+  if (await updateBiometricToken(res.data.biometric_token)) return 'enabled';
+
+  // A token the device could not store must not stay valid on the backend.
+  await api.disableBiometricLogin({ device_id: deviceId, telegram_id: telegramId }).catch(() => {});
+  return 'unavailable';
+};
+
+export const disableBiometricUnlock = async (telegramId: string): Promise<void> => {
+  await updateBiometricToken('');
+  await api.disableBiometricLogin({ device_id: getOrGenerateDeviceId(), telegram_id: telegramId });
+};
+
+export type BiometricLoginResult =
+  | { type: 'unlocked'; session: AppSessionData }
+  | { type: 'cancelled' }
+  // Biometrics changed or the backend revoked the token; only the PIN works now.
+  | { type: 'invalidated' };
+
+// Matched by code: a plain 401 may be expired initData, which must not cost the user their token.
+const isRevokedToken = (err: unknown) =>
+  err instanceof OnePulseApiError && errorBody(err).code === 'BIOMETRIC_TOKEN_INVALID';
+
+/** `reason` is shown in the biometric prompt. Throws on network and server failures, like the PIN login. */
+export const loginWithBiometrics = async (telegramId: string, reason: string): Promise<BiometricLoginResult> => {
+  const status = await getBiometricStatus();
+  const auth = await authenticateBiometric(reason);
+  if (auth.type === 'failed') return { type: 'cancelled' };
+  if (auth.type === 'token-missing' || !status) return { type: 'invalidated' };
+
+  try {
+    const res = await api.loginWithBiometrics({
+      biometric_device_id: status.deviceId,
+      biometric_token: auth.token,
+      device_id: getOrGenerateDeviceId(),
+      telegram_id: telegramId,
+    });
+    return { type: 'unlocked', session: res.data };
+  } catch (err) {
+    if (!isRevokedToken(err)) throw err;
+    await updateBiometricToken('');
+    return { type: 'invalidated' };
+  }
+};
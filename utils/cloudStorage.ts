@@ -0,0 +1,61 @@
+import { TelegramCloudStorage } from '@/types/telegram';
+
+// Promise wrapper around Telegram CloudStorage (Bot API 6.9+). Falls back to
+// sessionStorage when the Mini App runs in an older client or outside Telegram.
+
+const getCloudStorage = (): TelegramCloudStorage | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const webApp = window.Telegram?.WebApp;
+  if (!webApp?.CloudStorage || !webApp.isVersionAtLeast?.('6.9')) return undefined;
+  return webApp.CloudStorage;
+};
+
+const sessionFallback = {
+  getItem: (key: string): string | null => {
+    try { return window.sessionStorage.getItem(key); } catch { return null; }
+  },
+  setItem: (key: string, value: string) => {
+    try { window.sessionStorage.setItem(key, value); } catch {}
+  },
+  removeItem: (key: string) => {
+    try { window.sessionStorage.removeItem(key); } catch {}
+  },
+};
+
+export const getStoredItem = (key: string): Promise<string | null> => {
+  if (typeof window === 'undefined') return Promise.resolve(null);
+  const cloud = getCloudStorage();
+  if (!cloud) return Promise.resolve(sessionFallback.getItem(key));
+
+  return new Promise((resolve) => {
+    cloud.getItem(key, (error, value) => {
+      if (error) resolve(sessionFallback.getItem(key));
+      else resolve(value || null);
+    });
+  });
+};
+
+export const setStoredItem = (key: string, value: string): Promise<void> => {
+  if (typeof window === 'undefined') return Promise.resolve();
+  const cloud = getCloudStorage();
+  if (!cloud) { sessionFallback.setItem(key, value); return Promise.resolve(); }
+
+  return new Promise((resolve) => {
+    cloud.setItem(key, value, (error) => {
+      if (error) sessionFallback.setItem(key, value);
+      resolve();
+    });
+  });
+};
+
+export const removeStoredItem = (key: string): Promise<void> => {
+  if (typeof window === 'undefined') return Promise.resolve();
+  // Clear both so a value written by the fallback never outlives the cloud copy.
+  sessionFallback.removeItem(key);
+  const cloud = getCloudStorage();
+  if (!cloud) return Promise.resolve();
+
+  return new Promise((resolve) => {
+    cloud.removeItem(key, () => resolve());
+  });
+};
@@ -0,0 +1,427 @@
+import { mockTelegramEnv } from '@telegram-apps/sdk-react';
+import {
+  RequestContactResponse,
+  TelegramBackButton,
+  TelegramBiometricManager,
+  TelegramBottomButton,
+  TelegramCloudStorage,
+  TelegramEventType,
+  TelegramThemeParams,
+  TelegramWebApp,
+} from '@/types/telegram';
+import { signInitData } from '@/utils/telegramInitData';
+
+// Dev-only stand-in for `window.Telegram.WebApp`, so the whole flow runs on
+// localhost in a normal browser. TelegramInitializer only imports this module
+// behind a NODE_ENV check, so it never ends up in production bundles.
+//
+// Configure it with NEXT_PUBLIC_TELEGRAM_SIMULATOR_USER (JSON) and
+// NEXT_PUBLIC_TELEGRAM_SIMULATOR_BOT_TOKEN, or at runtime from the console:
+//
+//   telegramSimulator.configure({ user: { language_code: 'am', is_premium: true } })
+//   telegramSimulator.setColorScheme('dark')
+//   telegramSimulator.changeBiometrics()   // as if Face ID was re-enrolled
+
+export interface SimulatorUser {
+  id: number;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+  is_premium?: boolean;
+}
+
+export interface SimulatorConfig {
+  user: SimulatorUser;
+  // Must match the proxy's TELEGRAM_BOT_TOKEN for signed initData to verify.
+  botToken: string;
+  phoneNumber: string;
+  colorScheme: 'light' | 'dark';
+  platform: string;
+}
+
+const CONFIG_STORAGE_KEY = 'telegram-simulator';
+const CLOUD_STORAGE_PREFIX = 'telegram-simulator-cloud:';
+const BIOMETRIC_STORAGE_KEY = 'telegram-simulator-biometrics';
+const SIMULATED_VERSION = '8.0';
+const HEADER_HEIGHT = 44;
+
+const DEFAULT_CONFIG: SimulatorConfig = {
+  user: {
+    id: 100000001,
+    first_name: 'Test',
+    last_name: 'User',
+    username: 'onepulse_tester',
+    language_code: 'en',
+    is_premium: false,
+  },
+  botToken: process.env.NEXT_PUBLIC_TELEGRAM_SIMULATOR_BOT_TOKEN || '123456:TEST-TOKEN',
+  phoneNumber: '+251911234567',
+  colorScheme: 'light',
+  platform: 'tdesktop',
+};
+
+const THEMES: Record<SimulatorConfig['colorScheme'], TelegramThemeParams> = {
+  light: {
+    bg_color: '#ffffff',
+    text_color: '#000000',
+    hint_color: '#999999',
+    link_color: '#2481cc',
+    button_color: '#2481cc',
+    button_text_color: '#ffffff',
+    secondary_bg_color: '#efeff3',
+    header_bg_color: '#ffffff',
+    bottom_bar_bg_color: '#ffffff',
+    accent_text_color: '#2481cc',
+    section_bg_color: '#ffffff',
+    section_header_text_color: '#6d6d72',
+    section_separator_color: '#e7e7e7',
+    subtitle_text_color: '#999999',
+    destructive_text_color: '#ff3b30',
+  },
+  dark: {
+    bg_color: '#17212b',
+    text_color: '#f5f5f5',
+    hint_color: '#708499',
+    link_color: '#6ab3f3',
+    button_color: '#5288c1',
+    button_text_color: '#ffffff',
+    secondary_bg_color: '#232e3c',
+    header_bg_color: '#17212b',
+    bottom_bar_bg_color: '#17212b',
+    accent_text_color: '#6ab2f2',
+    section_bg_color: '#17212b',
+    section_header_text_color: '#6ab3f3',
+    section_separator_color: '#111921',
+    subtitle_text_color: '#708499',
+    destructive_text_color: '#ec3942',
+  },
+};
+
+const readConfig = (): SimulatorConfig => {
+  let envUser: Partial<SimulatorUser> = {};
+  let stored: Partial<SimulatorConfig> = {};
+  try { envUser = JSON.parse(process.env.NEXT_PUBLIC_TELEGRAM_SIMULATOR_USER || '{}'); } catch {}
+  try { stored = JSON.parse(localStorage.getItem(CONFIG_STORAGE_KEY) || '{}'); } catch {}
+
+  return {
+    ...DEFAULT_CONFIG,
+    ...stored,
+    user: { ...DEFAULT_CONFIG.user, ...envUser, ...stored.user },
+  };
+};
+
+const compareVersions = (a: string, b: string) => {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+// --- EVENTS ---
+
+type Handler = (payload?: unknown) => void;
+const handlers = new Map<TelegramEventType, Set<Handler>>();
+
+const emit = (eventType: TelegramEventType, payload?: unknown) => {
+  handlers.get(eventType)?.forEach((handler) => handler(payload));
+};
+
+// --- CHROME ---
+// Plain DOM rather than React: the simulator lives outside the app tree, the
+// same way Telegram's own header and bottom bar do.
+
+const createChrome = () => {
+  const header = document.createElement('div');
+  header.style.cssText = `position:fixed;top:0;left:0;right:0;height:${HEADER_HEIGHT}px;display:flex;align-items:center;gap:8px;padding:0 12px;z-index:9999;font:600 14px system-ui;border-bottom:1px solid rgba(0,0,0,.08)`;
+  const back = document.createElement('button');
+  back.textContent = '← Back';
+  back.style.cssText = 'display:none;background:none;border:none;font:inherit;cursor:pointer;color:inherit';
+  const title = document.createElement('span');
+  title.textContent = 'Telegram Simulator';
+  title.style.cssText = 'opacity:.6';
+  header.append(back, title);
+
+  const main = document.createElement('button');
+  main.style.cssText = 'position:fixed;left:12px;right:12px;bottom:12px;height:48px;border:none;border-radius:12px;font:600 15px system-ui;z-index:9999;display:none;cursor:pointer';
+
+  document.body.append(header, main);
+  return { header, back, main };
+};
+
+// --- WEB APP ---
+
+const createMainButton = (chrome: ReturnType<typeof createChrome>, theme: () => TelegramThemeParams): TelegramBottomButton => {
+  const button: TelegramBottomButton = {
+    text: 'Continue',
+    color: '',
+    textColor: '',
+    isVisible: false,
+    isActive: true,
+    isProgressVisible: false,
+    setText: (text) => { button.text = text; render(); return button; },
+    onClick: (callback) => { webAppOnEvent('mainButtonClicked', callback); return button; },
+    offClick: (callback) => { webAppOffEvent('mainButtonClicked', callback); return button; },
+    show: () => { button.isVisible = true; render(); return button; },
+    hide: () => { button.isVisible = false; render(); return button; },
+    enable: () => { button.isActive = true; render(); return button; },
+    disable: () => { button.isActive = false; render(); return button; },
+    showProgress: (leaveActive = false) => {
+      button.isProgressVisible = true;
+      if (!leaveActive) button.isActive = false;
+      render();
+      return button;
+    },
+    hideProgress: () => { button.isProgressVisible = false; render(); return button; },
+  };
+
+  const render = () => {
+    const { main } = chrome;
+    main.style.display = button.isVisible ? 'block' : 'none';
+    main.style.background = button.color || theme().button_color || '#2481cc';
+    main.style.color = button.textColor || theme().button_text_color || '#ffffff';
+    main.style.opacity = button.isActive ? '1' : '.5';
+    main.disabled = !button.isActive;
+    main.textContent = button.isProgressVisible ? '…' : button.text;
+  };
+
+  chrome.main.addEventListener('click', () => {
+    if (button.isActive) emit('mainButtonClicked');
+  });
+  return button;
+};
+
+const createBackButton = (chrome: ReturnType<typeof createChrome>): TelegramBackButton => {
+  const button: TelegramBackButton = {
+    isVisible: false,
+    onClick: (callback) => { webAppOnEvent('backButtonClicked', callback); return button; },
+    offClick: (callback) => { webAppOffEvent('backButtonClicked', callback); return button; },
+    show: () => { button.isVisible = true; chrome.back.style.display = 'inline'; return button; },
+    hide: () => { button.isVisible = false; chrome.back.style.display = 'none'; return button; },
+  };
+  chrome.back.addEventListener('click', () => emit('backButtonClicked'));
+  return button;
+};
+
+const cloudStorage: TelegramCloudStorage = {
+  setItem: (key, value, callback) => {
+    localStorage.setItem(CLOUD_STORAGE_PREFIX + key, value);
+    callback?.(null, true);
+  },
+  getItem: (key, callback) => {
+    callback(null, localStorage.getItem(CLOUD_STORAGE_PREFIX + key) ?? '');
+  },
+  removeItem: (key, callback) => {
+    localStorage.removeItem(CLOUD_STORAGE_PREFIX + key);
+    callback?.(null, true);
+  },
+};
+
+interface StoredBiometrics {
+  deviceId: string;
+  accessRequested: boolean;
+  accessGranted: boolean;
+  token: string;
+}
+
+const readBiometrics = (): StoredBiometrics => {
+  try {
+    const stored = localStorage.getItem(BIOMETRIC_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Fall through to a fresh device.
+  }
+  return { deviceId: crypto.randomUUID(), accessRequested: false, accessGranted: false, token: '' };
+};
+
+// Confirm dialogs stand in for the access prompt and the Face ID check.
+const createBiometricManager = () => {
+  let stored = readBiometrics();
+  const save = (changes: Partial<StoredBiometrics>) => {
+    stored = { ...stored, ...changes };
+    localStorage.setItem(BIOMETRIC_STORAGE_KEY, JSON.stringify(stored));
+    sync();
+    emit('biometricManagerUpdated');
+  };
+
+  const manager: TelegramBiometricManager = {
+    isInited: false,
+    isBiometricAvailable: true,
+    biometricType: 'face',
+    isAccessRequested: false,
+    isAccessGranted: false,
+    isBiometricTokenSaved: false,
+    deviceId: '',
+    init: (callback) => { manager.isInited = true; sync(); setTimeout(() => callback?.()); return manager; },
+    requestAccess: ({ reason }, callback) => {
+      const granted = window.confirm(`Allow this app to use Face ID?\n\n${reason ?? ''}`);
+      save({ accessRequested: true, accessGranted: granted });
+      setTimeout(() => callback?.(granted));
+      return manager;
+    },
+    authenticate: ({ reason }, callback) => {
+      const authenticated = stored.accessGranted && window.confirm(`Face ID\n\n${reason ?? ''}`);
+      setTimeout(() => callback?.(authenticated, authenticated ? stored.token : undefined));
+      return manager;
+    },
+    updateBiometricToken: (token, callback) => {
+      save({ token });
+      setTimeout(() => callback?.(true));
+      return manager;
+    },
+    openSettings: () => {
+      save({ accessGranted: window.confirm('Allow this app to use Face ID?') });
+      return manager;
+    },
+  };
+
+  const sync = () => {
+    manager.isAccessRequested = stored.accessRequested;
+    manager.isAccessGranted = stored.accessGranted;
+    manager.isBiometricTokenSaved = stored.token !== '';
+    manager.deviceId = stored.deviceId;
+  };
+
+  return {
+    manager,
+    // Re-enrolling biometrics gives a new device id and drops the saved token.
+    reenroll: () => save({ deviceId: crypto.randomUUID(), token: '' }),
+  };
+};
+
+const webAppOnEvent = (eventType: TelegramEventType, handler: Handler) => {
+  if (!handlers.has(eventType)) handlers.set(eventType, new Set());
+  handlers.get(eventType)!.add(handler);
+};
+
+const webAppOffEvent = (eventType: TelegramEventType, handler: Handler) => {
+  handlers.get(eventType)?.delete(handler);
+};
+
+/**
+ * Replaces `window.Telegram.WebApp` with a simulated one and stores matching
+ * launch params for `retrieveLaunchParams`. Returns the simulated WebApp.
+ */
+export const installTelegramSimulator = async (): Promise<TelegramWebApp> => {
+  const config = readConfig();
+  const authDate = String(Math.floor(Date.now() / 1000));
+
+  const initData = await signInitData({
+    auth_date: authDate,
+    query_id: `sim-${authDate}`,
+    user: JSON.stringify(config.user),
+  }, config.botToken);
+
+  let colorScheme = config.colorScheme;
+  const theme = () => THEMES[colorScheme];
+
+  mockTelegramEnv({
+    launchParams: new URLSearchParams({
+      tgWebAppData: initData,
+      tgWebAppVersion: SIMULATED_VERSION,
+      tgWebAppPlatform: config.platform,
+      tgWebAppThemeParams: JSON.stringify(theme()),
+    }),
+  });
+
+  const chrome = createChrome();
+  const biometrics = createBiometricManager();
+  const zeroInset = { top: 0, bottom: 0, left: 0, right: 0 };
+
+  const webApp: TelegramWebApp = {
+    initData,
+    initDataUnsafe: { user: config.user, auth_date: Number(authDate), hash: new URLSearchParams(initData).get('hash') ?? '' },
+    version: SIMULATED_VERSION,
+    platform: config.platform,
+    colorScheme,
+    themeParams: theme(),
+    viewportHeight: window.innerHeight - HEADER_HEIGHT,
+    viewportStableHeight: window.innerHeight - HEADER_HEIGHT,
+    isExpanded: true,
+    safeAreaInset: zeroInset,
+    contentSafeAreaInset: { ...zeroInset, top: HEADER_HEIGHT },
+    isClosingConfirmationEnabled: false,
+    MainButton: createMainButton(chrome, theme),
+    BackButton: createBackButton(chrome),
+    CloudStorage: cloudStorage,
+    BiometricManager: biometrics.manager,
+    isVersionAtLeast: (version) => compareVersions(SIMULATED_VERSION, version) >= 0,
+    onEvent: webAppOnEvent,
+    offEvent: webAppOffEvent,
+    requestContact: (callback) => {
+      // A confirm dialog stands in for Telegram's native share prompt.
+      const shared = window.confirm(`Share your phone number ${config.phoneNumber} with this app?`);
+      const finish = (response: RequestContactResponse) => {
+        emit('contactRequested', response);
+        callback?.(shared, response);
+      };
+      if (!shared) { finish({ status: 'cancelled' }); return; }
+
+      const contact = {
+        user_id: config.user.id,
+        phone_number: config.phoneNumber,
+        first_name: config.user.first_name,
+        last_name: config.user.last_name,
+      };
+      signInitData({ contact: JSON.stringify(contact), auth_date: String(Math.floor(Date.now() / 1000)) }, config.botToken)
+        .then((response) => {
+          const params = new URLSearchParams(response);
+          finish({
+            status: 'sent',
+            response,
+            responseUnsafe: { contact, auth_date: params.get('auth_date') ?? '', hash: params.get('hash') ?? '' },
+          });
+        });
+    },
+    enableClosingConfirmation: () => { webApp.isClosingConfirmationEnabled = true; },
+    disableClosingConfirmation: () => { webApp.isClosingConfirmationEnabled = false; },
+    ready: () => {},
+    expand: () => {},
+    close: () => console.info('[telegram-simulator] WebApp.close() called'),
+    disableVerticalSwipes: () => {},
+  };
+
+  const applyTheme = () => {
+    webApp.colorScheme = colorScheme;
+    webApp.themeParams = theme();
+    chrome.header.style.background = theme().header_bg_color ?? '';
+    chrome.header.style.color = theme().text_color ?? '';
+    webApp.MainButton.setText(webApp.MainButton.text);
+  };
+  applyTheme();
+
+  window.addEventListener('resize', () => {
+    webApp.viewportHeight = window.innerHeight - HEADER_HEIGHT;
+    webApp.viewportStableHeight = webApp.viewportHeight;
+    emit('viewportChanged', { isStateStable: true });
+  });
+
+  window.Telegram = { ...window.Telegram, WebApp: webApp };
+
+  Object.assign(window, {
+    telegramSimulator: {
+      config,
+      configure: (next: Partial<Omit<SimulatorConfig, 'user'>> & { user?: Partial<SimulatorUser> }) => {
+        const stored = { ...config, ...next, user: { ...config.user, ...next.user } };
+        localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(stored));
+        window.location.reload();
+      },
+      reset: () => {
+        localStorage.removeItem(CONFIG_STORAGE_KEY);
+        window.location.reload();
+      },
+      setColorScheme: (scheme: SimulatorConfig['colorScheme']) => {
+        colorScheme = scheme;
+        applyTheme();
+        emit('themeChanged');
+      },
+      changeBiometrics: biometrics.reenroll,
+    },
+  });
+
+  console.info('[telegram-simulator] installed for user', config.user);
+  return webApp;
+};
@@ -0,0 +1,28 @@
+// Financial actions offered on the dashboard. The backend decides which ones
+// a customer may use through `allowed_financial_actions`.
+
+import type { MessageKey } from '@/utils/i18n';
+
+export type FinancialActionCode = 'SEND_MONEY' | 'PAY_BILLS' | 'BUY_AIRTIME' | 'CASH_OUT';
+
+export interface FinancialAction {
+  code: FinancialActionCode;
+  label: MessageKey;
+  icon: string;
+}
+
+export const FINANCIAL_ACTIONS: FinancialAction[] = [
+  { code: 'SEND_MONEY', label: 'actions.sendMoney', icon: '↗' },
+  { code: 'PAY_BILLS', label: 'actions.payBills', icon: '🧾' },
+  { code: 'BUY_AIRTIME', label: 'actions.buyAirtime', icon: '📱' },
+  { code: 'CASH_OUT', label: 'actions.cashOut', icon: '🏧' },
+];
+
+// Grants every action, as sent by the registration flow.
+const ALL_ACTIONS = 'ALL';
+
+/** The actions from our catalogue that the customer may use; unknown codes are ignored. */
+export const allowedFinancialActions = (allowed: string[]): FinancialAction[] => {
+  const codes = new Set(allowed.map((code) => code.toUpperCase()));
+  return codes.has(ALL_ACTIONS) ? FINANCIAL_ACTIONS : FINANCIAL_ACTIONS.filter((action) => codes.has(action.code));
+};
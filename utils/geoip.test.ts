@@ -0,0 +1,118 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  createCsvGeoIpProvider,
+  createStubGeoIpProvider,
+  geoIpProviderFromEnv,
+  lookupLocation,
+  resolveClientIp,
+  UNKNOWN_LOCATION,
+} from '@/utils/geoip';
+
+describe('resolveClientIp', () => {
+  const headers = (forwardedFor?: string, realIp?: string) => new Headers({
+    ...(forwardedFor !== undefined && { 'x-forwarded-for': forwardedFor }),
+    ...(realIp !== undefined && { 'x-real-ip': realIp }),
+  });
+
+  // The client spoofs the first entry; the proxies append the rest.
+  const chain = '6.6.6.6, 196.188.1.10, 10.0.0.2';
+
+  it.each([
+    [0, undefined],
+    [1, '10.0.0.2'],
+    [2, '196.188.1.10'],
+    [3, '6.6.6.6'],
+  ])('with %i trusted hops reads %s', (hops, expected) => {
+    expect(resolveClientIp(headers(chain), hops)).toBe(expected);
+  });
+
+  it('trusts one hop by default', () => {
+    expect(resolveClientIp(headers(chain))).toBe('10.0.0.2');
+  });
+
+  it('falls back to X-Real-IP when the chain is shorter than the trusted hops', () => {
+    expect(resolveClientIp(headers('196.188.1.10', '196.188.1.11'), 2)).toBe('196.188.1.11');
+    expect(resolveClientIp(headers('196.188.1.10'), 2)).toBeUndefined();
+  });
+
+  it('ignores X-Real-IP when no proxy is trusted', () => {
+    expect(resolveClientIp(headers(undefined, '196.188.1.11'), 0)).toBeUndefined();
+  });
+
+  it.each([
+    ['2001:db8::1', '2001:db8::1'],
+    ['[2001:db8::1]', '2001:db8::1'],
+    ['::ffff:196.188.1.10', '196.188.1.10'],
+    [' 196.188.1.10 ', '196.188.1.10'],
+  ])('normalizes %j', (entry, expected) => {
+    expect(resolveClientIp(headers(entry))).toBe(expected);
+  });
+});
+
+describe('CSV provider', () => {
+  let dir: string;
+  let path: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'geoip-'));
+    path = join(dir, 'dbip-city-lite.csv');
+    await writeFile(path, [
+      '196.188.0.0,196.188.255.255,AF,ET,Addis Ababa,Addis Ababa,9.0250,38.7469',
+      '1.0.0.0,1.0.0.255,OC,AU,Queensland,"South Brisbane, QLD",-27.4767,153.017',
+      '41.90.0.0,41.90.255.255,AF,KE,Nairobi,Nairobi,-1.2833,36.8167',
+      '2c0f:f5c0::,2c0f:f5c0:ffff:ffff:ffff:ffff:ffff:ffff,AF,ET,Oromia,Adama,8.54,39.27',
+      '2001:db8::,2001:db8::ffff,,,,,,',
+      'not,an,ip,range',
+      '',
+    ].join('\r\n'));
+  });
+
+  afterAll(() => rm(dir, { recursive: true, force: true }));
+
+  it.each([
+    ['196.188.0.0', 'Addis Ababa'],
+    ['196.188.42.7', 'Addis Ababa'],
+    ['196.188.255.255', 'Addis Ababa'],
+    ['41.90.3.4', 'Nairobi'],
+    ['1.0.0.1', 'South Brisbane, QLD'],
+    ['2c0f:f5c0:1::42', 'Adama'],
+    ['2C0F:F5C0::', 'Adama'],
+  ])('finds %s in %s', async (ip, city) => {
+    expect((await createCsvGeoIpProvider(path).lookup(ip))?.city).toBe(city);
+  });
+
+  it('fills in unknown fields of a range', async () => {
+    expect(await createCsvGeoIpProvider(path).lookup('2001:db8::2')).toEqual(UNKNOWN_LOCATION);
+  });
+
+  it.each(['196.189.0.1', '8.8.8.8', '2001:db9::1', '196.188.1', '2001:db8:::1', 'garbage'])('has no location for %s', async (ip) => {
+    expect(await createCsvGeoIpProvider(path).lookup(ip)).toBeNull();
+  });
+
+  it('reports a missing database as unknown', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await lookupLocation(createCsvGeoIpProvider(join(dir, 'missing.csv')), '196.188.1.1')).toEqual(UNKNOWN_LOCATION);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('lookupLocation', () => {
+  const stub = createStubGeoIpProvider();
+
+  it('answers from the provider', async () => {
+    expect(await lookupLocation(stub, '196.188.1.1')).toEqual({ city: 'Addis Ababa', country: 'ET', lat: '9.0250', lon: '38.7469' });
+  });
+
+  it('is unknown without a provider or an address', async () => {
+    expect(await lookupLocation(null, '196.188.1.1')).toEqual(UNKNOWN_LOCATION);
+    expect(await lookupLocation(stub, undefined)).toEqual(UNKNOWN_LOCATION);
+  });
+
+  it('picks the provider from the environment', async () => {
+    expect(await geoIpProviderFromEnv({ GEOIP_PROVIDER: 'stub' })?.lookup('1.1.1.1')).toMatchObject({ city: 'Addis Ababa' });
+    expect(geoIpProviderFromEnv({})).toBeNull();
+  });
+});
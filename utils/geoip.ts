@@ -0,0 +1,170 @@
+import { readFile } from 'node:fs/promises';
+
+// Server-side client IP and geolocation. The proxy resolves these from the
+// request itself and attaches them to the device session, so the browser
+// never asserts its own IP and no third-party lookup sees the user's address.
+
+export interface GeoLocation {
+  city: string;
+  country: string;
+  lat: string;
+  lon: string;
+}
+
+export interface GeoIpProvider {
+  lookup(ip: string): Promise<GeoLocation | null>;
+}
+
+export const UNKNOWN_LOCATION: GeoLocation = { city: 'Unknown', country: 'Unknown', lat: '0', lon: '0' };
+
+// --- CLIENT IP ---
+
+const normalizeIp = (value: string): string => {
+  const ip = value.trim().replace(/^\[|\]$/g, '');
+  return ip.startsWith('::ffff:') && ip.includes('.') ? ip.slice('::ffff:'.length) : ip;
+};
+
+/**
+ * Reads the client IP from `X-Forwarded-For`. Each proxy in front of the app
+ * appends the address it received the request from, so only the entry
+ * `trustedHops` from the right is trustworthy; anything further left could
+ * have been sent by the client. With no trusted proxy every header is the
+ * client's own claim, so no address is resolved.
+ */
+export const resolveClientIp = (headers: Headers, trustedHops = 1): string | undefined => {
+  if (trustedHops <= 0) return undefined;
+  const forwarded = headers.get('x-forwarded-for');
+  if (forwarded) {
+    const hops = forwarded.split(',').map((entry) => entry.trim()).filter(Boolean);
+    const entry = hops[hops.length - trustedHops];
+    if (entry) return normalizeIp(entry);
+  }
+  const realIp = headers.get('x-real-ip');
+  return realIp ? normalizeIp(realIp) : undefined;
+};
+
+// --- PROVIDERS ---
+
+/** Answers every lookup with the same location. For local development and tests. */
+export const createStubGeoIpProvider = (location: GeoLocation = {
+  city: 'Addis Ababa',
+  country: 'ET',
+  lat: '9.0250',
+  lon: '38.7469',
+}): GeoIpProvider => ({
+  lookup: async () => location,
+});
+
+const ipToBigInt = (ip: string): { family: 4 | 6; value: bigint } | null => {
+  if (ip.includes('.') && !ip.includes(':')) {
+    const parts = ip.split('.').map(Number);
+    if (parts.length !== 4 || parts.some((part) => !Number.isInteger(part) || part < 0 || part > 255)) return null;
+    return { family: 4, value: parts.reduce((acc, part) => (acc << BigInt(8)) + BigInt(part), BigInt(0)) };
+  }
+
+  const [head, tail, ...rest] = ip.split('::');
+  if (rest.length) return null;
+  const left = head ? head.split(':') : [];
+  const right = tail !== undefined && tail !== '' ? tail.split(':') : [];
+  const missing = 8 - left.length - right.length;
+  if (missing < 0 || (tail === undefined && missing !== 0)) return null;
+  const groups = [...left, ...Array<string>(missing).fill('0'), ...right];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return { family: 6, value: groups.reduce((acc, group) => (acc << BigInt(16)) + BigInt(parseInt(group, 16)), BigInt(0)) };
+};
+
+interface IpRange {
+  start: bigint;
+  end: bigint;
+  location: GeoLocation;
+}
+
+// Splits one CSV line, honouring double-quoted fields.
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') { current += '"'; i++; }
+      else quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+};
+
+const parseDatabase = (csv: string): Record<4 | 6, IpRange[]> => {
+  const ranges: Record<4 | 6, IpRange[]> = { 4: [], 6: [] };
+  for (const line of csv.split(/\r?\n/)) {
+    if (!line) continue;
+    const [startIp, endIp, , country, , city, lat, lon] = splitCsvLine(line);
+    const start = ipToBigInt(startIp);
+    const end = ipToBigInt(endIp ?? '');
+    if (!start || !end || start.family !== end.family) continue;
+    ranges[start.family].push({
+      start: start.value,
+      end: end.value,
+      location: { city: city || 'Unknown', country: country || 'Unknown', lat: lat || '0', lon: lon || '0' },
+    });
+  }
+  for (const family of [4, 6] as const) ranges[family].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  return ranges;
+};
+
+/**
+ * Looks IPs up in a local GeoIP CSV in the DB-IP "IP to City Lite" layout:
+ * `ip_start,ip_end,continent,country,stateprov,city,latitude,longitude`.
+ * The file is read once, on the first lookup.
+ */
+export const createCsvGeoIpProvider = (databasePath: string): GeoIpProvider => {
+  let database: Promise<Record<4 | 6, IpRange[]>> | undefined;
+
+  return {
+    lookup: async (ip) => {
+      const address = ipToBigInt(ip);
+      if (!address) return null;
+      database ??= readFile(databasePath, 'utf8').then(parseDatabase);
+      const ranges = (await database)[address.family];
+
+      let low = 0;
+      let high = ranges.length - 1;
+      while (low <= high) {
+        const mid = (low + high) >> 1;
+        const range = ranges[mid];
+        if (address.value < range.start) high = mid - 1;
+        else if (address.value > range.end) low = mid + 1;
+        else return range.location;
+      }
+      return null;
+    },
+  };
+};
+
+/**
+ * Provider picked from the environment: `GEOIP_PROVIDER=stub` for the fixed
+ * stub, otherwise the CSV database at `GEOIP_DATABASE_PATH` when set.
+ * Without either, locations are reported as unknown.
+ */
+export const geoIpProviderFromEnv = (env: Record<string, string | undefined> = process.env): GeoIpProvider | null => {
+  if (env.GEOIP_PROVIDER === 'stub') return createStubGeoIpProvider();
+  if (env.GEOIP_DATABASE_PATH) return createCsvGeoIpProvider(env.GEOIP_DATABASE_PATH);
+  return null;
+};
+
+/** Resolves the location of an IP, degrading to "Unknown" on any provider failure. */
+export const lookupLocation = async (provider: GeoIpProvider | null, ip: string | undefined): Promise<GeoLocation> => {
+  if (!provider || !ip) return UNKNOWN_LOCATION;
+  try {
+    return (await provider.lookup(ip)) ?? UNKNOWN_LOCATION;
+  } catch (err) {
+    console.error('GeoIP lookup failed', err);
+    return UNKNOWN_LOCATION;
+  }
+};
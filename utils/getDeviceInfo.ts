@@ -1,20 +1,14 @@
+import { APP_VERSION } from '@/utils/onePulseClient';
+import { DeviceType, OsInfo, parseUserAgent, refineWithClientHints, UNKNOWN } from '@/utils/userAgent';
 
-
-export interface GeoLocation {
-  city: string;
-  country: string;
-  lat: string;
-  lon: string;
-}
-
+// IP address and geolocation are not part of this: the proxy resolves them
+// server-side (see utils/geoip.ts) and adds them to the device session.
 export interface DeviceInfoPayload {
   app_version: string;
   cpu_cores: number;
   device_id: string;
-  device_type: string;
+  device_type: DeviceType;
   fingerprint: string;
-  geo_location: GeoLocation;
-  ip_address: string;
   locale: string;
   os_name: string;
   os_version: string;
@@ -26,10 +20,8 @@ export interface DeviceInfoPayload {
   viewport_height: number;
 }
 
-
-
-
-const getOrGenerateDeviceId = (): string => {
+/** This browser's random device id, created on first use. */
+export const getOrGenerateDeviceId = (): string => {
   if (typeof window === 'undefined') return '';
   let id = localStorage.getItem('device_id');
   if (!id) {
@@ -39,15 +31,35 @@ const getOrGenerateDeviceId = (): string => {
   return id;
 };
 
-const getOS = (userAgent: string): { name: string; version: string } => {
-  let name = "Unknown";
-  if (userAgent.indexOf("Win") !== -1) name = "Windows";
-  else if (userAgent.indexOf("Mac") !== -1) name = "MacOS";
-  else if (userAgent.indexOf("Linux") !== -1) name = "Linux";
-  else if (userAgent.indexOf("Android") !== -1) name = "Android";
-  else if (userAgent.indexOf("like Mac") !== -1) name = "iOS";
+const hasTouchSupport = (): boolean =>
+  navigator.maxTouchPoints > 0 ||
+  'ontouchstart' in window ||
+  window.matchMedia?.('(pointer: coarse)').matches === true;
 
-  return { name, version: "Unknown" }; 
+const sha256Hex = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Hashes signals that survive reloads, rotations and app updates. The random
+// device id and the full UA (which changes with every browser or Telegram
+// update) are deliberately left out.
+const computeFingerprint = (os: OsInfo, telegramPlatform: string | undefined): Promise<string> => {
+  const { width, height, colorDepth } = window.screen;
+  const signals = [
+    os.name,
+    os.deviceType,
+    telegramPlatform ?? UNKNOWN,
+    navigator.hardwareConcurrency ?? 0,
+    (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 0,
+    navigator.maxTouchPoints ?? 0,
+    // Sorted so portrait and landscape give the same value.
+    [width, height].sort((x, y) => x - y).join('x'),
+    colorDepth,
+    window.devicePixelRatio || 1,
+    Intl.DateTimeFormat().resolvedOptions().timeZone,
+  ];
+  return sha256Hex(signals.join('|'));
 };
 
 export const getDeviceInfo = async (): Promise<DeviceInfoPayload> => {
@@ -55,61 +67,25 @@ export const getDeviceInfo = async (): Promise<DeviceInfoPayload> => {
     throw new Error("Device info can only be fetched on the client side");
   }
 
-  // 1. Fetch IP Data
-  let ipData = { ip: '0.0.0.0', city: 'Unknown', country_name: 'Unknown', latitude: 0, longitude: 0 };
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 2000); // 2s timeout
-    
-    // We try to fetch, but we CATCH failures so the app doesn't crash
-    const res = await fetch('https://ipapi.co/json/', { signal: controller.signal })
-      .catch(() => null); 
-      
-    clearTimeout(timeoutId);
-
-    if (res && res.ok) {
-        const json = await res.json().catch(() => null);
-        if (json) ipData = json;
-    }
-  } catch (e) {
-    console.warn("IP fetch failed safely, using defaults.");
-  }
-
-
   const ua = navigator.userAgent;
-  const osInfo = getOS(ua);
+  const telegramPlatform = window.Telegram?.WebApp?.platform;
+  const os = await refineWithClientHints(parseUserAgent(ua, telegramPlatform));
   const deviceId = getOrGenerateDeviceId();
-  
-  
-  // We use `> 0` to convert to boolean safely.
-  const hasTouch = (navigator.maxTouchPoints || 0) > 0;
 
   return {
-    app_version: "1.0.0",
+    app_version: APP_VERSION,
     cpu_cores: navigator.hardwareConcurrency || 2,
     device_id: deviceId,
-    device_type: /Mobi|Android/i.test(ua) ? "mobile" : "desktop",
-    fingerprint: btoa(`${deviceId}-${ua}-${window.screen.width}`).slice(0, 16),
-    geo_location: {
-      city: ipData.city || "Unknown",
-      country: ipData.country_name || "Unknown",
-      lat: String(ipData.latitude || 0),
-      lon: String(ipData.longitude || 0)
-    },
-    ip_address: ipData.ip || "0.0.0.0",
+    device_type: os.deviceType,
+    fingerprint: await computeFingerprint(os, telegramPlatform),
     locale: navigator.language || "en-US",
-    os_name: osInfo.name,
-    os_version: osInfo.version,
+    os_name: os.name,
+    os_version: os.version,
     pixel_ratio: window.devicePixelRatio || 1,
     screen_resolution: `${window.screen.width}x${window.screen.height}`,
     timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-    
-    // Try sending 'true' temporarily. If this works, your backend has a bug 
-    //  touch_support: hasTouch,
-    touch_support: true, 
-    
+    touch_support: hasTouchSupport(),
     user_agent: ua,
     viewport_height: window.innerHeight
   };
 };
-
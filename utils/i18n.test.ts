@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { closingBrace, formatMessage, LOCALES, Locale, MessageKey, parseOptions, translate } from '@/utils/i18n';
+import { en } from '@/utils/messages/en';
+import { am } from '@/utils/messages/am';
+import { om } from '@/utils/messages/om';
+import { ti } from '@/utils/messages/ti';
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, am, om, ti };
+
+/**
+ * What a translation has to keep from the source message: every argument,
+ * and for plural/select arguments their branch selectors. Plural category
+ * branches (`one`, `few`, …) are listed as `plural`, since each language has
+ * its own; explicit `=N` branches are kept as is.
+ */
+const shapeOf = (pattern: string): string[] => {
+  const shape = new Set<string>();
+  let i = 0;
+  while (i < pattern.length) {
+    if (pattern[i] === '}') throw new Error(`unbalanced braces in "${pattern}"`);
+    if (pattern[i] !== '{') { i++; continue; }
+    const close = closingBrace(pattern, i);
+    if (close === -1) throw new Error(`unbalanced braces in "${pattern}"`);
+    const [name, type, ...rest] = pattern.slice(i + 1, close).split(',');
+    shape.add(`{${name.trim()}}`);
+    if (type?.trim() === 'plural' || type?.trim() === 'select') {
+      for (const [selector, branch] of Object.entries(parseOptions(rest.join(',')))) {
+        const plural = type.trim() === 'plural' && !selector.startsWith('=');
+        shape.add(`${name.trim()}:${plural ? 'plural' : selector}`);
+        shapeOf(branch).forEach((part) => shape.add(part));
+      }
+    }
+    i = close + 1;
+  }
+  return [...shape].sort();
+};
+
+// Plural category selectors used by each argument of a message.
+const pluralCategoriesOf = (pattern: string): Record<string, string[]> => {
+  const categories: Record<string, string[]> = {};
+  for (const match of pattern.matchAll(/\{\s*(\w+)\s*,\s*plural\s*,/g)) {
+    const start = match.index;
+    const body = pattern.slice(start + match[0].length, closingBrace(pattern, start));
+    categories[match[1]] = Object.keys(parseOptions(body)).filter((selector) => !selector.startsWith('=')).sort();
+  }
+  return categories;
+};
+
+describe('message catalogs', () => {
+  const keys = Object.keys(en) as MessageKey[];
+
+  it.each(LOCALES.filter((locale) => locale !== 'en'))('%s keeps the arguments and branches of every English message', (locale) => {
+    const mismatches = keys
+      .filter((key) => shapeOf(CATALOGS[locale][key]).join() !== shapeOf(en[key]).join())
+      .map((key) => ({ key, en: shapeOf(en[key]), [locale]: shapeOf(CATALOGS[locale][key]) }));
+    expect(mismatches).toEqual([]);
+  });
+
+  it.each(LOCALES)('%s gives every plural the categories its language uses', (locale) => {
+    const expected = [...new Intl.PluralRules(locale).resolvedOptions().pluralCategories].sort();
+    const mismatches = keys.flatMap((key) =>
+      Object.entries(pluralCategoriesOf(CATALOGS[locale][key]))
+        .filter(([, categories]) => categories.join() !== expected.join())
+        .map(([argument, categories]) => ({ key, argument, categories })));
+    expect(mismatches).toEqual([]);
+  });
+});
+
+describe('formatMessage', () => {
+  it('substitutes arguments, formatting numbers for the locale', () => {
+    expect(formatMessage('Account {number}', { number: '•••• 6799' }, 'en')).toBe('Account •••• 6799');
+    expect(formatMessage('{amount} ETB', { amount: 12500 }, 'en')).toBe('12,500 ETB');
+    expect(formatMessage('Hello {name}', {}, 'en')).toBe('Hello {name}');
+  });
+
+  it('picks plural and select branches', () => {
+    const message = '{count, plural, =0 {none} one {# item} other {# items}}';
+    expect([0, 1, 2].map((count) => formatMessage(message, { count }, 'en'))).toEqual(['none', '1 item', '2 items']);
+    const select = '{method, select, face {Face ID} other {{method}}}';
+    expect(formatMessage(select, { method: 'face' }, 'en')).toBe('Face ID');
+    expect(formatMessage(select, { method: 'Touch ID' }, 'en')).toBe('Touch ID');
+  });
+
+  it.each<[Locale, string, string]>([
+    ['en', '1 attempt remaining', '3 attempts remaining'],
+    ['am', '1 ሙከራ ቀርቷል', '3 ሙከራዎች ቀርተዋል'],
+    ['om', 'Yaaliin 1 hafeera', 'Yaaliiwwan 3 hafaniiru'],
+    ['ti', '1 ፈተነ ተሪፉ', '3 ፈተነታት ተሪፎም'],
+  ])('formats plurals in %s', (locale, one, other) => {
+    expect(translate(locale, 'attempts.remaining', { count: 1 })).toBe(one);
+    expect(translate(locale, 'attempts.remaining', { count: 3 })).toBe(other);
+  });
+
+  it.each(LOCALES)('fills every placeholder of a %s message', (locale) => {
+    const message = translate(locale, 'phone.error.invalidLength', { country: 'Ethiopia', digits: 9, dialCode: '251' });
+    expect(message).toContain('Ethiopia');
+    expect(message).toContain('9');
+    expect(message).not.toMatch(/[{}]/);
+  });
+});
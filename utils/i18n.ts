@@ -0,0 +1,152 @@
+import { en } from '@/utils/messages/en';
+import { am } from '@/utils/messages/am';
+import { om } from '@/utils/messages/om';
+import { ti } from '@/utils/messages/ti';
+
+// Message catalogs and locale-aware formatting. English is the source
+// catalog; the others are typed against its keys, so a missing or stray key
+// fails the type check.
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+export type MessageArgs = Record<string, string | number>;
+
+// --- LOCALES ---
+
+export type Locale = 'en' | 'am' | 'om' | 'ti';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Messages> = { en, am, om, ti };
+
+// Shown in the language switcher, each in its own language.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  am: 'አማርኛ',
+  om: 'Afaan Oromoo',
+  ti: 'ትግርኛ',
+};
+
+export const LOCALES = Object.keys(LOCALE_NAMES) as Locale[];
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && value in CATALOGS;
+
+/**
+ * Picks the first supported locale from `candidates` (most preferred first).
+ * Each candidate matches exactly or by its base language (`am-ET` → `am`);
+ * English is used when none match.
+ */
+export const resolveLocale = (candidates: readonly (string | null | undefined)[]): Locale => {
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const tag = candidate.toLowerCase().replace('_', '-');
+    if (isLocale(tag)) return tag;
+    const base = tag.split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+// --- FORMATTING ---
+
+/** Like `Intl.NumberFormat`, in the given locale. */
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+/** Like `Intl.DateTimeFormat`, in the given locale. Returns `''` for invalid dates. */
+export const formatDate = (locale: Locale, date: Date | string | number, options?: Intl.DateTimeFormatOptions): string => {
+  const value = date instanceof Date ? date : new Date(date);
+  return Number.isNaN(value.getTime()) ? '' : new Intl.DateTimeFormat(locale, options).format(value);
+};
+
+/** The country's name in the given locale, or `fallback` when the runtime has no name for it. */
+export const formatRegion = (locale: Locale, regionCode: string, fallback: string): string => {
+  try {
+    const name = new Intl.DisplayNames([locale], { type: 'region', fallback: 'none' }).of(regionCode);
+    return name ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+const pluralCategory = (locale: Locale, count: number): string => {
+  let rules = pluralRules.get(locale);
+  if (!rules) { rules = new Intl.PluralRules(locale); pluralRules.set(locale, rules); }
+  return rules.select(count);
+};
+
+/** Index of the `}` closing the `{` at `start`, or -1 when it is unbalanced. */
+export const closingBrace = (pattern: string, start: number): number => {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    if (pattern[i] === '{') depth++;
+    else if (pattern[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+/** Reads `selector {pattern}` pairs, e.g. `=0 {none} one {# item} other {# items}`. */
+export const parseOptions = (source: string): Record<string, string> => {
+  const options: Record<string, string> = {};
+  let i = 0;
+  while (i < source.length) {
+    const open = source.indexOf('{', i);
+    if (open === -1) break;
+    const close = closingBrace(source, open);
+    if (close === -1) break;
+    options[source.slice(i, open).trim()] = source.slice(open + 1, close);
+    i = close + 1;
+  }
+  return options;
+};
+
+const formatArgument = (body: string, args: MessageArgs, locale: Locale): string => {
+  const [name, type, ...rest] = body.split(',');
+  const value = args[name.trim()];
+  if (value === undefined) return `{${body}}`;
+
+  switch (type?.trim()) {
+    case 'plural': {
+      const count = Number(value);
+      const options = parseOptions(rest.join(','));
+      const branch = options[`=${count}`] ?? options[pluralCategory(locale, count)] ?? options.other ?? '';
+      return formatPattern(branch, args, locale, formatNumber(locale, count));
+    }
+    case 'select': {
+      const options = parseOptions(rest.join(','));
+      return formatPattern(options[String(value)] ?? options.other ?? '', args, locale);
+    }
+    default:
+      return typeof value === 'number' ? formatNumber(locale, value) : value;
+  }
+};
+
+// `count` replaces `#` inside a plural branch.
+const formatPattern = (pattern: string, args: MessageArgs, locale: Locale, count?: string): string => {
+  let result = '';
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === '#' && count !== undefined) { result += count; i++; continue; }
+    const close = char === '{' ? closingBrace(pattern, i) : -1;
+    if (close === -1) { result += char; i++; continue; }
+    result += formatArgument(pattern.slice(i + 1, close), args, locale);
+    i = close + 1;
+  }
+  return result;
+};
+
+/**
+ * Formats an ICU message: `{name}` arguments (numbers are formatted for the
+ * locale), `{n, plural, =0 {…} one {# …} other {# …}}` and
+ * `{x, select, a {…} other {…}}`. Quoting with apostrophes is not supported.
+ */
+export const formatMessage = (message: string, args: MessageArgs, locale: Locale): string =>
+  formatPattern(message, args, locale);
+
+/** The message for `key` in `locale`, falling back to English. */
+export const translate = (locale: Locale, key: MessageKey, args: MessageArgs = {}): string =>
+  formatMessage(CATALOGS[locale][key] ?? en[key], args, locale);
@@ -0,0 +1,145 @@
+// Prepares KYC photos on the device before upload. Images are downscaled and
+// re-encoded as JPEG, which also drops their EXIF data (camera model, GPS
+// position). A small grayscale copy is checked for blur and glare, so a bad
+// photo is retaken here instead of being rejected in review.
+
+export const MAX_IMAGE_DIMENSION = 1600;
+// Below this on the short side, document text is not legible.
+export const MIN_IMAGE_DIMENSION = 600;
+export const MAX_INPUT_BYTES = 20 * 1024 * 1024;
+const JPEG_QUALITY = 0.85;
+
+// Quality checks run on a copy no larger than this.
+const ANALYSIS_DIMENSION = 512;
+// Variance of the Laplacian below this reads as out of focus.
+export const BLUR_THRESHOLD = 60;
+// Share of blown-out pixels above this reads as glare.
+export const GLARE_THRESHOLD = 0.04;
+const GLARE_LUMINANCE = 250;
+
+export type ImageIssue = 'blurry' | 'glare' | 'low-resolution';
+
+export interface ImageQuality {
+  // Variance of the Laplacian; higher is sharper.
+  sharpness: number;
+  // Share of pixels at or above GLARE_LUMINANCE.
+  glareRatio: number;
+  issues: ImageIssue[];
+}
+
+export interface PreparedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  quality: ImageQuality;
+}
+
+export type PrepareImageResult =
+  | { ok: true; image: PreparedImage }
+  | { ok: false; error: 'unreadable' | 'too-large' };
+
+export interface QualityChecks {
+  // Selfies are only checked for blur: a bright background is not glare.
+  glare?: boolean;
+}
+
+// --- QUALITY ---
+
+interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const toGrayscale = ({ data, width, height }: Pixels): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+// Sharp edges give a Laplacian with large values of both signs; blur flattens it.
+const laplacianVariance = (gray: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += value;
+      sumOfSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+};
+
+/** Blur and glare measurements of RGBA pixels (e.g. canvas `ImageData`). */
+export const assessImageQuality = (pixels: Pixels, checks: QualityChecks = {}): ImageQuality => {
+  const gray = toGrayscale(pixels);
+  const sharpness = laplacianVariance(gray, pixels.width, pixels.height);
+  let blownOut = 0;
+  for (const value of gray) if (value >= GLARE_LUMINANCE) blownOut++;
+  const glareRatio = gray.length ? blownOut / gray.length : 0;
+
+  const issues: ImageIssue[] = [];
+  if (sharpness < BLUR_THRESHOLD) issues.push('blurry');
+  if (checks.glare !== false && glareRatio > GLARE_THRESHOLD) issues.push('glare');
+  return { sharpness, glareRatio, issues };
+};
+
+// --- PREPARATION ---
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const fitWithin = (width: number, height: number, max: number) => {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const toJpeg = (canvas: HTMLCanvasElement): Promise<Blob | null> =>
+  new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+
+/**
+ * Downscales a captured or uploaded photo to MAX_IMAGE_DIMENSION, re-encodes
+ * it as EXIF-free JPEG and measures its quality. The EXIF orientation is
+ * applied first, so the result is upright.
+ */
+export const prepareKycImage = async (file: Blob, checks: QualityChecks = {}): Promise<PrepareImageResult> => {
+  if (file.size > MAX_INPUT_BYTES) return { ok: false, error: 'too-large' };
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    return { ok: false, error: 'unreadable' };
+  }
+
+  try {
+    const size = fitWithin(bitmap.width, bitmap.height, MAX_IMAGE_DIMENSION);
+    const canvas = createCanvas(size.width, size.height);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, size.width, size.height);
+    const blob = await toJpeg(canvas);
+    if (!blob) return { ok: false, error: 'unreadable' };
+
+    const analysisSize = fitWithin(bitmap.width, bitmap.height, ANALYSIS_DIMENSION);
+    const analysis = createCanvas(analysisSize.width, analysisSize.height);
+    const context = analysis.getContext('2d', { willReadFrequently: true })!;
+    context.drawImage(bitmap, 0, 0, analysisSize.width, analysisSize.height);
+    const quality = assessImageQuality(context.getImageData(0, 0, analysisSize.width, analysisSize.height), checks);
+    if (Math.min(bitmap.width, bitmap.height) < MIN_IMAGE_DIMENSION) quality.issues.push('low-resolution');
+
+    return { ok: true, image: { blob, width: size.width, height: size.height, quality } };
+  } finally {
+    bitmap.close();
+  }
+};
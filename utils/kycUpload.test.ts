@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createKycUploader, KycImages } from '@/utils/kycUpload';
+import type { OnePulseClient } from '@/utils/onePulseClient';
+
+const ack = { success: true };
+
+// Records the calls; chunk uploads fail while `failChunks` is set.
+const fakeClient = () => {
+  let nextId = 0;
+  const state = { failChunks: false };
+  const client = {
+    startKycUpload: vi.fn(async () => ({ success: true, data: { upload_id: `upload-${++nextId}` } })),
+    uploadKycChunk: vi.fn(async ({ upload_id }: { upload_id: string }) => {
+      if (state.failChunks && upload_id !== 'upload-1' && upload_id !== 'upload-2') throw new TypeError('Failed to fetch');
+      return ack;
+    }),
+    completeKycUpload: vi.fn(async () => ack),
+    submitKyc: vi.fn(async () => ({ success: true, data: { kyc_status: 'SUBMITTED' } })),
+  };
+  return { client, state, api: client as unknown as OnePulseClient };
+};
+
+const image = (bytes: number) => new Blob([new Uint8Array(bytes)], { type: 'image/jpeg' });
+
+describe('createKycUploader', () => {
+  const images: KycImages = { front: image(1_000), back: image(1_000), selfie: image(2_000) };
+
+  it('resumes a failed submit without uploading finished images again', async () => {
+    const { client, state, api } = fakeClient();
+    const uploader = createKycUploader(api, '42');
+
+    state.failChunks = true;
+    await expect(uploader.submit('national-id', images)).rejects.toThrow();
+    state.failChunks = false;
+
+    const progress: number[] = [];
+    expect(await uploader.submit('national-id', images, (fraction) => progress.push(fraction))).toBe('SUBMITTED');
+    expect(client.startKycUpload).toHaveBeenCalledTimes(3);
+    expect(progress[0]).toBe(0.5);
+    expect(progress.at(-1)).toBe(1);
+  });
+
+  // The earlier front and back uploads belong to another document type, so they restart.
+  it('restarts, and counts once, images uploaded for another document type', async () => {
+    const { client, state, api } = fakeClient();
+    const uploader = createKycUploader(api, '42');
+
+    state.failChunks = true;
+    await expect(uploader.submit('national-id', images)).rejects.toThrow();
+    state.failChunks = false;
+
+    const progress: number[] = [];
+    await uploader.submit('drivers-license', images, (fraction) => progress.push(fraction));
+    expect(client.startKycUpload).toHaveBeenCalledTimes(6);
+    expect(progress[0]).toBe(0);
+    expect(Math.max(...progress)).toBe(1);
+    expect(progress.at(-1)).toBe(1);
+  });
+});
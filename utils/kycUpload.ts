@@ -0,0 +1,141 @@
+import type { OnePulseClient } from '@/utils/onePulseClient';
+
+// KYC documents and their upload. Each image is sent in chunks as
+// multipart/form-data, so a dropped connection only costs the current chunk:
+// failed chunks are retried by the client, and a later `submit` with the same
+// images continues where the last one stopped.
+
+export type KycDocumentType = 'national-id' | 'passport' | 'drivers-license';
+export type KycSide = 'front' | 'back' | 'selfie';
+
+export const KYC_DOCUMENT_TYPES: KycDocumentType[] = ['national-id', 'passport', 'drivers-license'];
+
+// Passports only have a photo page.
+const DOCUMENT_SIDES: Record<KycDocumentType, KycSide[]> = {
+  'national-id': ['front', 'back', 'selfie'],
+  'passport': ['front', 'selfie'],
+  'drivers-license': ['front', 'back', 'selfie'],
+};
+
+const BACKEND_DOCUMENT_TYPES: Record<KycDocumentType, string> = {
+  'national-id': 'NATIONAL_ID',
+  'passport': 'PASSPORT',
+  'drivers-license': 'DRIVERS_LICENSE',
+};
+
+/** Images needed for the document type, selfie included. */
+export const requiredSides = (documentType: KycDocumentType): KycSide[] => DOCUMENT_SIDES[documentType];
+
+export const KYC_CHUNK_SIZE = 256 * 1024;
+
+export type KycImages = Partial<Record<KycSide, Blob>>;
+
+interface UploadState {
+  blob: Blob;
+  documentType: KycDocumentType;
+  uploadId: string;
+  // Chunks the backend has acknowledged, in order.
+  uploadedChunks: number;
+  completed: boolean;
+}
+
+const sha256Hex = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const chunkCount = (blob: Blob) => Math.max(1, Math.ceil(blob.size / KYC_CHUNK_SIZE));
+
+// An earlier upload carries on only for the same image of the same document type.
+const resumes = (upload: UploadState | undefined, documentType: KycDocumentType, blob: Blob): upload is UploadState =>
+  !!upload && upload.blob === blob && upload.documentType === documentType;
+
+/**
+ * Uploads and submits KYC images for one user. Progress of finished uploads
+ * is kept between calls, so retrying after a failure resumes instead of
+ * starting over; an image that was replaced is uploaded again.
+ */
+export const createKycUploader = (client: OnePulseClient, telegramId: string) => {
+  const uploads = new Map<KycSide, UploadState>();
+
+  const uploadImage = async (
+    documentType: KycDocumentType,
+    side: KycSide,
+    blob: Blob,
+    onChunk: (bytes: number) => void,
+  ): Promise<string> => {
+    let upload = uploads.get(side);
+    if (!resumes(upload, documentType, blob)) {
+      const started = await client.startKycUpload({
+        document_type: BACKEND_DOCUMENT_TYPES[documentType],
+        side: side.toUpperCase(),
+        content_type: blob.type || 'image/jpeg',
+        size_bytes: blob.size,
+        chunk_count: chunkCount(blob),
+        telegram_id: telegramId,
+      });
+      upload = { blob, documentType, uploadId: started.data.upload_id, uploadedChunks: 0, completed: false };
+      uploads.set(side, upload);
+    }
+
+    const total = chunkCount(blob);
+    for (let index = upload.uploadedChunks; index < total; index++) {
+      const chunk = blob.slice(index * KYC_CHUNK_SIZE, (index + 1) * KYC_CHUNK_SIZE);
+      await client.uploadKycChunk({ upload_id: upload.uploadId, index, chunk, telegram_id: telegramId });
+      upload.uploadedChunks = index + 1;
+      onChunk(chunk.size);
+    }
+
+    if (!upload.completed) {
+      await client.completeKycUpload({ upload_id: upload.uploadId, sha256: await sha256Hex(blob), telegram_id: telegramId });
+      upload.completed = true;
+    }
+    return upload.uploadId;
+  };
+
+  /**
+   * Uploads every image the document type needs and submits them for review.
+   * `onProgress` receives the uploaded share of all bytes, from 0 to 1.
+   * Resolves with the KYC status the backend reports afterwards.
+   */
+  const submit = async (
+    documentType: KycDocumentType,
+    images: KycImages,
+    onProgress: (fraction: number) => void = () => {},
+  ): Promise<string> => {
+    const sides = requiredSides(documentType);
+    const blobs = sides.map((side) => {
+      const blob = images[side];
+      if (!blob) throw new Error(`Missing KYC image: ${side}`);
+      return blob;
+    });
+
+    const totalBytes = blobs.reduce((sum, blob) => sum + blob.size, 0);
+    // Chunks already acknowledged in an earlier try count as done, unless that upload is restarted.
+    let uploadedBytes = sides.reduce((sum, side, i) => {
+      const upload = uploads.get(side);
+      return resumes(upload, documentType, blobs[i]) ? sum + Math.min(upload.uploadedChunks * KYC_CHUNK_SIZE, blobs[i].size) : sum;
+    }, 0);
+    const report = () => onProgress(totalBytes ? Math.min(uploadedBytes / totalBytes, 1) : 1);
+    report();
+
+    const uploadIds: Partial<Record<KycSide, string>> = {};
+    for (const [i, side] of sides.entries()) {
+      uploadIds[side] = await uploadImage(documentType, side, blobs[i], (bytes) => { uploadedBytes += bytes; report(); });
+    }
+
+    const result = await client.submitKyc({
+      document_type: BACKEND_DOCUMENT_TYPES[documentType],
+      front_upload_id: uploadIds.front!,
+      back_upload_id: uploadIds.back,
+      selfie_upload_id: uploadIds.selfie!,
+      telegram_id: telegramId,
+    });
+    uploads.clear();
+    return result.data.kyc_status;
+  };
+
+  return { submit };
+};
+
+export type KycUploader = ReturnType<typeof createKycUploader>;
@@ -0,0 +1,50 @@
+import { ProductValidationPayload } from '@/types/user';
+import { errorBody } from '@/utils/attemptFailure';
+import { OnePulseApiError } from '@/utils/onePulseClient';
+
+// Bank accounts linked during registration. Each account is verified and
+// product-validated on its own; one eligible account is the primary account
+// OnePulse registers against.
+
+export interface LinkedAccount {
+  accountNumber: string;
+  bankName: string;
+  customerId: string;
+  customerName: string;
+  productCode: string;
+  productName: string;
+  // From verifyCustomer; the configured defaults apply when absent.
+  customerGroup?: string;
+  tierGroup?: string;
+  // Unset until product validation answered.
+  eligible?: boolean;
+  // Backend's explanation for an ineligible account.
+  ineligibleReason?: string;
+}
+
+// --- PRODUCT VALIDATION ---
+
+// Channel this app validates products for, and defaults for customers the
+// backend returns no group or tier for.
+export const PRODUCT_CHANNEL = process.env.NEXT_PUBLIC_PRODUCT_CHANNEL || 'ussd';
+export const DEFAULT_CUSTOMER_GROUP = process.env.NEXT_PUBLIC_DEFAULT_CUSTOMER_GROUP || 'noncorporate';
+export const DEFAULT_TIER_GROUP = process.env.NEXT_PUBLIC_DEFAULT_TIER_GROUP || '1';
+
+export const productValidationPayload = (account: LinkedAccount): ProductValidationPayload => ({
+  channel: PRODUCT_CHANNEL,
+  customer_group: account.customerGroup || DEFAULT_CUSTOMER_GROUP,
+  product_code: account.productCode,
+  tier_group: account.tierGroup || DEFAULT_TIER_GROUP,
+});
+
+/**
+ * The backend's reason when product validation rejected the account's
+ * product (`''` if it gave none). Returns `null` for any other failure,
+ * which the flow treats as a regular error.
+ */
+export const ineligibleReasonFrom = (err: unknown): string | null => {
+  if (!(err instanceof OnePulseApiError) || err.endpoint !== '/api/v1/product-validation') return null;
+  const body = errorBody(err);
+  if (body.code !== 'PRODUCT_INELIGIBLE') return null;
+  return typeof body.message === 'string' ? body.message : '';
+};
@@ -0,0 +1,14 @@
+import { getStoredItem, setStoredItem } from '@/utils/cloudStorage';
+import { isLocale, Locale } from '@/utils/i18n';
+
+// The language picked in the app. Kept in Telegram CloudStorage so it follows
+// the user across devices; without one the launch language is used.
+
+const STORAGE_KEY = 'locale';
+
+export const loadLocalePreference = async (): Promise<Locale | null> => {
+  const stored = await getStoredItem(STORAGE_KEY);
+  return isLocale(stored) ? stored : null;
+};
+
+export const saveLocalePreference = (locale: Locale): Promise<void> => setStoredItem(STORAGE_KEY, locale);
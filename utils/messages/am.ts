@@ -0,0 +1,229 @@
+import type { Messages } from '@/utils/i18n';
+
+// Amharic.
+
+export const am: Messages = {
+  // --- COMMON ---
+  'common.back': 'ተመለስ',
+  'common.continue': 'ቀጥል',
+  'common.next': 'ቀጣይ',
+  'common.tryAgain': 'እንደገና ሞክር',
+  'common.contactSupport': 'የደንበኛ አገልግሎትን ያግኙ',
+  'common.sending': 'በመላክ ላይ…',
+  'language.label': 'ቋንቋ',
+
+  // --- STARTUP ---
+  'init.loading': 'መተግበሪያውን በማስጀመር ላይ...',
+  'init.waiting': 'የቴሌግራም ሚኒ አፕ መረጃን በመጠባበቅ ላይ…',
+  'init.waitingHint': 'ይህ ገጽ ከቀጠለ ቦቱን ከቴሌግራም የምናሌ ቁልፍ ይክፈቱ።',
+  'environment.title': 'የማይደገፍ አካባቢ',
+  'environment.message': 'እባክዎ ይህንን በቴሌግራም መተግበሪያ ውስጥ ይክፈቱ።',
+
+  // --- LOADING ---
+  'loading.processing': 'በሂደት ላይ...',
+  'loading.checking': 'መለያዎን በማረጋገጥ ላይ...',
+  'loading.savingContact': 'የመገኛ መረጃን በማስቀመጥ ላይ...',
+  'loading.startingSession': 'ደህንነቱ የተጠበቀ ክፍለ ጊዜ በመጀመር ላይ...',
+  'loading.verifyingDevice': 'የመሳሪያውን ደህንነት በማረጋገጥ ላይ...',
+  'loading.verifyingCode': 'ኮዱን በማረጋገጥ ላይ...',
+  'loading.verifyingAccount': 'የባንክ ሂሳቡን በማረጋገጥ ላይ...',
+  'loading.validatingProduct': 'የአገልግሎት ብቁነትን በማረጋገጥ ላይ...',
+  'loading.securingPin': 'ፒኑን በመጠበቅ ላይ...',
+  'loading.finalizing': 'ምዝገባውን በማጠናቀቅ ላይ...',
+  'loading.securingDevice': 'አዲሱን መሳሪያ በመጠበቅ ላይ...',
+  'loading.unlocking': 'በመክፈት ላይ...',
+  'loading.confirmingIdentity': 'እርስዎ መሆንዎን በማረጋገጥ ላይ...',
+  'loading.enablingBiometrics': 'የባዮሜትሪክ መክፈቻን በማዘጋጀት ላይ...',
+  'loading.uploadingDocuments': 'ሰነዶችዎን በመጫን ላይ...',
+  'loading.waitingForConnection': 'ግንኙነትን በመጠባበቅ ላይ...',
+  'loading.offline': 'ከመስመር ውጭ ይመስላሉ። መስመር ላይ ሲመለሱ በራስ-ሰር እንቀጥላለን።',
+
+  // --- REGISTRATION ---
+  'idVerified.title': 'መታወቂያ በተሳካ ሁኔታ ተረጋግጧል',
+  'idVerified.message': 'የቴሌግራም ማንነትዎ ተረጋግጧል።',
+  'idVerified.unfinished': 'ያልተጠናቀቀ ምዝገባ አለዎት። ቀጣዩ ደረጃ:',
+  'idVerified.resume': 'ምዝገባውን ቀጥል',
+  'idVerified.startOver': 'እንደገና ጀምር',
+  'resume.otpEntry': 'የማግበሪያ ኮድዎን ያስገቡ',
+  'resume.accountEntry': 'የባንክ ሂሳብዎን ያገናኙ',
+  'resume.pinSetup': 'ፒንዎን ያዘጋጁ',
+  'resume.confirmPhone': 'ለመቀጠል የጀመሩበትን ስልክ ቁጥር ({hint}) ያስገቡ።',
+  'resume.confirmAccount': 'ያገናኙትን የሂሳብ ቁጥር ({hint}) ያስገቡ።',
+  'resume.error.phoneMismatch': 'ይህ የጀመሩበት ስልክ ቁጥር አይደለም።',
+  'resume.error.accountMismatch': 'ይህ ያገናኙት የሂሳብ ቁጥር አይደለም።',
+
+  'phone.title': 'አድራሻ ያጋሩ',
+  'phone.contactSubtitle': 'ለመቀጠል ከቴሌግራም መለያዎ ጋር የተገናኘውን ስልክ ቁጥር ያጋሩ።',
+  'phone.manualSubtitle': 'ምዝገባውን ለማጠናቀቅ ስልክ ቁጥርዎን ያስገቡ።',
+  'phone.share': 'ስልክ ቁጥር አጋራ',
+  'phone.enterManually': 'ቁጥሩን በእጅ ያስገቡ',
+  'phone.shareInstead': 'በምትኩ ከቴሌግራም ያጋሩ',
+  'phone.contactDeclined': 'አድራሻ ማጋራት ተሰርዟል። በምትኩ ቁጥርዎን መጻፍ ይችላሉ።',
+  'phone.country': 'አገር',
+  'phone.error.empty': 'ስልክ ቁጥርዎን ያስገቡ።',
+  'phone.error.invalidCharacters': 'ስልክ ቁጥር አሃዞችን ብቻ መያዝ ይችላል።',
+  'phone.error.unsupportedCountry': 'ከዚህ አገር የሚመጡ ቁጥሮች ገና አይደገፉም።',
+  'phone.error.invalidLength': 'የ{country} ሞባይል ቁጥሮች ከ+{dialCode} በኋላ {digits} አሃዞች አሏቸው።',
+  'phone.error.invalidLengthGeneric': 'ይህ ስልክ ቁጥር የተሳሳተ የአሃዝ ብዛት አለው።',
+  'phone.error.invalidPrefix': 'ይህ ትክክለኛ የ{country} ሞባይል ቁጥር አይደለም።',
+  'phone.error.invalidPrefixGeneric': 'ይህ ትክክለኛ የሞባይል ቁጥር አይደለም።',
+
+  'otp.title': 'ኮድ ያስገቡ',
+  'otp.sentTo': 'የማግበሪያ ኮድ ልከናል ወደ',
+  'otp.registeredPhone': 'የተመዘገበው ስልክ ቁጥርዎ',
+  'otp.verify': 'አረጋግጥ',
+  'otp.resend': 'ኮዱን እንደገና ላክ',
+  'otp.resendIn': '{seconds, plural, one {ኮዱን በ# ሰከንድ ውስጥ እንደገና ይላኩ} other {ኮዱን በ# ሰከንዶች ውስጥ እንደገና ይላኩ}}',
+  'otp.inputLabel': 'የማግበሪያ ኮድ',
+  'otp.digitLabel': 'አሃዝ {position}',
+  'rebind.title': 'አዲሱን መሳሪያ ያረጋግጡ',
+  'rebind.sentTo': 'OnePulseን በዚህ መሳሪያ ላይ ለመጠቀም የላክነውን ኮድ ያስገቡ፤ የተላከው ወደ',
+  'attempts.locked': 'በጣም ብዙ የተሳሳቱ ሙከራዎች። ከ{time} በኋላ እንደገና ይሞክሩ።',
+  'attempts.remaining': '{count, plural, one {# ሙከራ ቀርቷል} other {# ሙከራዎች ቀርተዋል}}',
+
+  'account.title': 'የባንክ ሂሳብ ያገናኙ',
+  'account.subtitle': 'ዝግጅቱን ለማጠናቀቅ የሂሳብ ቁጥርዎን ያስገቡ።',
+  'account.placeholder': 'የሂሳብ ቁጥር',
+  'account.submit': 'ሂሳብ አገናኝ',
+  'account.linked': 'የተገናኙ ሂሳቦች',
+  'account.primary': 'ዋና ሂሳብ',
+  'account.primaryHint': 'OnePulse ለክፍያዎች ዋና ሂሳብዎን ይጠቀማል። ዋና ለማድረግ ሂሳብ ይንኩ።',
+  'account.ineligible': 'ብቁ አይደለም',
+  'account.noEligible': 'ከተገናኙት ሂሳቦችዎ አንዱም በOnePulse ጥቅም ላይ ሊውል አይችልም። ለመቀጠል ሌላ ሂሳብ ያገናኙ።',
+  'account.addAnother': 'ሌላ ሂሳብ አገናኝ',
+  'account.error.empty': 'የሂሳብ ቁጥርዎን ያስገቡ።',
+  'account.error.invalidCharacters': 'የሂሳብ ቁጥር አሃዞችን ብቻ ሊይዝ ይችላል።',
+  'account.warning.unknownFormat': 'ይህ የሚደገፍ ባንክ የሂሳብ ቁጥር አይመስልም። ከባንክ ደብተርዎ ወይም ከባንክ መተግበሪያዎ ጋር ያረጋግጡ፤ ትክክል ከሆነ እንደገና ያስገቡ።',
+  'account.warning.invalidCheckDigit': 'ይህ የ{bank} የሂሳብ ቁጥር ስህተት ሊኖረው ይችላል። አሃዞቹን ያረጋግጡ፤ ትክክል ከሆነ እንደገና ያስገቡ።',
+
+  'accountConfirm.title': 'ይህ የእርስዎ ሂሳብ ነው?',
+  'accountConfirm.subtitle': 'ፒንዎን ከማዘጋጀትዎ በፊት እነዚህን ዝርዝሮች ያረጋግጡ።',
+  'accountConfirm.holder': 'የሂሳቡ ባለቤት',
+  'accountConfirm.product': 'ምርት',
+  'accountConfirm.bank': 'ባንክ',
+  'accountConfirm.number': 'የሂሳብ ቁጥር',
+  'accountConfirm.confirm': 'አዎ፣ የእኔ ሂሳብ ነው',
+  'accountConfirm.notMine': 'የእኔ ሂሳብ አይደለም',
+
+  'pinSetup.title': 'ፒንዎን ያዘጋጁ',
+  'pinSetup.subtitle': 'ግብይቶችን ለማጽደቅ ይህንን ፒን ይጠቀማሉ።',
+  'pinSetup.account': 'ለሂሳብ {number}',
+  'pinSetup.choose': '{length} አሃዝ ያለው ፒን ይምረጡ',
+  'pinSetup.confirm': 'ተመሳሳዩን ፒን እንደገና ያስገቡ',
+  'pinSetup.mismatch': 'ፒኖቹ አልተመሳሰሉም። ፒንዎን እንደገና ይምረጡ።',
+  'pinSetup.startOver': 'እንደገና ጀምር',
+  'pinSetup.weak.repeated': 'እንደ 1111 ወይም 1212 ያሉ ተደጋጋሚ አሃዞችን ያስወግዱ።',
+  'pinSetup.weak.sequence': 'እንደ 1234 ወይም 4321 ያሉ ተከታታይ ቁጥሮችን ያስወግዱ።',
+  'pinSetup.weak.birthYear': 'እንደ የትውልድ ዓመት ያሉ ዓመት የሚመስሉ ፒኖችን ያስወግዱ።',
+  'pinPad.delete': 'አጥፋ',
+  'pinPad.progress': 'ከ{length} አሃዞች {entered} ገብተዋል',
+
+  'pinUnlock.title': 'እንኳን ደህና መጡ',
+  'pinUnlock.subtitle': 'ለመቀጠል ፒንዎን ያስገቡ።',
+  'pinUnlock.useBiometrics': '{method} ተጠቀም',
+  'pinUnlock.forgotPin': 'ፒንዎን ረሱት? የደንበኛ አገልግሎትን ያግኙ',
+
+  'biometrics.face': 'Face ID',
+  'biometrics.finger': 'የጣት አሻራ',
+  'biometrics.unknown': 'ባዮሜትሪክስ',
+  'biometrics.enableReason': 'ፒን ሳይጽፉ OnePulseን ይክፈቱ።',
+  'biometrics.unlockReason': 'OnePulseን ክፈት',
+  'biometrics.setupTitle': 'በ{method} ይከፈት?',
+  'biometrics.setupSubtitle': 'ፒን ሳይጽፉ OnePulseን ይክፈቱ። ይህንን በማንኛውም ጊዜ ከዳሽቦርዱ ማጥፋት ይችላሉ።',
+  'biometrics.enable': '{method} አንቃ',
+  'biometrics.notNow': 'አሁን አይደለም',
+  'biometrics.openSettings': 'ቅንብሮችን ክፈት',
+  'biometrics.cancelled': 'የባዮሜትሪክ ማረጋገጫው ተሰርዟል። በምትኩ ፒንዎን ያስገቡ።',
+  'biometrics.invalidated': 'ባዮሜትሪክስዎ ስለተቀየረ የባዮሜትሪክ መክፈቻ ጠፍቷል። ፒንዎን ያስገቡ፣ ከዚያም ከዳሽቦርዱ እንደገና ያብሩት።',
+  'biometrics.denied': 'OnePulse ባዮሜትሪክስ እንዲጠቀም አልተፈቀደም። በቴሌግራም ቅንብሮች ውስጥ መፍቀድ ይችላሉ።',
+  'biometrics.unavailable': 'በዚህ መሳሪያ ላይ የባዮሜትሪክ መክፈቻ አይገኝም።',
+
+  'kycCapture.title': 'ማንነትዎን ያረጋግጡ',
+  'kycCapture.subtitle': 'ባንክዎ የመታወቂያ ሰነድ ፎቶ እና የራስ ፎቶ ይፈልጋል። ሁለት ደቂቃ ያህል ይወስዳል።',
+  'kycCapture.document': 'ሰነድ',
+  'kycCapture.document.nationalId': 'ብሔራዊ መታወቂያ',
+  'kycCapture.document.passport': 'ፓስፖርት',
+  'kycCapture.document.driversLicense': 'መንጃ ፈቃድ',
+  'kycCapture.side.front': 'ፊት',
+  'kycCapture.side.back': 'ጀርባ',
+  'kycCapture.side.photoPage': 'የፎቶ ገጽ',
+  'kycCapture.side.selfie': 'የራስ ፎቶ',
+  'kycCapture.takePhoto': 'ፎቶ አንሳ',
+  'kycCapture.upload': 'ፋይል ስቀል',
+  'kycCapture.retake': 'እንደገና አንሳ',
+  'kycCapture.checking': 'ፎቶውን በመፈተሽ ላይ…',
+  'kycCapture.preview': 'የ{side} ፎቶ',
+  'kycCapture.issue.blurry': 'ይህ ፎቶ የደበዘዘ ይመስላል። ካሜራውን ሳያንቀሳቅሱ ይያዙ እና ጽሑፉ ግልጽ መሆኑን ያረጋግጡ።',
+  'kycCapture.issue.glare': 'በዚህ ፎቶ ላይ ነጸብራቅ አለ። ቀጥተኛ ብርሃንን ያስወግዱ እና ሰነዱን ትንሽ ያዘንብሉ።',
+  'kycCapture.issue.lowResolution': 'ይህ ፎቶ በጣም ትንሽ ነው። ቀረብ ይበሉ ወይም ከፍተኛ ጥራት ያለው ምስል ይጠቀሙ።',
+  'kycCapture.useAnyway': 'ይህንን ፎቶ ለማንኛውም ተጠቀም',
+  'kycCapture.error.unreadable': 'ይህ ፋይል እንደ ምስል ሊነበብ አልቻለም። JPEG ወይም PNG ፎቶ ይሞክሩ።',
+  'kycCapture.error.tooLarge': 'ይህ ፋይል በጣም ትልቅ ነው። ከ20 MB በታች የሆነ ፎቶ ይምረጡ።',
+  'kycCapture.submit': 'ለማረጋገጫ አስገባ',
+  'kycCapture.later': 'በኋላ አደርገዋለሁ',
+  'kycCapture.privacy': 'ፎቶዎች ከመጫናቸው በፊት በመሳሪያዎ ላይ ይጨመቃሉ፣ የአካባቢ መረጃም ይወገዳል።',
+
+  'completed.title': 'ሁሉም ተዘጋጅቷል!',
+  'completed.message': 'ምዝገባው ተሳክቷል።',
+  'completed.goToDashboard': 'ወደ ዳሽቦርድ ሂድ',
+
+  // --- ERRORS ---
+  'errors.network.title': 'የግንኙነት ችግር',
+  'errors.network.message': 'OnePulseን ማግኘት አልቻልንም። ግንኙነትዎን ያረጋግጡና እንደገና ይሞክሩ።',
+  'errors.network.action': 'እንደገና ሞክር',
+  'errors.validation.title': 'ዝርዝሮችዎን ያረጋግጡ',
+  'errors.validation.message': 'ያስገቧቸው አንዳንድ ዝርዝሮች ትክክል አይደሉም።',
+  'errors.validation.action': 'ዝርዝሮችን አስተካክል',
+  'errors.auth.title': 'ክፍለ ጊዜው አልፏል',
+  'errors.auth.message': 'የቴሌግራም ክፍለ ጊዜዎ አልፏል። ለመቀጠል መተግበሪያውን ዘግተው እንደገና ይክፈቱ።',
+  'errors.auth.action': 'መተግበሪያውን ዝጋ',
+  'errors.otp-invalid.title': 'የተሳሳተ ኮድ',
+  'errors.otp-invalid.message': 'የማግበሪያ ኮዱ የተሳሳተ ነው ወይም ጊዜው አልፏል።',
+  'errors.otp-invalid.action': 'ኮዱን እንደገና አስገባ',
+  'errors.pin-invalid.title': 'የተሳሳተ ፒን',
+  'errors.pin-invalid.message': 'ያስገቡት ፒን የተሳሳተ ነው።',
+  'errors.pin-invalid.action': 'እንደገና ሞክር',
+  'errors.account-not-found.title': 'ሂሳቡ አልተገኘም',
+  'errors.account-not-found.message': 'በዚህ ቁጥር የባንክ ሂሳብ ማግኘት አልቻልንም።',
+  'errors.account-not-found.action': 'የሂሳብ ቁጥር ቀይር',
+  'errors.product-ineligible.title': 'ሂሳቡ ብቁ አይደለም',
+  'errors.product-ineligible.message': 'ይህ ሂሳብ ከOnePulse ጋር መጠቀም አይቻልም። ሌላ ሂሳብ ይሞክሩ ወይም የደንበኛ አገልግሎትን ያግኙ።',
+  'errors.product-ineligible.action': 'የደንበኛ አገልግሎትን ያግኙ',
+  'errors.phone-linked.title': 'ስልክ ቁጥሩ በጥቅም ላይ ነው',
+  'errors.phone-linked.message': 'ይህ ስልክ ቁጥር አስቀድሞ ከሌላ የቴሌግራም መለያ ጋር ተገናኝቷል።',
+  'errors.phone-linked.action': 'ሌላ ቁጥር ተጠቀም',
+  'errors.rate-limited.title': 'በጣም ብዙ ሙከራዎች',
+  'errors.rate-limited.message': 'እባክዎ እንደገና ከመሞከርዎ በፊት ትንሽ ይጠብቁ።',
+  'errors.rate-limited.action': 'እንደገና ሞክር',
+  'errors.server.title': 'የሆነ ችግር ተፈጥሯል',
+  'errors.server.message': 'OnePulse አሁን ችግር እያጋጠመው ነው። እባክዎ ትንሽ ቆይተው እንደገና ይሞክሩ።',
+  'errors.server.action': 'እንደገና ሞክር',
+
+  // --- DASHBOARD ---
+  'dashboard.welcomeBack': 'እንኳን ደህና መጡ',
+  'dashboard.defaultName': 'የOnePulse ደንበኛ',
+  'dashboard.account': 'ሂሳብ {number}',
+  'dashboard.availableBalance': 'ያለው ቀሪ ሂሳብ',
+  'dashboard.balanceUnavailable': 'ቀሪ ሂሳብ አይገኝም። እንደገና ለመሞከር ይንኩ።',
+  'dashboard.actions': 'ተግባራት',
+  'dashboard.noActions': 'ለሂሳብዎ እስካሁን የነቁ ተግባራት የሉም።',
+  'dashboard.comingSoon': '{action} በቅርቡ ይመጣል።',
+  'dashboard.recentTransactions': 'የቅርብ ጊዜ ግብይቶች',
+  'dashboard.noTransactions': 'እስካሁን ምንም ግብይት የለም።',
+  'dashboard.received': 'የተቀበሉት',
+  'dashboard.sent': 'የላኩት',
+  'dashboard.security': 'ደህንነት',
+  'dashboard.biometricToggle': 'በ{method} ክፈት',
+  'dashboard.biometricHint': 'በዚህ መሳሪያ ላይ በፒን ምትክ ይጠቀሙ',
+  'dashboard.biometricDenied': 'መጀመሪያ በቴሌግራም ቅንብሮች ውስጥ OnePulse ባዮሜትሪክስ እንዲጠቀም ይፍቀዱ።',
+  'kyc.verified': 'KYC ተረጋግጧል',
+  'kyc.pending': 'KYC በመጠባበቅ ላይ',
+  'kyc.rejected': 'KYC ውድቅ ተደርጓል',
+  'kyc.other': 'KYC {status}',
+  'kyc.inReview': 'KYC በግምገማ ላይ',
+  'kyc.required': 'KYC ያስፈልጋል',
+  'actions.sendMoney': 'ገንዘብ ላክ',
+  'actions.payBills': 'ሂሳቦችን ክፈል',
+  'actions.buyAirtime': 'የአየር ሰዓት ግዛ',
+  'actions.cashOut': 'ገንዘብ አውጣ',
+};
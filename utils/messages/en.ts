@@ -0,0 +1,228 @@
+// Source catalog: every key used by the app, in English. Messages use ICU
+// syntax (see utils/i18n).
+
+export const en = {
+  // --- COMMON ---
+  'common.back': 'Go Back',
+  'common.continue': 'Continue',
+  'common.next': 'Next',
+  'common.tryAgain': 'Try Again',
+  'common.contactSupport': 'Contact Support',
+  'common.sending': 'Sending…',
+  'language.label': 'Language',
+
+  // --- STARTUP ---
+  'init.loading': 'Initializing App...',
+  'init.waiting': 'Waiting for Telegram Mini App context…',
+  'init.waitingHint': "If this screen persists, open the bot from Telegram's menu button.",
+  'environment.title': 'Unsupported Environment',
+  'environment.message': 'Please open this inside the Telegram App.',
+
+  // --- LOADING ---
+  'loading.processing': 'Processing...',
+  'loading.checking': 'Verifying Account...',
+  'loading.savingContact': 'Saving Contact Info...',
+  'loading.startingSession': 'Initializing Secure Session...',
+  'loading.verifyingDevice': 'Verifying Device Security...',
+  'loading.verifyingCode': 'Verifying Code...',
+  'loading.verifyingAccount': 'Verifying Bank Account...',
+  'loading.validatingProduct': 'Validating Product Eligibility...',
+  'loading.securingPin': 'Securing PIN...',
+  'loading.finalizing': 'Finalizing Registration...',
+  'loading.securingDevice': 'Securing New Device...',
+  'loading.unlocking': 'Unlocking...',
+  'loading.confirmingIdentity': "Confirming It's You...",
+  'loading.enablingBiometrics': 'Setting Up Biometric Unlock...',
+  'loading.uploadingDocuments': 'Uploading Your Documents...',
+  'loading.waitingForConnection': 'Waiting for connection...',
+  'loading.offline': "You appear to be offline. We'll continue automatically once you're back online.",
+
+  // --- REGISTRATION ---
+  'idVerified.title': 'ID Verified Successfully',
+  'idVerified.message': 'Your Telegram identity has been confirmed.',
+  'idVerified.unfinished': 'You have an unfinished registration. Next step:',
+  'idVerified.resume': 'Resume Registration',
+  'idVerified.startOver': 'Start Over',
+  'resume.otpEntry': 'Enter your activation code',
+  'resume.accountEntry': 'Link your bank account',
+  'resume.pinSetup': 'Set your PIN',
+  'resume.confirmPhone': 'Enter the phone number you started with ({hint}) to continue.',
+  'resume.confirmAccount': 'Enter the account number you linked ({hint}).',
+  'resume.error.phoneMismatch': 'This is not the phone number you started with.',
+  'resume.error.accountMismatch': 'This is not the account number you linked.',
+
+  'phone.title': 'Share Contact',
+  'phone.contactSubtitle': 'Share the phone number linked to your Telegram account to continue.',
+  'phone.manualSubtitle': 'Enter your phone number to complete registration.',
+  'phone.share': 'Share Phone Number',
+  'phone.enterManually': 'Enter number manually',
+  'phone.shareInstead': 'Share from Telegram instead',
+  'phone.contactDeclined': 'Contact sharing was cancelled. You can type your number instead.',
+  'phone.country': 'Country',
+  'phone.error.empty': 'Enter your phone number.',
+  'phone.error.invalidCharacters': 'Phone numbers can only contain digits.',
+  'phone.error.unsupportedCountry': 'Numbers from this country are not supported yet.',
+  'phone.error.invalidLength': '{country} mobile numbers have {digits} digits after +{dialCode}.',
+  'phone.error.invalidLengthGeneric': 'This phone number has the wrong number of digits.',
+  'phone.error.invalidPrefix': 'This is not a valid {country} mobile number.',
+  'phone.error.invalidPrefixGeneric': 'This is not a valid mobile number.',
+
+  'otp.title': 'Enter Code',
+  'otp.sentTo': 'We sent an activation code to',
+  'otp.registeredPhone': 'your registered phone number',
+  'otp.verify': 'Verify',
+  'otp.resend': 'Resend Code',
+  'otp.resendIn': '{seconds, plural, one {Resend code in # second} other {Resend code in # seconds}}',
+  'otp.inputLabel': 'Activation code',
+  'otp.digitLabel': 'Digit {position}',
+  'rebind.title': 'Confirm New Device',
+  'rebind.sentTo': 'To use OnePulse on this device, enter the code we sent to',
+  'attempts.locked': 'Too many incorrect attempts. Try again in {time}.',
+  'attempts.remaining': '{count, plural, one {# attempt remaining} other {# attempts remaining}}',
+
+  'account.title': 'Link Bank Account',
+  'account.subtitle': 'Enter your account number to finalize the setup.',
+  'account.placeholder': 'Account Number',
+  'account.submit': 'Link Account',
+  'account.linked': 'Linked accounts',
+  'account.primary': 'Primary account',
+  'account.primaryHint': 'OnePulse uses your primary account for payments. Tap an account to make it primary.',
+  'account.ineligible': 'Not eligible',
+  'account.noEligible': 'None of your linked accounts can be used with OnePulse. Link another account to continue.',
+  'account.addAnother': 'Link Another Account',
+  'account.error.empty': 'Enter your account number.',
+  'account.error.invalidCharacters': 'Account numbers can only contain digits.',
+  'account.warning.unknownFormat': "This doesn't look like an account number from a supported bank. Check it against your passbook or banking app, or submit again if it's correct.",
+  'account.warning.invalidCheckDigit': "This {bank} account number may have a typo. Check the digits, or submit again if it's correct.",
+
+  'accountConfirm.title': 'Is This Your Account?',
+  'accountConfirm.subtitle': 'Check these details before you set your PIN.',
+  'accountConfirm.holder': 'Account holder',
+  'accountConfirm.product': 'Product',
+  'accountConfirm.bank': 'Bank',
+  'accountConfirm.number': 'Account number',
+  'accountConfirm.confirm': 'Yes, This Is My Account',
+  'accountConfirm.notMine': 'Not my account',
+
+  'pinSetup.title': 'Set Your PIN',
+  'pinSetup.subtitle': 'You will use this PIN to approve transactions.',
+  'pinSetup.account': 'For account {number}',
+  'pinSetup.choose': 'Choose a {length}-digit PIN',
+  'pinSetup.confirm': 'Enter the same PIN again',
+  'pinSetup.mismatch': "PINs didn't match. Choose your PIN again.",
+  'pinSetup.startOver': 'Start over',
+  'pinSetup.weak.repeated': 'Avoid repeated digits like 1111 or 1212.',
+  'pinSetup.weak.sequence': 'Avoid sequences like 1234 or 4321.',
+  'pinSetup.weak.birthYear': 'Avoid PINs that look like a year, such as a birth year.',
+  'pinPad.delete': 'Delete',
+  'pinPad.progress': '{entered} of {length} digits entered',
+
+  'pinUnlock.title': 'Welcome Back',
+  'pinUnlock.subtitle': 'Enter your PIN to continue.',
+  'pinUnlock.useBiometrics': 'Use {method}',
+  'pinUnlock.forgotPin': 'Forgot PIN? Contact Support',
+
+  'biometrics.face': 'Face ID',
+  'biometrics.finger': 'Fingerprint',
+  'biometrics.unknown': 'Biometrics',
+  'biometrics.enableReason': 'Unlock OnePulse without typing your PIN.',
+  'biometrics.unlockReason': 'Unlock OnePulse',
+  'biometrics.setupTitle': 'Unlock with {method}?',
+  'biometrics.setupSubtitle': 'Open OnePulse without typing your PIN. You can turn this off any time from the dashboard.',
+  'biometrics.enable': 'Enable {method}',
+  'biometrics.notNow': 'Not Now',
+  'biometrics.openSettings': 'Open Settings',
+  'biometrics.cancelled': 'Biometric check was cancelled. Enter your PIN instead.',
+  'biometrics.invalidated': 'Biometric unlock was turned off because your biometrics changed. Enter your PIN, then turn it on again from the dashboard.',
+  'biometrics.denied': 'OnePulse was not allowed to use biometrics. You can allow it in Telegram settings.',
+  'biometrics.unavailable': 'Biometric unlock is not available on this device.',
+
+  'kycCapture.title': 'Verify Your Identity',
+  'kycCapture.subtitle': 'Your bank needs a photo of an ID document and a selfie. It takes about two minutes.',
+  'kycCapture.document': 'Document',
+  'kycCapture.document.nationalId': 'National ID',
+  'kycCapture.document.passport': 'Passport',
+  'kycCapture.document.driversLicense': "Driver's License",
+  'kycCapture.side.front': 'Front',
+  'kycCapture.side.back': 'Back',
+  'kycCapture.side.photoPage': 'Photo page',
+  'kycCapture.side.selfie': 'Selfie',
+  'kycCapture.takePhoto': 'Take Photo',
+  'kycCapture.upload': 'Upload File',
+  'kycCapture.retake': 'Retake',
+  'kycCapture.checking': 'Checking photo…',
+  'kycCapture.preview': '{side} photo',
+  'kycCapture.issue.blurry': 'This photo looks blurry. Hold the camera steady and make sure the text is sharp.',
+  'kycCapture.issue.glare': 'There is glare on this photo. Avoid direct light and tilt the document slightly.',
+  'kycCapture.issue.lowResolution': 'This photo is too small. Move closer or use a higher-resolution image.',
+  'kycCapture.useAnyway': 'Use this photo anyway',
+  'kycCapture.error.unreadable': "This file couldn't be read as an image. Try a JPEG or PNG photo.",
+  'kycCapture.error.tooLarge': 'This file is too large. Choose a photo under 20 MB.',
+  'kycCapture.submit': 'Submit for Verification',
+  'kycCapture.later': "I'll Do This Later",
+  'kycCapture.privacy': 'Photos are compressed and location data is removed on your device before upload.',
+
+  'completed.title': 'All Set!',
+  'completed.message': 'Registration successful.',
+  'completed.goToDashboard': 'Go to Dashboard',
+
+  // --- ERRORS (one title, message and action per AppErrorKind) ---
+  'errors.network.title': 'Connection Problem',
+  'errors.network.message': 'We could not reach OnePulse. Check your connection and try again.',
+  'errors.network.action': 'Try Again',
+  'errors.validation.title': 'Check Your Details',
+  'errors.validation.message': 'Some of the details you entered are not valid.',
+  'errors.validation.action': 'Edit Details',
+  'errors.auth.title': 'Session Expired',
+  'errors.auth.message': 'Your Telegram session has expired. Close and reopen the app to continue.',
+  'errors.auth.action': 'Close App',
+  'errors.otp-invalid.title': 'Incorrect Code',
+  'errors.otp-invalid.message': 'The activation code is incorrect or has expired.',
+  'errors.otp-invalid.action': 'Re-enter Code',
+  'errors.pin-invalid.title': 'Incorrect PIN',
+  'errors.pin-invalid.message': 'The PIN you entered is incorrect.',
+  'errors.pin-invalid.action': 'Try Again',
+  'errors.account-not-found.title': 'Account Not Found',
+  'errors.account-not-found.message': 'We could not find a bank account with that number.',
+  'errors.account-not-found.action': 'Change Account Number',
+  'errors.product-ineligible.title': 'Account Not Eligible',
+  'errors.product-ineligible.message': 'This account cannot be used with OnePulse. Try another account or contact support.',
+  'errors.product-ineligible.action': 'Contact Support',
+  'errors.phone-linked.title': 'Phone Number In Use',
+  'errors.phone-linked.message': 'This phone number is already linked to another Telegram account.',
+  'errors.phone-linked.action': 'Use Another Number',
+  'errors.rate-limited.title': 'Too Many Attempts',
+  'errors.rate-limited.message': 'Please wait a moment before trying again.',
+  'errors.rate-limited.action': 'Try Again',
+  'errors.server.title': 'Something Went Wrong',
+  'errors.server.message': 'OnePulse is having trouble right now. Please try again shortly.',
+  'errors.server.action': 'Try Again',
+
+  // --- DASHBOARD ---
+  'dashboard.welcomeBack': 'Welcome back',
+  'dashboard.defaultName': 'OnePulse Customer',
+  'dashboard.account': 'Account {number}',
+  'dashboard.availableBalance': 'Available balance',
+  'dashboard.balanceUnavailable': 'Balance unavailable. Tap to retry.',
+  'dashboard.actions': 'Actions',
+  'dashboard.noActions': 'No actions are enabled for your account yet.',
+  'dashboard.comingSoon': '{action} is coming soon.',
+  'dashboard.recentTransactions': 'Recent Transactions',
+  'dashboard.noTransactions': 'No transactions yet.',
+  'dashboard.received': 'Received',
+  'dashboard.sent': 'Sent',
+  'dashboard.security': 'Security',
+  'dashboard.biometricToggle': 'Unlock with {method}',
+  'dashboard.biometricHint': 'Use instead of your PIN on this device',
+  'dashboard.biometricDenied': 'Allow OnePulse to use biometrics in Telegram settings first.',
+  'kyc.verified': 'KYC Verified',
+  'kyc.pending': 'KYC Pending',
+  'kyc.rejected': 'KYC Rejected',
+  'kyc.other': 'KYC {status}',
+  'kyc.inReview': 'KYC In Review',
+  'kyc.required': 'KYC Required',
+  'actions.sendMoney': 'Send Money',
+  'actions.payBills': 'Pay Bills',
+  'actions.buyAirtime': 'Buy Airtime',
+  'actions.cashOut': 'Cash Out',
+};
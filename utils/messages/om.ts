@@ -0,0 +1,229 @@
+import type { Messages } from '@/utils/i18n';
+
+// Afaan Oromoo.
+
+export const om: Messages = {
+  // --- COMMON ---
+  'common.back': 'Duubatti Deebi’i',
+  'common.continue': 'Itti Fufi',
+  'common.next': 'Itti Aanu',
+  'common.tryAgain': 'Irra Deebi’ii Yaali',
+  'common.contactSupport': 'Deeggarsa Quunnamaa',
+  'common.sending': 'Ergamaa jira…',
+  'language.label': 'Afaan',
+
+  // --- STARTUP ---
+  'init.loading': 'Appiin eegalaa jira...',
+  'init.waiting': 'Odeeffannoo Telegram Mini App eegaa jira…',
+  'init.waitingHint': 'Fuulli kun yoo itti fufe, bootii sana qabduu baafata Telegram irraa banaa.',
+  'environment.title': 'Naannoo Hin Deeggaramne',
+  'environment.message': 'Maaloo kana appii Telegram keessatti banaa.',
+
+  // --- LOADING ---
+  'loading.processing': 'Hojjetamaa jira...',
+  'loading.checking': 'Herrega mirkaneessaa jira...',
+  'loading.savingContact': 'Odeeffannoo quunnamtii olkaa’aa jira...',
+  'loading.startingSession': 'Yeroo hojii nageenya qabu eegalaa jira...',
+  'loading.verifyingDevice': 'Nageenya meeshaa mirkaneessaa jira...',
+  'loading.verifyingCode': 'Koodii mirkaneessaa jira...',
+  'loading.verifyingAccount': 'Herrega baankii mirkaneessaa jira...',
+  'loading.validatingProduct': 'Ulaagaa tajaajilaa mirkaneessaa jira...',
+  'loading.securingPin': 'PIN eegaa jira...',
+  'loading.finalizing': 'Galmee xumuraa jira...',
+  'loading.securingDevice': 'Meeshaa haaraa eegaa jira...',
+  'loading.unlocking': 'Banaa jira...',
+  'loading.confirmingIdentity': 'Isin ta’uu keessan mirkaneessaa jira...',
+  'loading.enablingBiometrics': 'Banaa baayoomeetirikii qopheessaa jira...',
+  'loading.uploadingDocuments': 'Sanadoota keessan olkaa’aa jira...',
+  'loading.waitingForConnection': 'Walqunnamtii eegaa jira...',
+  'loading.offline': 'Interneetii irraa kan bahan fakkaattu. Yeroo deebitanitti ofumaan itti fufna.',
+
+  // --- REGISTRATION ---
+  'idVerified.title': 'Eenyummaan Milkaa’inaan Mirkanaa’eera',
+  'idVerified.message': 'Eenyummaan Telegram keessanii mirkanaa’eera.',
+  'idVerified.unfinished': 'Galmee hin xumuramne qabdu. Tarkaanfii itti aanu:',
+  'idVerified.resume': 'Galmee Itti Fufi',
+  'idVerified.startOver': 'Jalqabaa Eegali',
+  'resume.otpEntry': 'Koodii hojiirra oolchaa keessan galchaa',
+  'resume.accountEntry': 'Herrega baankii keessan walqabsiisaa',
+  'resume.pinSetup': 'PIN keessan qopheessaa',
+  'resume.confirmPhone': 'Itti fufuuf lakkoofsa bilbilaa ittiin jalqabdan ({hint}) galchaa.',
+  'resume.confirmAccount': 'Lakkoofsa herregaa walqabsiiftan ({hint}) galchaa.',
+  'resume.error.phoneMismatch': 'Kun lakkoofsa bilbilaa ittiin jalqabdan miti.',
+  'resume.error.accountMismatch': 'Kun lakkoofsa herregaa walqabsiiftan miti.',
+
+  'phone.title': 'Quunnamtii Qoodi',
+  'phone.contactSubtitle': 'Itti fufuuf lakkoofsa bilbilaa herrega Telegram keessan waliin walqabate qoodaa.',
+  'phone.manualSubtitle': 'Galmee xumuruuf lakkoofsa bilbilaa keessan galchaa.',
+  'phone.share': 'Lakkoofsa Bilbilaa Qoodi',
+  'phone.enterManually': 'Lakkoofsa harkaan galchaa',
+  'phone.shareInstead': 'Kanaa mannaa Telegram irraa qoodaa',
+  'phone.contactDeclined': 'Qooduun quunnamtii haqameera. Kanaa mannaa lakkoofsa keessan barreessuu dandeessu.',
+  'phone.country': 'Biyya',
+  'phone.error.empty': 'Lakkoofsa bilbilaa keessan galchaa.',
+  'phone.error.invalidCharacters': 'Lakkoofsi bilbilaa dijiitii qofa qabaachuu danda’a.',
+  'phone.error.unsupportedCountry': 'Lakkoofsonni biyya kanaa ammaaf hin deeggaraman.',
+  'phone.error.invalidLength': 'Lakkoofsonni mobaayilii {country} +{dialCode} booda dijiitii {digits} qabu.',
+  'phone.error.invalidLengthGeneric': 'Lakkoofsi bilbilaa kun baay’ina dijiitii dogoggoraa qaba.',
+  'phone.error.invalidPrefix': 'Kun lakkoofsa mobaayilii {country} sirrii miti.',
+  'phone.error.invalidPrefixGeneric': 'Kun lakkoofsa mobaayilii sirrii miti.',
+
+  'otp.title': 'Koodii Galchaa',
+  'otp.sentTo': 'Koodii hojiirra oolchaa kan ergine gara',
+  'otp.registeredPhone': 'lakkoofsa bilbilaa galmaa’e keessanii',
+  'otp.verify': 'Mirkaneessi',
+  'otp.resend': 'Koodii Irra Deebi’ii Ergi',
+  'otp.resendIn': '{seconds, plural, one {Sekoondii # booda koodii irra deebi’ii ergaa} other {Sekoondii # booda koodii irra deebi’ii ergaa}}',
+  'otp.inputLabel': 'Koodii hojiirra oolchaa',
+  'otp.digitLabel': 'Dijiitii {position}',
+  'rebind.title': 'Meeshaa Haaraa Mirkaneessaa',
+  'rebind.sentTo': 'OnePulse meeshaa kana irratti fayyadamuuf, koodii ergine galchaa; kan ergame gara',
+  'attempts.locked': 'Yaaliin dogoggoraa baay’ateera. {time} booda irra deebi’aa yaalaa.',
+  'attempts.remaining': '{count, plural, one {Yaaliin # hafeera} other {Yaaliiwwan # hafaniiru}}',
+
+  'account.title': 'Herrega Baankii Walqabsiisaa',
+  'account.subtitle': 'Qophii xumuruuf lakkoofsa herregaa keessan galchaa.',
+  'account.placeholder': 'Lakkoofsa Herregaa',
+  'account.submit': 'Herrega Walqabsiisi',
+  'account.linked': 'Herregoota walqabatan',
+  'account.primary': 'Herrega ijoo',
+  'account.primaryHint': 'OnePulse kaffaltiidhaaf herrega ijoo keessan fayyadama. Herrega ijoo gochuuf tuqaa.',
+  'account.ineligible': 'Ulaagaa hin guutu',
+  'account.noEligible': 'Herregoota walqabsiiftan keessaa tokkollee OnePulse waliin hojjechuu hin danda’u. Itti fufuuf herrega biraa walqabsiisaa.',
+  'account.addAnother': 'Herrega Biraa Walqabsiisi',
+  'account.error.empty': 'Lakkoofsa herregaa keessan galchaa.',
+  'account.error.invalidCharacters': 'Lakkoofsi herregaa lakkoofsota qofa qabaachuu danda’a.',
+  'account.warning.unknownFormat': 'Kun lakkoofsa herregaa baankii deeggaramu hin fakkaatu. Kitaaba baankii ykn appii baankii keessan irraa mirkaneeffadhaa, yoo sirrii ta’e irra deebi’aa galchaa.',
+  'account.warning.invalidCheckDigit': 'Lakkoofsi herregaa {bank} kun dogoggora qabaachuu danda’a. Lakkoofsota mirkaneeffadhaa, yoo sirrii ta’e irra deebi’aa galchaa.',
+
+  'accountConfirm.title': 'Herregni Kun Kan Keessanii?',
+  'accountConfirm.subtitle': 'PIN keessan qopheessuu dura odeeffannoo kana mirkaneeffadhaa.',
+  'accountConfirm.holder': 'Abbaa herregaa',
+  'accountConfirm.product': 'Oomisha',
+  'accountConfirm.bank': 'Baankii',
+  'accountConfirm.number': 'Lakkoofsa herregaa',
+  'accountConfirm.confirm': 'Eeyyee, Herrega Kooti',
+  'accountConfirm.notMine': 'Herrega koo miti',
+
+  'pinSetup.title': 'PIN Keessan Qopheessaa',
+  'pinSetup.subtitle': 'Daldala mirkaneessuuf PIN kana fayyadamtu.',
+  'pinSetup.account': 'Herrega {number}f',
+  'pinSetup.choose': 'PIN dijiitii {length} qabu filadhaa',
+  'pinSetup.confirm': 'PIN wahii irra deebi’aa galchaa',
+  'pinSetup.mismatch': 'PINonni wal hin simne. PIN keessan irra deebi’aa filadhaa.',
+  'pinSetup.startOver': 'Jalqabaa eegali',
+  'pinSetup.weak.repeated': 'Dijiitii irra deddeebi’aman kan akka 1111 ykn 1212 irraa fagaadhaa.',
+  'pinSetup.weak.sequence': 'Tartiiba akka 1234 ykn 4321 irraa fagaadhaa.',
+  'pinSetup.weak.birthYear': 'PIN waggaa fakkaatu, kan akka waggaa dhalootaa, irraa fagaadhaa.',
+  'pinPad.delete': 'Haqi',
+  'pinPad.progress': 'Dijiitii {length} keessaa {entered} galfameera',
+
+  'pinUnlock.title': 'Baga Deebitan',
+  'pinUnlock.subtitle': 'Itti fufuuf PIN keessan galchaa.',
+  'pinUnlock.useBiometrics': '{method} fayyadami',
+  'pinUnlock.forgotPin': 'PIN irraanfattanii? Deeggarsa Quunnamaa',
+
+  'biometrics.face': 'Face ID',
+  'biometrics.finger': 'Mallattoo Quba',
+  'biometrics.unknown': 'Baayoomeetirikii',
+  'biometrics.enableReason': 'PIN osoo hin barreessin OnePulse banaa.',
+  'biometrics.unlockReason': 'OnePulse bani',
+  'biometrics.setupTitle': '{method}n banamu?',
+  'biometrics.setupSubtitle': 'PIN osoo hin barreessin OnePulse banaa. Yeroo barbaaddan daashboordii irraa cufuu dandeessu.',
+  'biometrics.enable': '{method} hojiirra oolchi',
+  'biometrics.notNow': 'Amma Miti',
+  'biometrics.openSettings': 'Qindaa’ina Bani',
+  'biometrics.cancelled': 'Mirkaneessi baayoomeetirikii haqameera. Kanaa mannaa PIN keessan galchaa.',
+  'biometrics.invalidated': 'Baayoomeetirikiin keessan waan jijjiirameef banaan baayoomeetirikii cufameera. PIN keessan galchaa, achiis daashboordii irraa irra deebi’aa banaa.',
+  'biometrics.denied': 'OnePulse baayoomeetirikii akka fayyadamu hin hayyamamne. Qindaa’ina Telegram keessatti hayyamuu dandeessu.',
+  'biometrics.unavailable': 'Banaan baayoomeetirikii meeshaa kana irratti hin argamu.',
+
+  'kycCapture.title': 'Eenyummaa Keessan Mirkaneessaa',
+  'kycCapture.subtitle': 'Baankiin keessan suuraa sanada eenyummaa fi suuraa ofii barbaada. Daqiiqaa lama qofa fudhata.',
+  'kycCapture.document': 'Sanada',
+  'kycCapture.document.nationalId': 'Eenyummeessa Biyyaalessaa',
+  'kycCapture.document.passport': 'Paaspoortii',
+  'kycCapture.document.driversLicense': 'Hayyama Konkolaachisummaa',
+  'kycCapture.side.front': 'Fuula duraa',
+  'kycCapture.side.back': 'Duuba',
+  'kycCapture.side.photoPage': 'Fuula suuraa',
+  'kycCapture.side.selfie': 'Suuraa ofii',
+  'kycCapture.takePhoto': 'Suuraa Kaasi',
+  'kycCapture.upload': 'Faayilii Olkaa’i',
+  'kycCapture.retake': 'Irra Deebi’ii Kaasi',
+  'kycCapture.checking': 'Suuraa sakatta’aa jira…',
+  'kycCapture.preview': 'Suuraa {side}',
+  'kycCapture.issue.blurry': 'Suuraan kun ifa hin qabu. Kaameraa sirritti qabaa, barreeffamni ifa ta’uu mirkaneeffadhaa.',
+  'kycCapture.issue.glare': 'Suuraa kana irratti calaqqeen jira. Ifa kallattii irraa fagaadhaa, sanadicha xiqqoo jallisaa.',
+  'kycCapture.issue.lowResolution': 'Suuraan kun baay’ee xiqqaa dha. Itti dhihaadhaa ykn suuraa qulqullina olaanaa qabu fayyadamaa.',
+  'kycCapture.useAnyway': 'Suuraa kana akkasumaan fayyadami',
+  'kycCapture.error.unreadable': 'Faayiliin kun akka suuraatti dubbifamuu hin dandeenye. Suuraa JPEG ykn PNG yaalaa.',
+  'kycCapture.error.tooLarge': 'Faayiliin kun baay’ee guddaa dha. Suuraa 20 MB gadii filadhaa.',
+  'kycCapture.submit': 'Mirkaneessaaf Ergi',
+  'kycCapture.later': 'Booda Nan Raawwadha',
+  'kycCapture.privacy': 'Suuraaleen osoo hin olkaa’amin dura meeshaa keessan irratti ni xiqqeeffamu, odeeffannoon bakkaas ni haqama.',
+
+  'completed.title': 'Hundi Qophaa’eera!',
+  'completed.message': 'Galmeen milkaa’eera.',
+  'completed.goToDashboard': 'Gara Daashboordii Deemi',
+
+  // --- ERRORS ---
+  'errors.network.title': 'Rakkoo Walqunnamtii',
+  'errors.network.message': 'OnePulse argachuu hin dandeenye. Walqunnamtii keessan mirkaneessaa irra deebi’aa yaalaa.',
+  'errors.network.action': 'Irra Deebi’ii Yaali',
+  'errors.validation.title': 'Odeeffannoo Keessan Mirkaneessaa',
+  'errors.validation.message': 'Odeeffannoon galchitan tokko tokko sirrii miti.',
+  'errors.validation.action': 'Odeeffannoo Sirreessi',
+  'errors.auth.title': 'Yeroon Hojii Dhumateera',
+  'errors.auth.message': 'Yeroon hojii Telegram keessanii dhumateera. Itti fufuuf appii cufaa irra deebi’aa banaa.',
+  'errors.auth.action': 'Appii Cufi',
+  'errors.otp-invalid.title': 'Koodii Dogoggoraa',
+  'errors.otp-invalid.message': 'Koodiin hojiirra oolchaa dogoggora ykn yeroon isaa darbeera.',
+  'errors.otp-invalid.action': 'Koodii Irra Deebi’ii Galchi',
+  'errors.pin-invalid.title': 'PIN Dogoggoraa',
+  'errors.pin-invalid.message': 'PIN galchitan dogoggora.',
+  'errors.pin-invalid.action': 'Irra Deebi’ii Yaali',
+  'errors.account-not-found.title': 'Herregni Hin Argamne',
+  'errors.account-not-found.message': 'Herrega baankii lakkoofsa sanaan argachuu hin dandeenye.',
+  'errors.account-not-found.action': 'Lakkoofsa Herregaa Jijjiiri',
+  'errors.product-ineligible.title': 'Herregni Ulaagaa Hin Guutu',
+  'errors.product-ineligible.message': 'Herregni kun OnePulse waliin hojiirra oolchuu hin danda’u. Herrega biraa yaalaa ykn deeggarsa quunnamaa.',
+  'errors.product-ineligible.action': 'Deeggarsa Quunnamaa',
+  'errors.phone-linked.title': 'Lakkoofsi Bilbilaa Hojiirra Jira',
+  'errors.phone-linked.message': 'Lakkoofsi bilbilaa kun duraan herrega Telegram biraa waliin walqabateera.',
+  'errors.phone-linked.action': 'Lakkoofsa Biraa Fayyadami',
+  'errors.rate-limited.title': 'Yaaliin Baay’ateera',
+  'errors.rate-limited.message': 'Maaloo osoo irra deebi’anii hin yaalin xiqqoo eegaa.',
+  'errors.rate-limited.action': 'Irra Deebi’ii Yaali',
+  'errors.server.title': 'Wanti Tokko Dogoggoreera',
+  'errors.server.message': 'OnePulse amma rakkoo qaba. Maaloo yeroo muraasa booda irra deebi’aa yaalaa.',
+  'errors.server.action': 'Irra Deebi’ii Yaali',
+
+  // --- DASHBOARD ---
+  'dashboard.welcomeBack': 'Baga deebitan',
+  'dashboard.defaultName': 'Maamila OnePulse',
+  'dashboard.account': 'Herrega {number}',
+  'dashboard.availableBalance': 'Haftee jiru',
+  'dashboard.balanceUnavailable': 'Hafteen hin argamu. Irra deebi’uuf tuqaa.',
+  'dashboard.actions': 'Gochaalee',
+  'dashboard.noActions': 'Ammaaf herrega keessaniif gochaaleen banaman hin jiran.',
+  'dashboard.comingSoon': '{action} dhiheenyatti dhufa.',
+  'dashboard.recentTransactions': 'Daldala Dhihoo',
+  'dashboard.noTransactions': 'Ammaaf daldalli hin jiru.',
+  'dashboard.received': 'Kan Fudhatame',
+  'dashboard.sent': 'Kan Ergame',
+  'dashboard.security': 'Nageenya',
+  'dashboard.biometricToggle': '{method}n bani',
+  'dashboard.biometricHint': 'Meeshaa kana irratti PIN bakka fayyadamaa',
+  'dashboard.biometricDenied': 'Jalqaba qindaa’ina Telegram keessatti OnePulse baayoomeetirikii akka fayyadamu hayyamaa.',
+  'kyc.verified': 'KYC Mirkanaa’eera',
+  'kyc.pending': 'KYC Eegamaa Jira',
+  'kyc.rejected': 'KYC Fudhatama Hin Arganne',
+  'kyc.other': 'KYC {status}',
+  'kyc.inReview': 'KYC Sakatta’amaa Jira',
+  'kyc.required': 'KYC Barbaachisa',
+  'actions.sendMoney': 'Maallaqa Ergi',
+  'actions.payBills': 'Kaffaltii Raawwadhu',
+  'actions.buyAirtime': 'Kaardii Bilbilaa Bitadhu',
+  'actions.cashOut': 'Maallaqa Baasi',
+};
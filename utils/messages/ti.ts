@@ -0,0 +1,229 @@
+import type { Messages } from '@/utils/i18n';
+
+// Tigrinya.
+
+export const ti: Messages = {
+  // --- COMMON ---
+  'common.back': 'ተመለስ',
+  'common.continue': 'ቀጽል',
+  'common.next': 'ዝቕጽል',
+  'common.tryAgain': 'እንደገና ፈትን',
+  'common.contactSupport': 'ደገፍ ተወከሱ',
+  'common.sending': 'ይለኣኽ ኣሎ…',
+  'language.label': 'ቋንቋ',
+
+  // --- STARTUP ---
+  'init.loading': 'ኣፕ ይጅምር ኣሎ...',
+  'init.waiting': 'ሓበሬታ ቴሌግራም ሚኒ ኣፕ ይጽበ ኣሎ…',
+  'init.waitingHint': 'እዚ ገጽ እንተቐጺሉ፡ ነቲ ቦት ካብ መዝገብ መምረጺ ቴሌግራም ክፈቱዎ።',
+  'environment.title': 'ዘይድገፍ ሃዋሁ',
+  'environment.message': 'በጃኹም ነዚ ኣብ ውሽጢ ቴሌግራም ኣፕ ክፈቱዎ።',
+
+  // --- LOADING ---
+  'loading.processing': 'ይሰርሕ ኣሎ...',
+  'loading.checking': 'ሕሳብ የረጋግጽ ኣሎ...',
+  'loading.savingContact': 'ሓበሬታ ርክብ ይዕቅብ ኣሎ...',
+  'loading.startingSession': 'ውሑስ ግዜ ስራሕ ይጅምር ኣሎ...',
+  'loading.verifyingDevice': 'ድሕንነት መሳርሒ የረጋግጽ ኣሎ...',
+  'loading.verifyingCode': 'ኮድ የረጋግጽ ኣሎ...',
+  'loading.verifyingAccount': 'ሕሳብ ባንኪ የረጋግጽ ኣሎ...',
+  'loading.validatingProduct': 'ብቕዓት ኣገልግሎት የረጋግጽ ኣሎ...',
+  'loading.securingPin': 'PIN የውሕስ ኣሎ...',
+  'loading.finalizing': 'ምዝገባ ይዛዝም ኣሎ...',
+  'loading.securingDevice': 'ሓድሽ መሳርሒ የውሕስ ኣሎ...',
+  'loading.unlocking': 'ይኸፍት ኣሎ...',
+  'loading.confirmingIdentity': 'ንስኹም ምዃንኩም የረጋግጽ ኣሎ...',
+  'loading.enablingBiometrics': 'ባዮሜትሪክ መኽፈቲ የዳሉ ኣሎ...',
+  'loading.uploadingDocuments': 'ሰነዳትኩም ይሰቕል ኣሎ...',
+  'loading.waitingForConnection': 'ርክብ ይጽበ ኣሎ...',
+  'loading.offline': 'ካብ መስመር ወጻኢ ትመስሉ። ናብ መስመር ምስ ተመለስኩም ባዕልና ክንቕጽል ኢና።',
+
+  // --- REGISTRATION ---
+  'idVerified.title': 'መንነት ብዓወት ተረጋጊጹ',
+  'idVerified.message': 'መንነትኩም ኣብ ቴሌግራም ተረጋጊጹ ኣሎ።',
+  'idVerified.unfinished': 'ዘይተዛዘመ ምዝገባ ኣለኩም። ዝቕጽል ስጉምቲ:',
+  'idVerified.resume': 'ምዝገባ ቀጽል',
+  'idVerified.startOver': 'ካብ መጀመርታ ጀምር',
+  'resume.otpEntry': 'ኮድ ምንቅስቓስኩም ኣእትዉ',
+  'resume.accountEntry': 'ሕሳብ ባንክኹም ኣራኽቡ',
+  'resume.pinSetup': 'PIN ኹም ኣዳልዉ',
+  'resume.confirmPhone': 'ንምቕጻል ዝጀመርኩምሉ ቁጽሪ ስልኪ ({hint}) ኣእትዉ።',
+  'resume.confirmAccount': 'ዘራኸብኩምዎ ቁጽሪ ሕሳብ ({hint}) ኣእትዉ።',
+  'resume.error.phoneMismatch': 'እዚ ዝጀመርኩምሉ ቁጽሪ ስልኪ ኣይኮነን።',
+  'resume.error.accountMismatch': 'እዚ ዘራኸብኩምዎ ቁጽሪ ሕሳብ ኣይኮነን።',
+
+  'phone.title': 'ርክብ ኣካፍሉ',
+  'phone.contactSubtitle': 'ንምቕጻል ምስ ሕሳብ ቴሌግራምኩም ዝተኣሳሰረ ቁጽሪ ተሌፎን ኣካፍሉ።',
+  'phone.manualSubtitle': 'ምዝገባ ንምዝዛም ቁጽሪ ተሌፎንኩም ኣእትዉ።',
+  'phone.share': 'ቁጽሪ ተሌፎን ኣካፍል',
+  'phone.enterManually': 'ቁጽሪ ብኢድ ኣእትዉ',
+  'phone.shareInstead': 'ኣብ ክንዳኡ ካብ ቴሌግራም ኣካፍሉ',
+  'phone.contactDeclined': 'ምክፋል ርክብ ተሰሪዙ። ኣብ ክንዳኡ ቁጽርኹም ክትጽሕፉ ትኽእሉ ኢኹም።',
+  'phone.country': 'ሃገር',
+  'phone.error.empty': 'ቁጽሪ ተሌፎንኩም ኣእትዉ።',
+  'phone.error.invalidCharacters': 'ቁጽሪ ተሌፎን ኣሃዛት ጥራይ ክሕዝ ይኽእል።',
+  'phone.error.unsupportedCountry': 'ካብዛ ሃገር ዝመጹ ቁጽርታት ገና ኣይድገፉን።',
+  'phone.error.invalidLength': 'ቁጽርታት ሞባይል {country} ድሕሪ +{dialCode} {digits} ኣሃዛት ኣለዉዎም።',
+  'phone.error.invalidLengthGeneric': 'እዚ ቁጽሪ ተሌፎን ጌጋ ብዝሒ ኣሃዛት ኣለዎ።',
+  'phone.error.invalidPrefix': 'እዚ ቅኑዕ ቁጽሪ ሞባይል {country} ኣይኮነን።',
+  'phone.error.invalidPrefixGeneric': 'እዚ ቅኑዕ ቁጽሪ ሞባይል ኣይኮነን።',
+
+  'otp.title': 'ኮድ ኣእትዉ',
+  'otp.sentTo': 'ኮድ ምንቅስቓስ ልኢኽናሉ ዘለና',
+  'otp.registeredPhone': 'ዝተመዝገበ ቁጽሪ ተሌፎንኩም',
+  'otp.verify': 'ኣረጋግጽ',
+  'otp.resend': 'ኮድ እንደገና ስደድ',
+  'otp.resendIn': '{seconds, plural, one {ኣብ # ካልኢት ኮድ እንደገና ስደዱ} other {ኣብ # ካልኢታት ኮድ እንደገና ስደዱ}}',
+  'otp.inputLabel': 'ኮድ ምንቅስቓስ',
+  'otp.digitLabel': 'ኣሃዝ {position}',
+  'rebind.title': 'ሓድሽ መሳርሒ ኣረጋግጹ',
+  'rebind.sentTo': 'OnePulse ኣብዚ መሳርሒ ንምጥቃም፡ ዝሰደድናዮ ኮድ ኣእትዉ፤ ዝተሰደደሉ',
+  'attempts.locked': 'ብዙሕ ጌጋ ፈተነታት። ድሕሪ {time} እንደገና ፈትኑ።',
+  'attempts.remaining': '{count, plural, one {# ፈተነ ተሪፉ} other {# ፈተነታት ተሪፎም}}',
+
+  'account.title': 'ሕሳብ ባንኪ ኣራኽቡ',
+  'account.subtitle': 'ምድላው ንምዝዛም ቁጽሪ ሕሳብኩም ኣእትዉ።',
+  'account.placeholder': 'ቁጽሪ ሕሳብ',
+  'account.submit': 'ሕሳብ ኣራኽብ',
+  'account.linked': 'ዝተራኸቡ ሕሳባት',
+  'account.primary': 'ቀንዲ ሕሳብ',
+  'account.primaryHint': 'OnePulse ንክፍሊታት ቀንዲ ሕሳብኩም ይጥቀም። ቀንዲ ንምግባር ሕሳብ ጠውቑ።',
+  'account.ineligible': 'ብቑዕ ኣይኮነን',
+  'account.noEligible': 'ካብ ዝተራኸቡ ሕሳባትኩም ሓደ እኳ ምስ OnePulse ክሰርሕ ኣይኽእልን። ንምቕጻል ካልእ ሕሳብ ኣራኽቡ።',
+  'account.addAnother': 'ካልእ ሕሳብ ኣራኽብ',
+  'account.error.empty': 'ቁጽሪ ሕሳብኩም ኣእትዉ።',
+  'account.error.invalidCharacters': 'ቁጽሪ ሕሳብ ኣሃዛት ጥራይ ክሕዝ ይኽእል።',
+  'account.warning.unknownFormat': 'እዚ ቁጽሪ ሕሳብ ናይ ዝድገፍ ባንኪ ኣይመስልን። ምስ ደብተር ባንኪ ወይ ኣፕ ባንኪኹም ኣረጋግጹ፤ ቅኑዕ እንተኾይኑ ደጊምኩም ኣእትዉ።',
+  'account.warning.invalidCheckDigit': 'እዚ ናይ {bank} ቁጽሪ ሕሳብ ጌጋ ክህልዎ ይኽእል። ኣሃዛት ኣረጋግጹ፤ ቅኑዕ እንተኾይኑ ደጊምኩም ኣእትዉ።',
+
+  'accountConfirm.title': 'እዚ ሕሳብኩም ድዩ?',
+  'accountConfirm.subtitle': 'PIN ቅድሚ ምድላውኩም ነዚ ዝርዝራት ኣረጋግጹ።',
+  'accountConfirm.holder': 'ዋና ሕሳብ',
+  'accountConfirm.product': 'ፍርያት',
+  'accountConfirm.bank': 'ባንኪ',
+  'accountConfirm.number': 'ቁጽሪ ሕሳብ',
+  'accountConfirm.confirm': 'እወ፣ ሕሳበይ እዩ',
+  'accountConfirm.notMine': 'ሕሳበይ ኣይኮነን',
+
+  'pinSetup.title': 'PIN ኹም ኣዳልዉ',
+  'pinSetup.subtitle': 'ነዚ PIN ንምጽዳቕ ምንቅስቓሳት ክትጥቀሙሉ ኢኹም።',
+  'pinSetup.account': 'ንሕሳብ {number}',
+  'pinSetup.choose': '{length} ኣሃዛት ዘለዎ PIN ምረጹ',
+  'pinSetup.confirm': 'ሓደ ዓይነት PIN እንደገና ኣእትዉ',
+  'pinSetup.mismatch': 'PINታት ኣይተሰማምዑን። PIN ኹም እንደገና ምረጹ።',
+  'pinSetup.startOver': 'ካብ መጀመርታ ጀምር',
+  'pinSetup.weak.repeated': 'ከም 1111 ወይ 1212 ዝኣመሰሉ ዝድገሙ ኣሃዛት ኣወግዱ።',
+  'pinSetup.weak.sequence': 'ከም 1234 ወይ 4321 ዝኣመሰሉ ተኸታተልቲ ቁጽርታት ኣወግዱ።',
+  'pinSetup.weak.birthYear': 'ከም ዓመተ ልደት ዝኣመሰሉ ዓመት ዝመስሉ PINታት ኣወግዱ።',
+  'pinPad.delete': 'ደምስስ',
+  'pinPad.progress': 'ካብ {length} ኣሃዛት {entered} ኣትዮም',
+
+  'pinUnlock.title': 'እንቋዕ ብደሓን ተመለስኩም',
+  'pinUnlock.subtitle': 'ንምቕጻል PIN ኹም ኣእትዉ።',
+  'pinUnlock.useBiometrics': '{method} ተጠቐም',
+  'pinUnlock.forgotPin': 'PIN ረሲዕኩም? ደገፍ ተወከሱ',
+
+  'biometrics.face': 'Face ID',
+  'biometrics.finger': 'ኣሻራ ኣጻብዕ',
+  'biometrics.unknown': 'ባዮሜትሪክስ',
+  'biometrics.enableReason': 'PIN ከይጸሓፍኩም OnePulse ክፈቱ።',
+  'biometrics.unlockReason': 'OnePulse ክፈት',
+  'biometrics.setupTitle': 'ብ{method} ይኸፈት?',
+  'biometrics.setupSubtitle': 'PIN ከይጸሓፍኩም OnePulse ክፈቱ። ኣብ ዝኾነ እዋን ካብ ዳሽቦርድ ከተጥፍእዎ ትኽእሉ ኢኹም።',
+  'biometrics.enable': '{method} ኣንቅሕ',
+  'biometrics.notNow': 'ሕጂ ኣይኮነን',
+  'biometrics.openSettings': 'ቅጥዕታት ክፈት',
+  'biometrics.cancelled': 'ባዮሜትሪክ ምርግጋጽ ተሰሪዙ። ኣብ ክንዳኡ PIN ኹም ኣእትዉ።',
+  'biometrics.invalidated': 'ባዮሜትሪክስኩም ስለ ዝተቐየረ ባዮሜትሪክ መኽፈቲ ጠፊኡ። PIN ኹም ኣእትዉ፡ ድሕሪኡ ካብ ዳሽቦርድ እንደገና ኣብርሁዎ።',
+  'biometrics.denied': 'OnePulse ባዮሜትሪክስ ክጥቀም ኣይተፈቕደሉን። ኣብ ቅጥዕታት ቴሌግራም ክትፈቕዱ ትኽእሉ ኢኹም።',
+  'biometrics.unavailable': 'ኣብዚ መሳርሒ ባዮሜትሪክ መኽፈቲ የለን።',
+
+  'kycCapture.title': 'መንነትኩም ኣረጋግጹ',
+  'kycCapture.subtitle': 'ባንክኹም ስእሊ ሰነድ መንነትን ናይ ገዛእ ርእስኹም ስእልን የድልዮ። ክልተ ደቒቕ ጥራይ ይወስድ።',
+  'kycCapture.document': 'ሰነድ',
+  'kycCapture.document.nationalId': 'ሃገራዊ መንነት',
+  'kycCapture.document.passport': 'ፓስፖርት',
+  'kycCapture.document.driversLicense': 'መንጃ ፍቓድ',
+  'kycCapture.side.front': 'ቅድሚት',
+  'kycCapture.side.back': 'ድሕሪት',
+  'kycCapture.side.photoPage': 'ገጽ ስእሊ',
+  'kycCapture.side.selfie': 'ናይ ርእሲ ስእሊ',
+  'kycCapture.takePhoto': 'ስእሊ ኣልዕል',
+  'kycCapture.upload': 'ፋይል ስቐል',
+  'kycCapture.retake': 'ደጊምካ ኣልዕል',
+  'kycCapture.checking': 'ስእሊ ይፍትሽ ኣሎ…',
+  'kycCapture.preview': 'ስእሊ {side}',
+  'kycCapture.issue.blurry': 'እዚ ስእሊ ደብዛዝ ይመስል። ካሜራ ብጽኑዕ ሓዙ፣ ጽሑፍ ንጹር ምዃኑ ኣረጋግጹ።',
+  'kycCapture.issue.glare': 'ኣብዚ ስእሊ ነጸብራቕ ኣሎ። ቀጥታዊ ብርሃን ኣወግዱ፣ ሰነድ ቁሩብ ኣዘንብሉ።',
+  'kycCapture.issue.lowResolution': 'እዚ ስእሊ ኣዝዩ ንእሽቶ እዩ። ቀረብ በሉ ወይ ልዑል ጽሬት ዘለዎ ስእሊ ተጠቐሙ።',
+  'kycCapture.useAnyway': 'ነዚ ስእሊ ብዘየገድስ ተጠቐም',
+  'kycCapture.error.unreadable': 'እዚ ፋይል ከም ስእሊ ክንበብ ኣይከኣለን። JPEG ወይ PNG ስእሊ ፈትኑ።',
+  'kycCapture.error.tooLarge': 'እዚ ፋይል ኣዝዩ ዓቢ እዩ። ትሕቲ 20 MB ዝኾነ ስእሊ ምረጹ።',
+  'kycCapture.submit': 'ንምርግጋጽ ኣቕርብ',
+  'kycCapture.later': 'ደሓር ክገብሮ እየ',
+  'kycCapture.privacy': 'ስእልታት ቅድሚ ምስቃሎም ኣብ መሳርሒኹም ይጸቕጡ፣ ሓበሬታ ቦታ’ውን ይእለ።',
+
+  'completed.title': 'ኩሉ ተዳልዩ!',
+  'completed.message': 'ምዝገባ ተዓዊቱ።',
+  'completed.goToDashboard': 'ናብ ዳሽቦርድ ኪድ',
+
+  // --- ERRORS ---
+  'errors.network.title': 'ጸገም ርክብ',
+  'errors.network.message': 'OnePulse ክንረክብ ኣይከኣልናን። ርክብኩም ኣረጋጊጽኩም እንደገና ፈትኑ።',
+  'errors.network.action': 'እንደገና ፈትን',
+  'errors.validation.title': 'ዝርዝራትኩም ኣረጋግጹ',
+  'errors.validation.message': 'ገለ ካብቲ ዘእተኹሞ ዝርዝራት ቅኑዕ ኣይኮነን።',
+  'errors.validation.action': 'ዝርዝራት ኣስተኻኽል',
+  'errors.auth.title': 'ግዜ ስራሕ ተወዲኡ',
+  'errors.auth.message': 'ግዜ ስራሕ ቴሌግራምኩም ተወዲኡ። ንምቕጻል ኣፕ ዓጺኹም እንደገና ክፈቱ።',
+  'errors.auth.action': 'ኣፕ ዕጸው',
+  'errors.otp-invalid.title': 'ጌጋ ኮድ',
+  'errors.otp-invalid.message': 'ኮድ ምንቅስቓስ ጌጋ እዩ ወይ ግዜኡ ሓሊፉ።',
+  'errors.otp-invalid.action': 'ኮድ እንደገና ኣእቱ',
+  'errors.pin-invalid.title': 'ጌጋ PIN',
+  'errors.pin-invalid.message': 'ዘእተኹሞ PIN ጌጋ እዩ።',
+  'errors.pin-invalid.action': 'እንደገና ፈትን',
+  'errors.account-not-found.title': 'ሕሳብ ኣይተረኽበን',
+  'errors.account-not-found.message': 'በዚ ቁጽሪ ሕሳብ ባንኪ ክንረክብ ኣይከኣልናን።',
+  'errors.account-not-found.action': 'ቁጽሪ ሕሳብ ቀይር',
+  'errors.product-ineligible.title': 'ሕሳብ ብቑዕ ኣይኮነን',
+  'errors.product-ineligible.message': 'እዚ ሕሳብ ምስ OnePulse ክጥቀመሉ ኣይከኣልን። ካልእ ሕሳብ ፈትኑ ወይ ደገፍ ተወከሱ።',
+  'errors.product-ineligible.action': 'ደገፍ ተወከሱ',
+  'errors.phone-linked.title': 'ቁጽሪ ተሌፎን ኣብ ጥቕሚ ኣሎ',
+  'errors.phone-linked.message': 'እዚ ቁጽሪ ተሌፎን ድሮ ምስ ካልእ ሕሳብ ቴሌግራም ተኣሳሲሩ ኣሎ።',
+  'errors.phone-linked.action': 'ካልእ ቁጽሪ ተጠቐም',
+  'errors.rate-limited.title': 'ብዙሕ ፈተነታት',
+  'errors.rate-limited.message': 'በጃኹም እንደገና ቅድሚ ምፍታንኩም ቁሩብ ተጸበዩ።',
+  'errors.rate-limited.action': 'እንደገና ፈትን',
+  'errors.server.title': 'ገለ ጸገም ኣጋጢሙ',
+  'errors.server.message': 'OnePulse ሕጂ ጸገም ኣጋጢምዎ ኣሎ። በጃኹም ቁሩብ ጸኒሕኩም እንደገና ፈትኑ።',
+  'errors.server.action': 'እንደገና ፈትን',
+
+  // --- DASHBOARD ---
+  'dashboard.welcomeBack': 'እንቋዕ ብደሓን ተመለስኩም',
+  'dashboard.defaultName': 'ዓሚል OnePulse',
+  'dashboard.account': 'ሕሳብ {number}',
+  'dashboard.availableBalance': 'ዘሎ ተረፍ ሕሳብ',
+  'dashboard.balanceUnavailable': 'ተረፍ ሕሳብ የለን። እንደገና ንምፍታን ጠውቑ።',
+  'dashboard.actions': 'ተግባራት',
+  'dashboard.noActions': 'ንሕሳብኩም ክሳብ ሕጂ ዝነቕሑ ተግባራት የለዉን።',
+  'dashboard.comingSoon': '{action} ቀልጢፉ ክመጽእ እዩ።',
+  'dashboard.recentTransactions': 'ናይ ቀረባ ግዜ ምንቅስቓሳት',
+  'dashboard.noTransactions': 'ክሳብ ሕጂ ምንቅስቓስ የለን።',
+  'dashboard.received': 'ዝተቐበልኩሞ',
+  'dashboard.sent': 'ዝሰደድኩሞ',
+  'dashboard.security': 'ድሕንነት',
+  'dashboard.biometricToggle': 'ብ{method} ክፈት',
+  'dashboard.biometricHint': 'ኣብዚ መሳርሒ ኣብ ክንዲ PIN ተጠቐሙ',
+  'dashboard.biometricDenied': 'መጀመርታ ኣብ ቅጥዕታት ቴሌግራም OnePulse ባዮሜትሪክስ ክጥቀም ፍቐዱ።',
+  'kyc.verified': 'KYC ተረጋጊጹ',
+  'kyc.pending': 'KYC ይጽበ ኣሎ',
+  'kyc.rejected': 'KYC ተነጺጉ',
+  'kyc.other': 'KYC {status}',
+  'kyc.inReview': 'KYC ይግምገም ኣሎ',
+  'kyc.required': 'KYC የድሊ',
+  'actions.sendMoney': 'ገንዘብ ስደድ',
+  'actions.payBills': 'ሕሳባት ክፈል',
+  'actions.buyAirtime': 'ካርድ ተሌፎን ግዛእ',
+  'actions.cashOut': 'ገንዘብ ኣውጽእ',
+};
@@ -0,0 +1,21 @@
+// Browser connectivity, as reported by `navigator.onLine` and the
+// `online`/`offline` events. "Online" only means a network interface is up;
+// requests still need their own timeouts.
+
+export const isOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export const subscribeToConnectivity = (onChange: () => void): (() => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+/** Resolves immediately when online, otherwise on the next `online` event. */
+export const waitForOnline = (): Promise<void> =>
+  new Promise((resolve) => {
+    if (isOnline()) return resolve();
+    window.addEventListener('online', () => resolve(), { once: true });
+  });
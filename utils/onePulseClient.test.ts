@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOnePulseClient } from '@/utils/onePulseClient';
+
+const session = { success: true, data: { session_token: 'token', expires_in_seconds: 900 } };
+
+// Fails every request with a network error until `recover()` is called.
+const flakyBackend = () => {
+  let down = true;
+  const keys: (string | undefined)[] = [];
+  const fetchImpl = vi.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+    keys.push((init?.headers as Record<string, string>)['Idempotency-Key']);
+    if (down) throw new TypeError('Failed to fetch');
+    return new Response(JSON.stringify(session), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  });
+  return { fetchImpl: fetchImpl as unknown as typeof fetch, keys, recover: () => { down = false; } };
+};
+
+const pinLogin = (encrypted_pin: string) =>
+  ({ device_id: 'device-1', encrypted_pin, pin_key_id: 'key-1', telegram_id: '42' });
+
+describe('login idempotency keys', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  // No backoff between attempts.
+  const setup = () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const backend = flakyBackend();
+    return { backend, api: createOnePulseClient({ baseUrl: '', fetchImpl: backend.fetchImpl }) };
+  };
+
+  it('reuses the key across the retries of one PIN submit', async () => {
+    const { backend, api } = setup();
+    await expect(api.loginWithPin(pinLogin('ciphertext-1'))).rejects.toThrow();
+    expect(backend.keys).toHaveLength(3);
+    expect(new Set(backend.keys).size).toBe(1);
+  });
+
+  it('gives a new PIN its own key after a network error', async () => {
+    const { backend, api } = setup();
+    await expect(api.loginWithPin(pinLogin('ciphertext-1'))).rejects.toThrow();
+    backend.recover();
+    await api.loginWithPin(pinLogin('ciphertext-2'));
+    expect(backend.keys.at(-1)).not.toBe(backend.keys[0]);
+  });
+
+  it('gives a new biometric token its own key after a network error', async () => {
+    const { backend, api } = setup();
+    const payload = { biometric_device_id: 'bio-1', biometric_token: 'token-1', device_id: 'device-1', telegram_id: '42' };
+    await expect(api.loginWithBiometrics(payload)).rejects.toThrow();
+    backend.recover();
+    await api.loginWithBiometrics({ ...payload, biometric_token: 'token-2' });
+    expect(backend.keys.at(-1)).not.toBe(backend.keys[0]);
+  });
+});
@@ -0,0 +1,564 @@
+import { isOnline, waitForOnline } from "@/utils/network";
+import {
+  AccountBalanceData,
+  AccountBalanceResponse,
+  ApiAck,
+  ApiEnvelope,
+  AppSessionData,
+  AppSessionResponse,
+  BiometricTokenData,
+  BiometricTokenResponse,
+  CheckTelegramIdData,
+  CheckTelegramIdResponse,
+  CustomerProfileData,
+  CustomerProfileResponse,
+  DeviceRebindData,
+  DeviceRebindResponse,
+  DeviceSessionData,
+  DeviceSessionResponse,
+  KycSubmitData,
+  KycSubmitResponse,
+  KycUploadData,
+  KycUploadResponse,
+  OnePulseRegistrationData,
+  OnePulseRegistrationResponse,
+  OtpDispatchData,
+  OtpDispatchResponse,
+  PinEncryptionKeyData,
+  PinEncryptionKeyResponse,
+  TransactionData,
+  TransactionsData,
+  TransactionsResponse,
+  VerifyCustomerData,
+  VerifyCustomerResponse,
+} from "@/types/api";
+import {
+  AccountPayload,
+  BiometricDisablePayload,
+  BiometricEnablePayload,
+  BiometricLoginPayload,
+  CheckIdPayload,
+  CustomerProfilePayload,
+  DeviceRebindConfirmPayload,
+  DeviceRebindResendPayload,
+  DeviceRebindStartPayload,
+  DeviceSessionPayload,
+  KycSubmitPayload,
+  KycUploadChunkPayload,
+  KycUploadCompletePayload,
+  KycUploadStartPayload,
+  OnePulseRegistrationPayload,
+  PinEncryptionKeyPayload,
+  PinLoginPayload,
+  ProductValidationPayload,
+  ResendCodePayload,
+  ShareContactPayload,
+  SimVerifyPayload,
+  TransactionsPayload,
+  VerifyCodePayload,
+  VerifyCustomerPayload,
+} from "@/types/user";
+
+export const APP_VERSION = process.env.NEXT_PUBLIC_APP_VERSION || "1.0.0";
+
+// Thrown when the backend answers with a non-2xx status.
+export class OnePulseApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly endpoint: string,
+    public readonly body: unknown,
+  ) {
+    super(message);
+    this.name = "OnePulseApiError";
+  }
+}
+
+// Thrown when the backend could not be reached or did not answer in time,
+// after retries. The request may or may not have been processed.
+export class OnePulseNetworkError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    public readonly reason: "timeout" | "network",
+  ) {
+    super(reason === "timeout" ? "The request timed out." : "Could not reach the server.");
+    this.name = "OnePulseNetworkError";
+  }
+}
+
+// Thrown when a 2xx response does not match the contract we expect.
+export class ResponseValidationError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    public readonly path: string,
+    expected: string,
+  ) {
+    super(`Unexpected response from ${endpoint}: ${path} should be ${expected}`);
+    this.name = "ResponseValidationError";
+  }
+}
+
+// --- RESPONSE DECODING ---
+
+type Decoder<T> = (value: unknown, path: string, endpoint: string) => T;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const record: Decoder<Record<string, unknown>> = (value, path, endpoint) => {
+  if (!isRecord(value)) throw new ResponseValidationError(endpoint, path, "an object");
+  return value;
+};
+
+const requiredNumber: Decoder<number> = (value, path, endpoint) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) throw new ResponseValidationError(endpoint, path, "a number");
+  return value;
+};
+
+const stringArray: Decoder<string[]> = (value, path, endpoint) => {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new ResponseValidationError(endpoint, path, "an array of strings");
+  }
+  return value;
+};
+
+const requiredString: Decoder<string> = (value, path, endpoint) => {
+  if (typeof value !== "string" || value === "") {
+    throw new ResponseValidationError(endpoint, path, "a non-empty string");
+  }
+  return value;
+};
+
+const optionalString: Decoder<string | undefined> = (value, path, endpoint) => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") throw new ResponseValidationError(endpoint, path, "a string");
+  return value;
+};
+
+const optionalNumber: Decoder<number | undefined> = (value, path, endpoint) => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number") throw new ResponseValidationError(endpoint, path, "a number");
+  return value;
+};
+
+const optionalBoolean: Decoder<boolean | undefined> = (value, path, endpoint) => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "boolean") throw new ResponseValidationError(endpoint, path, "a boolean");
+  return value;
+};
+
+const envelope = <T>(decodeData: Decoder<T>): Decoder<ApiEnvelope<T>> => (value, path, endpoint) => {
+  const body = record(value, path, endpoint);
+  if (body.success !== undefined && typeof body.success !== "boolean") {
+    throw new ResponseValidationError(endpoint, `${path}.success`, "a boolean");
+  }
+  return {
+    success: body.success as boolean | undefined,
+    message: optionalString(body.message, `${path}.message`, endpoint),
+    data: decodeData(body.data, `${path}.data`, endpoint),
+  };
+};
+
+const ack: Decoder<ApiAck> = envelope((value, path, endpoint) => {
+  if (value === undefined || value === null) return null;
+  return record(value, path, endpoint);
+});
+
+const checkTelegramIdData: Decoder<CheckTelegramIdData> = (value, path, endpoint) => {
+  if (value === undefined || value === null) return {};
+  const data = record(value, path, endpoint);
+  return {
+    telegram_id: optionalNumber(data.telegram_id, `${path}.telegram_id`, endpoint),
+    registration_status: optionalString(data.registration_status, `${path}.registration_status`, endpoint),
+    kyc_status: optionalString(data.kyc_status, `${path}.kyc_status`, endpoint),
+    phone_number: optionalString(data.phone_number, `${path}.phone_number`, endpoint),
+    device_status: optionalString(data.device_status, `${path}.device_status`, endpoint),
+    registration_session_id: optionalString(data.registration_session_id, `${path}.registration_session_id`, endpoint),
+    device_id: optionalString(data.device_id, `${path}.device_id`, endpoint),
+    customer_id: optionalString(data.customer_id, `${path}.customer_id`, endpoint),
+    product_code: optionalString(data.product_code, `${path}.product_code`, endpoint),
+    account_number: optionalString(data.account_number, `${path}.account_number`, endpoint),
+  };
+};
+
+const deviceSessionData: Decoder<DeviceSessionData> = (value, path, endpoint) => {
+  const data = record(value, path, endpoint);
+  const deviceInfo = record(data.device_info, `${path}.device_info`, endpoint);
+  return {
+    registration_session_id: optionalString(data.registration_session_id, `${path}.registration_session_id`, endpoint),
+    device_info: {
+      device_id: requiredString(deviceInfo.device_id, `${path}.device_info.device_id`, endpoint),
+    },
+  };
+};
+
+const otpDispatchData: Decoder<OtpDispatchData> = (value, path, endpoint) => {
+  if (value === undefined || value === null) return {};
+  const data = record(value, path, endpoint);
+  return {
+    resend_after_seconds: optionalNumber(data.resend_after_seconds, `${path}.resend_after_seconds`, endpoint),
+  };
+};
+
+const verifyCustomerData: Decoder<VerifyCustomerData> = (value, path, endpoint) => {
+  const data = record(value, path, endpoint);
+  return {
+    customer_id: requiredString(data.customer_id, `${path}.customer_id`, endpoint),
+    product_code: requiredString(data.product_code, `${path}.product_code`, endpoint),
+    customer_name: optionalString(data.customer_name, `${path}.customer_name`, endpoint),
+    product_name: optionalString(data.product_name, `${path}.product_name`, endpoint),
+    customer_group: optionalString(data.customer_group, `${path}.customer_group`, endpoint),
+    tier_group: optionalString(data.tier_group, `${path}.tier_group`, endpoint),
+  };
+};
+
+const pinEncryptionKeyData: Decoder<PinEncryptionKeyData> = (value, path, endpoint) => {
+  const data = record(value, path, endpoint);
+  return {
+    key_id: requiredString(data.key_id, `${path}.key_id`, endpoint),
+    public_key: requiredString(data.public_key, `${path}.public_key`, endpoint),
+  };
+};
+
+const appSessionData: Decoder<AppSessionData> = (value, path, endpoint) => {
+  const data = record(value, path, endpoint);
+  return {
+    session_token: requiredString(data.session_token, `${path}.session_token`, endpoint),
+    expires_in_seconds: requiredNumber(data.expires_in_seconds, `${path}.expires_in_seconds`, endpoint),
+  };
+};
+
+// Older backends acknowledge registration without issuing a session.
+const onePulseRegistrationData: Decoder<OnePulseRegistrationData> = (value, path, endpoint) => {
+  if (value === undefined || value === null) return {};
+  const data = record(value, path, endpoint);
+  return {
+    app_session: data.app_session === undefined || data.app_session === null
+      ? undefined
+      : appSessionData(data.app_session, `${path}.app_session`, endpoint),
+    kyc_required: optionalBoolean(data.kyc_required, `${path}.kyc_required`, endpoint),
+    kyc_status: optionalString(data.kyc_status, `${path}.kyc_status`, endpoint),
+  };
+};
+
+const kycUploadData: Decoder<KycUploadData> = (value, path, endpoint) => {
+  const data = record(value, path, endpoint);
+  return {
+    upload_id: requiredString(data.upload_id, `${path}.upload_id`, endpoint),
+  };
+};
+
+const kycSubmitData: Decoder<KycSubmitData> = (value, path, endpoint) => {
+  const data = record(value, path, endpoint);
+  return {
+    kyc_status: requiredString(data.kyc_status, `${path}.kyc_status`, endpoint),
+  };
+};
+
+const biometricTokenData: Decoder<BiometricTokenData> = (value, path, endpoint) => {
+  const data = record(value, path, endpoint);
+  return {
+    biometric_token: requiredString(data.biometric_token, `${path}.biometric_token`, endpoint),
+  };
+};
+
+const deviceRebindData: Decoder<DeviceRebindData> = (value, path, endpoint) => {
+  const data = record(value, path, endpoint);
+  return {
+    rebind_session_id: requiredString(data.rebind_session_id, `${path}.rebind_session_id`, endpoint),
+    resend_after_seconds: optionalNumber(data.resend_after_seconds, `${path}.resend_after_seconds`, endpoint),
+  };
+};
+
+const customerProfileData: Decoder<CustomerProfileData> = (value, path, endpoint) => {
+  const data = record(value, path, endpoint);
+  return {
+    customer_id: requiredString(data.customer_id, `${path}.customer_id`, endpoint),
+    customer_name: optionalString(data.customer_name, `${path}.customer_name`, endpoint),
+    account_number: requiredString(data.account_number, `${path}.account_number`, endpoint),
+    product_code: requiredString(data.product_code, `${path}.product_code`, endpoint),
+    kyc_status: requiredString(data.kyc_status, `${path}.kyc_status`, endpoint),
+    allowed_financial_actions: stringArray(data.allowed_financial_actions ?? [], `${path}.allowed_financial_actions`, endpoint),
+  };
+};
+
+const accountBalanceData: Decoder<AccountBalanceData> = (value, path, endpoint) => {
+  const data = record(value, path, endpoint);
+  return {
+    available_balance: requiredNumber(data.available_balance, `${path}.available_balance`, endpoint),
+    currency: requiredString(data.currency, `${path}.currency`, endpoint),
+    as_of: optionalString(data.as_of, `${path}.as_of`, endpoint),
+  };
+};
+
+const transactionData: Decoder<TransactionData> = (value, path, endpoint) => {
+  const data = record(value, path, endpoint);
+  if (data.direction !== "credit" && data.direction !== "debit") {
+    throw new ResponseValidationError(endpoint, `${path}.direction`, '"credit" or "debit"');
+  }
+  return {
+    id: requiredString(data.id, `${path}.id`, endpoint),
+    amount: requiredNumber(data.amount, `${path}.amount`, endpoint),
+    currency: requiredString(data.currency, `${path}.currency`, endpoint),
+    direction: data.direction,
+    description: optionalString(data.description, `${path}.description`, endpoint),
+    posted_at: requiredString(data.posted_at, `${path}.posted_at`, endpoint),
+  };
+};
+
+const transactionsData: Decoder<TransactionsData> = (value, path, endpoint) => {
+  const data = record(value, path, endpoint);
+  const list = data.transactions ?? [];
+  if (!Array.isArray(list)) throw new ResponseValidationError(endpoint, `${path}.transactions`, "an array");
+  return { transactions: list.map((item, i) => transactionData(item, `${path}.transactions[${i}]`, endpoint)) };
+};
+
+// --- REQUEST POLICY ---
+
+interface EndpointPolicy {
+  timeoutMs: number;
+  // Mutating endpoints send an `Idempotency-Key` derived from these payload
+  // fields, so a retry of the same step is recognised by the backend even
+  // when parts of the payload (timestamps, ciphertexts) differ between tries.
+  idempotencyScope?: (payload: never) => unknown;
+}
+
+const READ_POLICY: EndpointPolicy = { timeoutMs: 10_000 };
+const mutating = (timeoutMs: number, idempotencyScope: EndpointPolicy["idempotencyScope"] = (payload) => payload): EndpointPolicy =>
+  ({ timeoutMs, idempotencyScope });
+
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 4_000;
+
+// Gateway answers that say nothing about whether the request was processed.
+// 429 is left out: the OTP endpoints use it for deliberate cooldowns.
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+// Exponential backoff with full jitter.
+const retryDelay = (attempt: number) =>
+  Math.random() * Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// --- CLIENT ---
+
+export interface RequestReport {
+  endpoint: string;
+  outcome: "success" | "http-error" | "network-error" | "invalid-response";
+  // Wall time across all attempts, including offline waits and backoff.
+  durationMs: number;
+  attempts: number;
+  status?: number;
+}
+
+export interface OnePulseClientOptions {
+  baseUrl: string;
+  // Read lazily so the client can be created before launch params are known.
+  getInitData?: () => string | undefined;
+  // Token from PIN login, sent to the endpoints behind it.
+  getAppSession?: () => string | undefined;
+  fetchImpl?: typeof fetch;
+  // Called once per call after its final attempt, for latency and outcome metrics.
+  onRequestComplete?: (report: RequestReport) => void;
+}
+
+export const createOnePulseClient = ({ baseUrl, getInitData, getAppSession, fetchImpl = fetch, onRequestComplete }: OnePulseClientOptions) => {
+  const buildHeaders = (): Record<string, string> => {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-Channel-Id": "telegram",
+      "X-Timestamp": new Date().toISOString(),
+      "X-App-Version": APP_VERSION,
+    };
+    const initData = getInitData?.();
+    if (initData) headers["X-Telegram-Init"] = initData;
+    const appSession = getAppSession?.();
+    if (appSession) headers["X-App-Session"] = appSession;
+    return headers;
+  };
+
+  // Idempotency keys of requests whose outcome is unknown, so the next try
+  // of the same step reuses them. Dropped once the backend gives a definitive answer.
+  const pendingIdempotencyKeys = new Map<string, string>();
+
+  const idempotencyKeyFor = (endpoint: string, scope: unknown) => {
+    const id = `${endpoint}|${JSON.stringify(scope)}`;
+    let key = pendingIdempotencyKeys.get(id);
+    if (!key) {
+      key = crypto.randomUUID();
+      pendingIdempotencyKeys.set(id, key);
+    }
+    return { id, key };
+  };
+
+  const send = async (endpoint: string, payload: object, policy: EndpointPolicy, idempotencyKey?: string) => {
+    const headers = buildHeaders();
+    if (idempotencyKey) headers["Idempotency-Key"] = idempotencyKey;
+    // The browser sets the multipart boundary itself.
+    if (payload instanceof FormData) delete headers["Content-Type"];
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), policy.timeoutMs);
+    try {
+      return await fetchImpl(`${baseUrl}${endpoint}`, {
+        method: "POST",
+        headers,
+        body: payload instanceof FormData ? payload : JSON.stringify(payload),
+        signal: controller.signal,
+      });
+    } catch {
+      throw new OnePulseNetworkError(endpoint, controller.signal.aborted ? "timeout" : "network");
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  const post = async <P extends object, T>(endpoint: string, payload: P, decode: Decoder<T>, policy: EndpointPolicy): Promise<T> => {
+    const startedAt = Date.now();
+    let attempts = 0;
+    const report = (outcome: RequestReport["outcome"], status?: number) =>
+      onRequestComplete?.({ endpoint, outcome, durationMs: Date.now() - startedAt, attempts, status });
+
+    const idempotency = policy.idempotencyScope
+      ? idempotencyKeyFor(endpoint, (policy.idempotencyScope as (payload: P) => unknown)(payload))
+      : undefined;
+
+    let response: Response | undefined;
+    for (let attempt = 1; ; attempt++) {
+      // Offline time does not count against the attempts.
+      await waitForOnline();
+      attempts++;
+      try {
+        response = await send(endpoint, payload, policy, idempotency?.key);
+        if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= MAX_ATTEMPTS) break;
+      } catch (err) {
+        if (!isOnline()) { attempt--; continue; }
+        if (attempt >= MAX_ATTEMPTS) {
+          report("network-error");
+          throw err;
+        }
+      }
+      await sleep(retryDelay(attempt));
+    }
+
+    if (idempotency && !RETRYABLE_STATUSES.includes(response.status)) {
+      pendingIdempotencyKeys.delete(idempotency.id);
+    }
+
+    const body: unknown = await response.json().catch(() => undefined);
+
+    if (!response.ok) {
+      report("http-error", response.status);
+      const message = isRecord(body) && typeof body.message === "string" ? body.message : undefined;
+      throw new OnePulseApiError(
+        message || `Request failed: ${response.status} ${response.statusText}`,
+        response.status,
+        endpoint,
+        body,
+      );
+    }
+
+    try {
+      const decoded = decode(body, "response", endpoint);
+      report("success", response.status);
+      return decoded;
+    } catch (err) {
+      report("invalid-response", response.status);
+      throw err;
+    }
+  };
+
+  return {
+    checkTelegramId: (payload: CheckIdPayload): Promise<CheckTelegramIdResponse> =>
+      post("/api/v1/customers/checkTelegramID", payload, envelope(checkTelegramIdData), READ_POLICY),
+
+    shareContact: (payload: ShareContactPayload): Promise<ApiAck> =>
+      post("/api/v1/customers/share-contact", payload, ack, mutating(10_000)),
+
+    startDeviceSession: (payload: DeviceSessionPayload): Promise<DeviceSessionResponse> =>
+      post("/api/v1/device-session-start", payload, envelope(deviceSessionData), mutating(15_000, (p: DeviceSessionPayload) =>
+        [p.telegram_id, p.phone_number, p.device_info.device_id])),
+
+    verifySim: (payload: SimVerifyPayload): Promise<OtpDispatchResponse> =>
+      post("/api/v1/SIM-Verify", payload, envelope(otpDispatchData), mutating(20_000)),
+
+    verifyCode: (payload: VerifyCodePayload): Promise<ApiAck> =>
+      post("/api/v1/verifyCode", payload, ack, mutating(10_000)),
+
+    resendCode: (payload: ResendCodePayload): Promise<OtpDispatchResponse> =>
+      post("/api/v1/resendCode", payload, envelope(otpDispatchData), mutating(15_000)),
+
+    verifyCustomer: (payload: VerifyCustomerPayload): Promise<VerifyCustomerResponse> =>
+      post("/api/v1/verifyCustomer", payload, envelope(verifyCustomerData), { timeoutMs: 15_000 }),
+
+    validateProduct: (payload: ProductValidationPayload): Promise<ApiAck> =>
+      post("/api/v1/product-validation", payload, ack, READ_POLICY),
+
+    getPinEncryptionKey: (payload: PinEncryptionKeyPayload): Promise<PinEncryptionKeyResponse> =>
+      post("/api/v1/pin-encryption-key", payload, envelope(pinEncryptionKeyData), READ_POLICY),
+
+    getCustomerProfile: (payload: CustomerProfilePayload): Promise<CustomerProfileResponse> =>
+      post("/api/v1/customers/profile", payload, envelope(customerProfileData), READ_POLICY),
+
+    getBalance: (payload: AccountPayload): Promise<AccountBalanceResponse> =>
+      post("/api/v1/accounts/balance", payload, envelope(accountBalanceData), READ_POLICY),
+
+    getTransactions: (payload: TransactionsPayload): Promise<TransactionsResponse> =>
+      post("/api/v1/accounts/transactions", payload, envelope(transactionsData), READ_POLICY),
+
+    registerOnePulse: (payload: OnePulseRegistrationPayload): Promise<OnePulseRegistrationResponse> =>
+      post("/api/v1/onepulse-registration", payload, envelope(onePulseRegistrationData), mutating(30_000, (p: OnePulseRegistrationPayload) =>
+        [p.telegram_id, p.session_id])),
+
+    // Keyed so a gateway retry is not counted as a second wrong PIN. The
+    // credential is part of the key: a PIN is encrypted afresh on every submit,
+    // so a new attempt (say, a different PIN after a network error) never
+    // replays the answer to the last one.
+    loginWithPin: (payload: PinLoginPayload): Promise<AppSessionResponse> =>
+      post("/api/v1/auth/pin-login", payload, envelope(appSessionData), mutating(15_000, (p: PinLoginPayload) =>
+        [p.telegram_id, p.device_id, p.pin_key_id, p.encrypted_pin])),
+
+    loginWithBiometrics: (payload: BiometricLoginPayload): Promise<AppSessionResponse> =>
+      post("/api/v1/auth/biometric-login", payload, envelope(appSessionData), mutating(15_000, (p: BiometricLoginPayload) =>
+        [p.telegram_id, p.device_id, p.biometric_token])),
+
+    // Both require the app session.
+    enableBiometricLogin: (payload: BiometricEnablePayload): Promise<BiometricTokenResponse> =>
+      post("/api/v1/auth/biometric/enable", payload, envelope(biometricTokenData), mutating(15_000)),
+
+    disableBiometricLogin: (payload: BiometricDisablePayload): Promise<ApiAck> =>
+      post("/api/v1/auth/biometric/disable", payload, ack, mutating(10_000)),
+
+    startDeviceRebind: (payload: DeviceRebindStartPayload): Promise<DeviceRebindResponse> =>
+      post("/api/v1/devices/rebind/start", payload, envelope(deviceRebindData), mutating(20_000, (p: DeviceRebindStartPayload) =>
+        [p.telegram_id, p.device_info.device_id])),
+
+    resendRebindCode: (payload: DeviceRebindResendPayload): Promise<OtpDispatchResponse> =>
+      post("/api/v1/devices/rebind/resend", payload, envelope(otpDispatchData), mutating(15_000)),
+
+    confirmDeviceRebind: (payload: DeviceRebindConfirmPayload): Promise<ApiAck> =>
+      post("/api/v1/devices/rebind/confirm", payload, ack, mutating(10_000)),
+
+    // KYC images are uploaded in chunks (see utils/kycUpload.ts), then submitted together.
+    startKycUpload: (payload: KycUploadStartPayload): Promise<KycUploadResponse> =>
+      post("/api/v1/kyc/uploads/start", payload, envelope(kycUploadData), mutating(15_000)),
+
+    uploadKycChunk: ({ upload_id, index, chunk, telegram_id }: KycUploadChunkPayload): Promise<ApiAck> => {
+      const form = new FormData();
+      form.append("upload_id", upload_id);
+      form.append("index", String(index));
+      form.append("telegram_id", telegram_id);
+      form.append("chunk", chunk, `chunk-${index}`);
+      return post("/api/v1/kyc/uploads/chunk", form, ack, mutating(30_000, () => [upload_id, index]));
+    },
+
+    completeKycUpload: (payload: KycUploadCompletePayload): Promise<ApiAck> =>
+      post("/api/v1/kyc/uploads/complete", payload, ack, mutating(15_000)),
+
+    submitKyc: (payload: KycSubmitPayload): Promise<KycSubmitResponse> =>
+      post("/api/v1/kyc/submit", payload, envelope(kycSubmitData), mutating(20_000)),
+  };
+};
+
+export type OnePulseClient = ReturnType<typeof createOnePulseClient>;
@@ -0,0 +1,30 @@
+import { AttemptFailure, attemptFailureFrom, errorBody, numberField } from '@/utils/attemptFailure';
+import { OnePulseApiError } from '@/utils/onePulseClient';
+
+// Activation code (OTP) rules shared by the OTP screen and the registration flow.
+
+export const OTP_LENGTH = 6;
+
+// Used when the backend does not send `resend_after_seconds`.
+export const DEFAULT_RESEND_COOLDOWN_SECONDS = 30;
+
+// Used when an OTP lockout does not say how long it lasts.
+export const DEFAULT_LOCKOUT_SECONDS = 5 * 60;
+
+export type OtpFailure = AttemptFailure;
+
+/** Reads a wrong-code or lockout answer from a failed verifyCode or rebind confirm call. */
+export const otpFailureFrom = (err: unknown): OtpFailure | null =>
+  attemptFailureFrom(err, {
+    endpoints: ['/api/v1/verifyCode', '/api/v1/devices/rebind/confirm'],
+    invalidCode: 'OTP_INVALID',
+    lockedCode: 'OTP_LOCKED',
+    invalidKind: 'otp-invalid',
+    defaultLockSeconds: DEFAULT_LOCKOUT_SECONDS,
+  });
+
+/** Seconds left in a resend cooldown reported by a failed resendCode call. */
+export const resendCooldownFrom = (err: unknown): number | undefined => {
+  if (!(err instanceof OnePulseApiError) || err.status !== 429) return undefined;
+  return numberField(errorBody(err), 'retry_after_seconds') ?? DEFAULT_RESEND_COOLDOWN_SECONDS;
+};
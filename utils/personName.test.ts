@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { NAME_MAX_LENGTH, nameFields, normalizeName, transliterateName } from '@/utils/personName';
+
+// Display names as Telegram users set them.
+describe('normalizeName', () => {
+  it.each([
+    ['plain Latin', 'Abebe', 'Abebe'],
+    ['flag emoji', 'Abebe 🇪🇹', 'Abebe'],
+    ['emoji between words', 'Selam✨Tesfaye', 'Selam Tesfaye'],
+    ['ZWJ family emoji', 'Hana 👨\u200d👩\u200d👧', 'Hana'],
+    ['zero-width space', 'José\u200bMaría', 'José María'],
+    ['zero-width joiner and BOM', 'Liya\u200d\ufeff', 'Liya'],
+    ['right-to-left mark', '\u200fSara', 'Sara'],
+    ['Ethiopic', 'ብርሃኑ', 'ብርሃኑ'],
+    ['Ethiopic with emoji', '🌻 ትዕግስት 🌻', 'ትዕግስት'],
+    ['curly apostrophe', 'O’Brien', "O'Brien"],
+    ['backtick apostrophe', 'D`Angelo', "D'Angelo"],
+    ['en dash as hyphen', 'Mary–Jane', 'Mary-Jane'],
+    ['decomposed accent', 'Jose\u0301', 'José'],
+    ['digits and symbols', 'xX_Dawit_99_Xx', 'xX Dawit Xx'],
+    ['stray separators', "--'Meron'--", 'Meron'],
+    ['repeated spaces', '  Kidist   Alemu  ', 'Kidist Alemu'],
+    ['only emoji', '🔥🔥🔥', ''],
+    ['undefined', undefined, ''],
+  ])('%s', (_, raw, expected) => {
+    expect(normalizeName(raw)).toBe(expected);
+  });
+
+  it(`truncates to ${NAME_MAX_LENGTH} characters`, () => {
+    expect(normalizeName('a'.repeat(100))).toHaveLength(NAME_MAX_LENGTH);
+  });
+
+  it('never splits a letter from its accent', () => {
+    const name = 'a'.repeat(NAME_MAX_LENGTH - 1) + 'e\u0323\u0301';
+    expect(normalizeName(name)).toBe('a'.repeat(NAME_MAX_LENGTH - 1));
+  });
+
+  it('drops a separator left at the end by truncation', () => {
+    expect(normalizeName(`${'a'.repeat(NAME_MAX_LENGTH - 1)} Bekele`)).toBe('a'.repeat(NAME_MAX_LENGTH - 1));
+  });
+});
+
+describe('transliterateName', () => {
+  it.each([
+    ['ብርሃኑ', 'Birhanu'],
+    ['ግርማ', 'Girma'],
+    ['ክብረት', 'Kibret'],
+    ['ሙሉጌታ', 'Mulugeta'],
+    ['እሌኒ', 'Eleni'],
+    ['José María', 'Jose Maria'],
+    ["O'Brien-Smith", "O'Brien-Smith"],
+    ['Søren Kierkegaard', 'Soren Kierkegaard'],
+    ['Łukasz', 'Lukasz'],
+    ['ብርሃኑ-ግርማ', 'Birhanu-Girma'],
+    ['Иван', ''],
+  ])('%s → %s', (name, expected) => {
+    expect(transliterateName(name)).toBe(expected);
+  });
+});
+
+describe('nameFields', () => {
+  it('sends ASCII names as they are', () => {
+    expect(nameFields({ firstName: 'Abebe', lastName: 'Kebede' })).toEqual({
+      first_name: 'Abebe',
+      last_name: 'Kebede',
+      first_name_latin: undefined,
+      last_name_latin: undefined,
+    });
+  });
+
+  it('adds Latin renderings of Ethiopic names', () => {
+    expect(nameFields({ firstName: 'ግርማ', lastName: 'ብርሃኑ' })).toMatchObject({
+      first_name: 'ግርማ',
+      last_name: 'ብርሃኑ',
+      first_name_latin: 'Girma',
+      last_name_latin: 'Birhanu',
+    });
+  });
+
+  it("falls back to 'User' when nothing of the first name survives", () => {
+    expect(nameFields({ firstName: '🔥🔥', lastName: undefined })).toEqual({
+      first_name: 'User',
+      last_name: '',
+      first_name_latin: undefined,
+      last_name_latin: undefined,
+    });
+  });
+
+  it('omits the Latin field when the script cannot be transliterated', () => {
+    expect(nameFields({ firstName: 'Иван' }).first_name_latin).toBeUndefined();
+  });
+});
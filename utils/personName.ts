@@ -0,0 +1,146 @@
+import { TelegramUser } from '@/types/user';
+
+// Cleans Telegram display names for the registration payload. Telegram
+// allows anything in a name (emoji, symbols, invisible characters); the
+// backend stores letters in any script, apostrophes, hyphens and spaces.
+//
+//   'Abebe 🇪🇹'           → 'Abebe'
+//   'ብርሃኑ'                → 'ብርሃኑ' (Latin: 'Birhanu')
+//   'O’Brien-Smith'      → "O'Brien-Smith"
+//   'José\u200bMaría'   → 'José María' (Latin: 'Jose Maria')
+
+// Backend limit for first_name and last_name, in characters.
+export const NAME_MAX_LENGTH = 64;
+
+// Used when nothing of the first name survives cleaning (e.g. only emoji).
+const FALLBACK_FIRST_NAME = 'User';
+
+// Letters (with their combining marks), apostrophes, hyphens and spaces.
+const NAME_CHARACTER = /[\p{L}\p{M}' -]/u;
+const APOSTROPHES = /[‘’`´]/g;
+const HYPHENS = /[‐‑‒–—]/g;
+
+const truncate = (name: string, maxLength: number): string => {
+  const segmenter = typeof Intl.Segmenter === 'function' ? new Intl.Segmenter(undefined, { granularity: 'grapheme' }) : null;
+  // Whole graphemes, so a letter never loses its accent.
+  const graphemes = segmenter ? Array.from(segmenter.segment(name), (s) => s.segment) : Array.from(name);
+  let result = '';
+  for (const grapheme of graphemes) {
+    if (result.length + grapheme.length > maxLength) break;
+    result += grapheme;
+  }
+  return result;
+};
+
+const tidy = (name: string): string =>
+  name
+    .replace(/\s+/g, ' ')
+    // One separator at a time, and none at the edges of a word.
+    .replace(/([' -])[' -]+/g, '$1')
+    .replace(/(^|\s)['-]+|['-]+(?=\s|$)/g, '$1')
+    .trim();
+
+/**
+ * NFC-normalizes a name and keeps only letters, apostrophes, hyphens and
+ * single spaces, capped at `maxLength` characters. Emoji, digits, symbols
+ * and control or zero-width characters become word breaks.
+ */
+export const normalizeName = (raw: string | undefined, maxLength = NAME_MAX_LENGTH): string => {
+  if (!raw) return '';
+  const cleaned = Array.from(
+    raw.normalize('NFC').replace(APOSTROPHES, "'").replace(HYPHENS, '-'),
+    (char) => (NAME_CHARACTER.test(char) ? char : ' '),
+  ).join('');
+  return tidy(truncate(tidy(cleaned), maxLength));
+};
+
+// --- TRANSLITERATION ---
+
+// Ethiopic syllables come in rows of eight: one consonant in seven vowel
+// orders plus a labialized form. Rows are listed from U+1200.
+const ETHIOPIC_CONSONANTS = [
+  'h', 'l', 'h', 'm', 's', 'r', 's', 'sh', 'k', 'kw', 'kh', 'khw', 'b', 'v', 't', 'ch',
+  'h', 'hw', 'n', 'ny', '', 'k', 'kw', 'kh', 'khw', 'w', '', 'z', 'zh', 'y', 'd', 'd',
+  'j', 'g', 'gw', 'ng', 't', 'ch', 'p', 'ts', 'ts', 'f', 'p',
+];
+const ETHIOPIC_VOWELS = ['e', 'u', 'i', 'a', 'e', '', 'o', 'wa'];
+// Rows of the vowel carriers አ and ዐ.
+const ETHIOPIC_GLOTTAL_VOWELS = ['a', 'u', 'i', 'a', 'e', 'e', 'o', 'wa'];
+const ETHIOPIC_START = 0x1200;
+const ETHIOPIC_END = ETHIOPIC_START + ETHIOPIC_CONSONANTS.length * 8;
+// Sixth-order syllables carry either a short vowel or none at all.
+const SIXTH_ORDER = 5;
+
+const isEthiopic = (char: string) => {
+  const code = char.codePointAt(0)!;
+  return code >= ETHIOPIC_START && code < ETHIOPIC_END;
+};
+
+// The sixth order is read with a vowel at the start of a word (ግርማ → Girma,
+// እሌኒ → Eleni) and without one elsewhere (ክብረት → Kibret, ሙሉጌታ → Mulugeta).
+const transliterateEthiopic = (char: string, wordStart: boolean, nextIsEthiopic: boolean): string => {
+  const offset = char.codePointAt(0)! - ETHIOPIC_START;
+  const consonant = ETHIOPIC_CONSONANTS[offset >> 3];
+  const order = offset & 7;
+  if (consonant === '') {
+    return order === SIXTH_ORDER && !wordStart ? '' : ETHIOPIC_GLOTTAL_VOWELS[order];
+  }
+  if (order === SIXTH_ORDER) return consonant + (wordStart && nextIsEthiopic ? 'i' : '');
+  return consonant + ETHIOPIC_VOWELS[order];
+};
+
+// Latin letters that do not decompose into a base letter and an accent.
+const LATIN_LETTERS: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'Æ': 'AE', 'ø': 'o', 'Ø': 'O', 'œ': 'oe', 'Œ': 'OE',
+  'đ': 'd', 'Đ': 'D', 'ł': 'l', 'Ł': 'L', 'þ': 'th', 'Þ': 'Th', 'ı': 'i', 'ʼ': "'",
+};
+
+// One part of a name; hyphenated parts are transliterated separately.
+const transliterateWord = (word: string): string => {
+  const chars = Array.from(word);
+  const latin = chars.map((char, i) => {
+    if (isEthiopic(char)) return transliterateEthiopic(char, i === 0, i + 1 < chars.length && isEthiopic(chars[i + 1]));
+    if (LATIN_LETTERS[char]) return LATIN_LETTERS[char];
+    // Drops accents; letters from scripts we cannot transliterate are dropped too.
+    return char.normalize('NFD').replace(/[^A-Za-z'-]/g, '');
+  }).join('');
+  // Ethiopic has no letter case.
+  return isEthiopic(chars[0] ?? '') ? latin.charAt(0).toUpperCase() + latin.slice(1) : latin;
+};
+
+/**
+ * ASCII rendering of a normalized name for systems that cannot store
+ * Unicode. Handles accented Latin and Ethiopic; other scripts are dropped,
+ * so the result may be empty.
+ */
+export const transliterateName = (name: string, maxLength = NAME_MAX_LENGTH): string =>
+  tidy(truncate(tidy(name.split(' ').map((word) => word.split('-').map(transliterateWord).join('-')).join(' ')), maxLength));
+
+// --- PAYLOAD ---
+
+export interface NameFields {
+  first_name: string;
+  last_name: string;
+  // Only sent when the name is not plain ASCII and something could be transliterated.
+  first_name_latin?: string;
+  last_name_latin?: string;
+}
+
+const isAscii = (name: string) => /^[\x20-\x7e]*$/.test(name);
+
+const latinOf = (name: string): string | undefined => {
+  if (isAscii(name)) return undefined;
+  return transliterateName(name) || undefined;
+};
+
+/** Name fields of the checkTelegramID payload. */
+export const nameFields = (user: Pick<TelegramUser, 'firstName' | 'lastName'>): NameFields => {
+  const firstName = normalizeName(user.firstName) || FALLBACK_FIRST_NAME;
+  const lastName = normalizeName(user.lastName);
+  return {
+    first_name: firstName,
+    last_name: lastName,
+    first_name_latin: latinOf(firstName),
+    last_name_latin: latinOf(lastName),
+  };
+};
@@ -0,0 +1,166 @@
+// Phone number parsing, validation and E.164 normalization for the markets
+// OnePulse serves. Only mobile ranges are accepted: every number we register
+// receives an OTP by SMS and goes through SIM verification.
+
+export type CountryCode = 'ET' | 'KE' | 'DJ';
+
+export interface CountryRule {
+  code: CountryCode;
+  name: string;
+  flag: string;
+  dialCode: string;
+  // Digits after the dial code, without the trunk prefix.
+  nationalLength: number;
+  // Leading digits of valid mobile numbers.
+  mobilePrefixes: string[];
+  // Dialled before national numbers inside the country (e.g. 0911...).
+  trunkPrefix?: string;
+  // Display grouping of the national number.
+  groups: number[];
+  example: string;
+}
+
+// Ordered by market priority; the first entry is the default country.
+export const COUNTRIES: CountryRule[] = [
+  {
+    code: 'ET',
+    name: 'Ethiopia',
+    flag: '🇪🇹',
+    dialCode: '251',
+    nationalLength: 9,
+    // 9x: Ethio Telecom, 7x: Safaricom Ethiopia.
+    mobilePrefixes: ['9', '7'],
+    trunkPrefix: '0',
+    groups: [2, 3, 4],
+    example: '91 123 4567',
+  },
+  {
+    code: 'KE',
+    name: 'Kenya',
+    flag: '🇰🇪',
+    dialCode: '254',
+    nationalLength: 9,
+    mobilePrefixes: ['7', '10', '11'],
+    trunkPrefix: '0',
+    groups: [3, 3, 3],
+    example: '712 345 678',
+  },
+  {
+    code: 'DJ',
+    name: 'Djibouti',
+    flag: '🇩🇯',
+    dialCode: '253',
+    nationalLength: 8,
+    mobilePrefixes: ['77'],
+    groups: [2, 2, 2, 2],
+    example: '77 83 10 01',
+  },
+];
+
+export const DEFAULT_COUNTRY: CountryCode = 'ET';
+
+export type PhoneValidationError =
+  | 'empty'
+  | 'invalid-characters'
+  | 'unsupported-country'
+  | 'invalid-length'
+  | 'invalid-prefix';
+
+export type PhoneParseResult =
+  | { ok: true; e164: string; country: CountryRule; nationalNumber: string }
+  | { ok: false; error: PhoneValidationError; country?: CountryRule };
+
+export const getCountry = (code: CountryCode): CountryRule =>
+  COUNTRIES.find((country) => country.code === code) ?? COUNTRIES[0];
+
+// Telegram language codes of languages mostly spoken in one of our markets.
+const LANGUAGE_COUNTRIES: Record<string, CountryCode> = {
+  am: 'ET',
+  om: 'ET',
+  ti: 'ET',
+  so: 'ET',
+  sw: 'KE',
+};
+
+/**
+ * Picks the default country from a locale region (e.g. `en-KE`) first, then
+ * from the Telegram `language_code`, then falls back to Ethiopia.
+ */
+export const defaultCountryFor = (languageCode?: string, locale?: string): CountryCode => {
+  for (const tag of [locale, languageCode]) {
+    const region = tag?.split(/[-_]/)[1]?.toUpperCase();
+    const match = COUNTRIES.find((country) => country.code === region);
+    if (match) return match.code;
+  }
+  const language = languageCode?.split(/[-_]/)[0]?.toLowerCase();
+  return (language && LANGUAGE_COUNTRIES[language]) || DEFAULT_COUNTRY;
+};
+
+const validateNational = (country: CountryRule, nationalNumber: string): PhoneParseResult => {
+  if (nationalNumber.length !== country.nationalLength) {
+    return { ok: false, error: 'invalid-length', country };
+  }
+  if (!country.mobilePrefixes.some((prefix) => nationalNumber.startsWith(prefix))) {
+    return { ok: false, error: 'invalid-prefix', country };
+  }
+  return { ok: true, e164: `+${country.dialCode}${nationalNumber}`, country, nationalNumber };
+};
+
+/**
+ * Parses what a user typed (or what Telegram shared) into an E.164 number.
+ * International input (`+251...`, `00251...`) picks its own country;
+ * anything else is read as a national number of `defaultCountry`.
+ */
+export const parsePhoneNumber = (input: string, defaultCountry: CountryCode = DEFAULT_COUNTRY): PhoneParseResult => {
+  const compact = input.trim().replace(/[\s\-().]/g, '');
+  if (!compact) return { ok: false, error: 'empty' };
+
+  const international = compact.startsWith('+') || compact.startsWith('00');
+  const digits = compact.replace(/^(\+|00)/, '');
+  if (!/^\d+$/.test(digits)) return { ok: false, error: 'invalid-characters' };
+
+  if (international) {
+    const country = COUNTRIES.find((candidate) => digits.startsWith(candidate.dialCode));
+    if (!country) return { ok: false, error: 'unsupported-country' };
+    return validateNational(country, digits.slice(country.dialCode.length));
+  }
+
+  const country = getCountry(defaultCountry);
+
+  // Dial code typed without "+" (e.g. 251911234567).
+  if (digits.length === country.dialCode.length + country.nationalLength && digits.startsWith(country.dialCode)) {
+    return validateNational(country, digits.slice(country.dialCode.length));
+  }
+
+  const national = country.trunkPrefix && digits.startsWith(country.trunkPrefix)
+    ? digits.slice(country.trunkPrefix.length)
+    : digits;
+  return validateNational(country, national);
+};
+
+/** Formats an E.164 number for display, e.g. `+251 91 123 4567`. */
+export const formatPhoneNumber = (e164: string): string => {
+  const digits = e164.replace(/^\+/, '');
+  const country = COUNTRIES.find((candidate) => digits.startsWith(candidate.dialCode));
+  if (!country) return e164;
+
+  let rest = digits.slice(country.dialCode.length);
+  const parts: string[] = [];
+  for (const size of country.groups) {
+    if (!rest) break;
+    parts.push(rest.slice(0, size));
+    rest = rest.slice(size);
+  }
+  if (rest) parts.push(rest);
+  return `+${country.dialCode} ${parts.join(' ')}`;
+};
+
+const VISIBLE_DIGITS = 2;
+
+/** Masks all but the dial code and the last two digits, e.g. `+251 •••• 67`. */
+export const maskPhoneNumber = (e164: string): string => {
+  const digits = e164.replace(/^\+/, '');
+  const country = COUNTRIES.find((candidate) => digits.startsWith(candidate.dialCode));
+  const prefix = country ? `+${country.dialCode} ` : '';
+  return `${prefix}•••• ${digits.slice(-VISIBLE_DIGITS)}`;
+};
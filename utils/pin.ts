@@ -0,0 +1,97 @@
+import { AttemptFailure, attemptFailureFrom } from '@/utils/attemptFailure';
+import type { MessageKey } from '@/utils/i18n';
+
+// PIN rules and client-side PIN encryption.
+//
+// The PIN only ever exists in the PIN setup screen's state and in the submit
+// call; it is encrypted with the backend's RSA-OAEP public key before it is
+// put on the wire, so neither the proxy nor any log sees it in plaintext.
+
+export const PIN_LENGTH = 4;
+
+export type PinWeakness = 'repeated' | 'sequence' | 'birth-year';
+
+const EARLIEST_BIRTH_YEAR = 1900;
+
+const isRepeated = (digits: number[]): boolean => {
+  const [a, b, c, d] = digits;
+  return (
+    digits.every((digit) => digit === a) || // 0000
+    (a === c && b === d) ||                 // 1212
+    (a === b && c === d)                    // 1122
+  );
+};
+
+// Ascending or descending runs such as 1234, 6789, 4321 or 3210.
+const isSequence = (digits: number[]): boolean => {
+  const step = digits[1] - digits[0];
+  if (step !== 1 && step !== -1) return false;
+  return digits.every((digit, i) => i === 0 || digit - digits[i - 1] === step);
+};
+
+const isBirthYear = (pin: string, now: Date): boolean => {
+  const year = Number(pin);
+  return year >= EARLIEST_BIRTH_YEAR && year <= now.getFullYear();
+};
+
+/** Returns why a PIN is too easy to guess, or `null` if it is acceptable. */
+export const pinWeakness = (pin: string, now: Date = new Date()): PinWeakness | null => {
+  const digits = Array.from(pin, Number);
+  if (isRepeated(digits)) return 'repeated';
+  if (isSequence(digits)) return 'sequence';
+  if (isBirthYear(pin, now)) return 'birth-year';
+  return null;
+};
+
+export const PIN_WEAKNESS_MESSAGES: Record<PinWeakness, MessageKey> = {
+  'repeated': 'pinSetup.weak.repeated',
+  'sequence': 'pinSetup.weak.sequence',
+  'birth-year': 'pinSetup.weak.birthYear',
+};
+
+// --- ENCRYPTION ---
+
+const RSA_OAEP: RsaHashedImportParams = { name: 'RSA-OAEP', hash: 'SHA-256' };
+
+// Accepts a PEM-encoded or bare base64 SPKI public key.
+const spkiBytes = (publicKey: string): Uint8Array<ArrayBuffer> => {
+  const base64 = publicKey.replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '').replace(/\s+/g, '');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+const toBase64 = (buffer: ArrayBuffer): string =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+// What a ciphertext is bound to: the registration session when the PIN is
+// set, the device when it is used to log in.
+export type PinBinding = { session_id: string } | { device_id: string };
+
+/**
+ * Encrypts the PIN for the registration or login call. The binding is
+ * encrypted alongside it so a captured ciphertext cannot be replayed into
+ * another session or from another device.
+ */
+export const encryptPin = async (pin: string, publicKey: string, binding: PinBinding): Promise<string> => {
+  const key = await crypto.subtle.importKey('spki', spkiBytes(publicKey), RSA_OAEP, false, ['encrypt']);
+  const plaintext = new TextEncoder().encode(JSON.stringify({ pin, ...binding }));
+  try {
+    return toBase64(await crypto.subtle.encrypt(RSA_OAEP, key, plaintext));
+  } finally {
+    plaintext.fill(0);
+  }
+};
+
+// --- LOGIN ---
+
+// Used when a PIN lockout does not say how long it lasts.
+const DEFAULT_PIN_LOCK_SECONDS = 5 * 60;
+
+/** Reads a wrong-PIN or lockout answer from a failed PIN login. */
+export const pinFailureFrom = (err: unknown): AttemptFailure | null =>
+  attemptFailureFrom(err, {
+    endpoints: ['/api/v1/auth/pin-login'],
+    invalidCode: 'PIN_INVALID',
+    lockedCode: 'PIN_LOCKED',
+    invalidKind: 'pin-invalid',
+    defaultLockSeconds: DEFAULT_PIN_LOCK_SECONDS,
+  });
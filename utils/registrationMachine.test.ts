@@ -0,0 +1,366 @@
+import { describe, expect, it } from 'vitest';
+import type { AppError } from '@/utils/appError';
+import type { LinkedAccount } from '@/utils/linkedAccounts';
+import {
+  AppStatus,
+  backTarget,
+  canSubmit,
+  initialRegistrationState,
+  InputStep,
+  ProcessingStep,
+  RegistrationEvent,
+  registrationReducer,
+  RegistrationState,
+} from '@/utils/registrationMachine';
+
+const error: AppError = { kind: 'network', recovery: { type: 'retry' }, detail: 'Failed to fetch' };
+
+const account = (accountNumber: string, overrides: Partial<LinkedAccount> = {}): LinkedAccount => ({
+  accountNumber,
+  bankName: 'CBE',
+  customerId: `customer-${accountNumber}`,
+  customerName: 'Abebe Kebede',
+  productCode: 'ONEPULSE',
+  productName: 'OnePulse',
+  ...overrides,
+});
+
+// Everything a step's guard can ask for, so only the status decides.
+const context: Partial<RegistrationState> = {
+  sessionId: 'session-1',
+  verifiedDeviceId: 'device-1',
+  deviceFingerprint: 'fingerprint-1',
+  customerId: 'customer-1',
+  productCode: 'ONEPULSE',
+  rebindSessionId: 'rebind-1',
+  pendingAccount: account('1000123456799'),
+};
+
+const at = (status: AppStatus, overrides: Partial<RegistrationState> = {}): RegistrationState =>
+  ({ ...initialRegistrationState, ...context, status, ...overrides });
+
+const run = (state: RegistrationState, ...events: RegistrationEvent[]): RegistrationState =>
+  events.reduce(registrationReducer, state);
+
+// Each loading state, the input step it was submitted from, and where BACK goes from its error.
+const PROCESSING: [ProcessingStep, InputStep | null, AppStatus | undefined][] = [
+  ['checking', null, 'idle'],
+  ['processing-registration', 'phone-entry', 'id-verified'],
+  ['verifying-otp', 'otp-entry', 'phone-entry'],
+  ['processing-customer', 'account-entry', 'otp-entry'],
+  ['validating-product', 'account-confirmation', 'account-entry'],
+  ['registering-onepulse', 'pin-setup', 'account-entry'],
+  ['rebinding-device', 'rebind-otp', undefined],
+  ['unlocking', 'pin-unlock', undefined],
+  ['submitting-kyc', 'kyc-capture', undefined],
+  ['enabling-biometrics', 'biometric-setup', undefined],
+];
+
+const INPUT_STEPS = PROCESSING.flatMap(([, step]) => (step ? [step] : []));
+
+describe('registrationReducer', () => {
+  describe('new customers', () => {
+    it('walks the funnel from the ID check to completion', () => {
+      const primary = account('1000123456799');
+      let state = run(initialRegistrationState, { type: 'CHECK_STARTED' });
+      expect(state).toMatchObject({ status: 'checking', loadingMessage: 'loading.checking' });
+
+      state = run(state, { type: 'ID_VERIFIED' }, { type: 'CONTINUE' });
+      expect(state.status).toBe('phone-entry');
+
+      state = run(state, { type: 'SUBMIT' });
+      expect(state).toMatchObject({ status: 'processing-registration', loadingMessage: 'loading.savingContact' });
+      state = run(state, { type: 'PROGRESS', message: 'loading.startingSession' });
+      expect(state.loadingMessage).toBe('loading.startingSession');
+
+      state = run(state, { type: 'PHONE_REGISTERED', sessionId: 's', verifiedDeviceId: 'd', deviceFingerprint: 'f', resendAvailableAt: 60_000 });
+      expect(state).toMatchObject({ status: 'otp-entry', sessionId: 's', verifiedDeviceId: 'd', deviceFingerprint: 'f', otp: { error: '', resendAvailableAt: 60_000 } });
+
+      state = run(state, { type: 'SUBMIT' }, { type: 'OTP_VERIFIED' });
+      expect(state).toMatchObject({ status: 'account-entry', otp: { error: '' } });
+
+      state = run(state, { type: 'SUBMIT' }, { type: 'CUSTOMER_VERIFIED', account: primary });
+      expect(state).toMatchObject({ status: 'account-confirmation', pendingAccount: primary });
+
+      state = run(state, { type: 'SUBMIT' }, { type: 'PRODUCT_VALIDATED' });
+      expect(state).toMatchObject({
+        status: 'account-entry',
+        accounts: [{ ...primary, eligible: true }],
+        pendingAccount: null,
+        primaryAccountNumber: primary.accountNumber,
+      });
+
+      state = run(state, { type: 'ACCOUNTS_CONFIRMED' });
+      expect(state).toMatchObject({ status: 'pin-setup', customerId: primary.customerId, productCode: primary.productCode });
+
+      state = run(state, { type: 'SUBMIT' }, { type: 'REGISTERED', offerBiometrics: true, kycRequired: true, kycStatus: 'REQUIRED' });
+      expect(state).toMatchObject({ status: 'kyc-capture', kycStatus: 'REQUIRED', biometricsOffered: true });
+
+      state = run(state, { type: 'SUBMIT' }, { type: 'KYC_SUBMITTED', kycStatus: 'SUBMITTED' });
+      expect(state).toMatchObject({ status: 'biometric-setup', kycStatus: 'SUBMITTED' });
+
+      state = run(state, { type: 'SUBMIT' }, { type: 'BIOMETRICS_ENABLED' });
+      expect(state.status).toBe('completed');
+    });
+
+    it('stops outside Telegram', () => {
+      expect(run(at('checking'), { type: 'ENVIRONMENT_INVALID' }).status).toBe('invalid-environment');
+    });
+
+    it.each([
+      [{ offerBiometrics: false, kycRequired: false }, 'completed'],
+      [{ offerBiometrics: true, kycRequired: false }, 'biometric-setup'],
+      [{ offerBiometrics: false, kycRequired: true }, 'kyc-capture'],
+    ])('goes on from registration with %j to %s', (flags, status) => {
+      expect(run(at('registering-onepulse'), { type: 'REGISTERED', kycStatus: '', ...flags }).status).toBe(status);
+    });
+
+    it.each([
+      [true, 'biometric-setup'],
+      [false, 'completed'],
+    ])('skips KYC to the next step (biometrics offered: %s)', (biometricsOffered, status) => {
+      expect(run(at('kyc-capture', { biometricsOffered }), { type: 'KYC_SKIPPED' }).status).toBe(status);
+    });
+
+    it('keeps the user on biometric setup when access is denied, and lets them skip', () => {
+      const denied = run(at('enabling-biometrics'), { type: 'BIOMETRICS_DENIED', message: 'biometrics.denied' });
+      expect(denied).toMatchObject({ status: 'biometric-setup', biometricError: 'biometrics.denied' });
+      expect(run(denied, { type: 'BIOMETRICS_SKIPPED' })).toMatchObject({ status: 'completed', biometricError: '' });
+    });
+  });
+
+  describe('OTP screens', () => {
+    it.each([
+      ['verifying-otp', 'otp-entry'],
+      ['rebinding-device', 'rebind-otp'],
+    ] as const)('returns a wrong code from %s to %s', (from, to) => {
+      const state = run(at(from), { type: 'OTP_REJECTED', message: 'errors.otp-invalid.message', attemptsRemaining: 2, lockedUntil: 5_000 });
+      expect(state).toMatchObject({ status: to, otp: { error: 'errors.otp-invalid.message', attemptsRemaining: 2, lockedUntil: 5_000 } });
+    });
+
+    it.each(['otp-entry', 'rebind-otp'] as const)('tracks resends on %s', (status) => {
+      const sent = run(at(status, { otp: { error: 'errors.otp-invalid.message' } }), { type: 'CODE_RESENT', resendAvailableAt: 60_000 });
+      expect(sent.otp).toEqual({ error: '', resendAvailableAt: 60_000 });
+
+      const failed = run(sent, { type: 'RESEND_FAILED', message: 'errors.network.message' });
+      expect(failed.otp).toEqual({ error: 'errors.network.message', resendAvailableAt: 60_000 });
+      expect(run(sent, { type: 'RESEND_FAILED', message: 'errors.network.message', resendAvailableAt: 90_000 }).otp.resendAvailableAt).toBe(90_000);
+    });
+  });
+
+  describe('linked accounts', () => {
+    const eligible = account('1000123456799', { eligible: true });
+
+    it('lists an ineligible product with the reason and keeps no primary', () => {
+      const state = run(at('validating-product'), { type: 'PRODUCT_REJECTED', reason: 'Dormant account' });
+      expect(state).toMatchObject({
+        status: 'account-entry',
+        accounts: [{ eligible: false, ineligibleReason: 'Dormant account' }],
+        primaryAccountNumber: '',
+      });
+      expect(run(state, { type: 'ACCOUNTS_CONFIRMED' })).toBe(state);
+    });
+
+    it('replaces an earlier entry for the same account number', () => {
+      const state = run(at('validating-product', { accounts: [{ ...eligible, eligible: false }], pendingAccount: eligible }), { type: 'PRODUCT_VALIDATED' });
+      expect(state.accounts).toEqual([{ ...eligible, eligible: true, ineligibleReason: undefined }]);
+    });
+
+    it('keeps the first eligible account primary when another is linked', () => {
+      const second = account('5000123456792');
+      const state = run(
+        at('validating-product', { accounts: [eligible], primaryAccountNumber: eligible.accountNumber, pendingAccount: second }),
+        { type: 'PRODUCT_VALIDATED' },
+      );
+      expect(state.primaryAccountNumber).toBe(eligible.accountNumber);
+      expect(run(state, { type: 'PRIMARY_SELECTED', accountNumber: second.accountNumber }).primaryAccountNumber).toBe(second.accountNumber);
+    });
+
+    it('only lets an eligible, linked account become primary', () => {
+      const ineligible = account('5000123456792', { eligible: false });
+      const state = at('account-entry', { accounts: [eligible, ineligible], primaryAccountNumber: eligible.accountNumber });
+      expect(run(state, { type: 'PRIMARY_SELECTED', accountNumber: ineligible.accountNumber })).toBe(state);
+      expect(run(state, { type: 'PRIMARY_SELECTED', accountNumber: '999' })).toBe(state);
+    });
+  });
+
+  describe('returning customers', () => {
+    it('asks for the PIN on a known device', () => {
+      expect(run(at('checking'), { type: 'UNLOCK_REQUIRED' })).toMatchObject({ status: 'pin-unlock', pinUnlock: { error: '' } });
+    });
+
+    it('confirms a new device with an OTP before the PIN', () => {
+      let state = run(at('checking', { rebindSessionId: '' }), { type: 'REBIND_STARTED', rebindSessionId: 'r', resendAvailableAt: 30_000 });
+      expect(state).toMatchObject({ status: 'rebind-otp', rebindSessionId: 'r', otp: { error: '', resendAvailableAt: 30_000 } });
+
+      state = run(state, { type: 'SUBMIT' });
+      expect(state).toMatchObject({ status: 'rebinding-device', loadingMessage: 'loading.verifyingCode' });
+      expect(run(state, { type: 'DEVICE_REBOUND' })).toMatchObject({ status: 'pin-unlock', otp: { error: '' }, pinUnlock: { error: '' } });
+    });
+
+    it('keeps a wrong PIN on the unlock screen', () => {
+      const state = run(at('unlocking'), { type: 'PIN_REJECTED', message: 'errors.pin-invalid.message', attemptsRemaining: 1 });
+      expect(state).toMatchObject({ status: 'pin-unlock', pinUnlock: { error: 'errors.pin-invalid.message', attemptsRemaining: 1 } });
+    });
+
+    it('unlocks with the PIN or biometrics', () => {
+      expect(run(at('pin-unlock'), { type: 'SUBMIT' }, { type: 'UNLOCKED' }).status).toBe('unlocked');
+
+      const biometric = run(at('pin-unlock'), { type: 'UNLOCK_WITH_BIOMETRICS' });
+      expect(biometric).toMatchObject({ status: 'unlocking', loadingMessage: 'loading.confirmingIdentity' });
+      expect(run(biometric, { type: 'UNLOCKED' }).status).toBe('unlocked');
+    });
+
+    it('falls back to the PIN when biometrics fail', () => {
+      const state = run(at('unlocking'), { type: 'BIOMETRIC_REJECTED', message: 'biometrics.cancelled' });
+      expect(state).toMatchObject({ status: 'pin-unlock', biometricError: 'biometrics.cancelled' });
+      expect(run(state, { type: 'SUBMIT' }).biometricError).toBe('');
+    });
+  });
+
+  describe('resuming saved progress', () => {
+    const saved = { sessionId: 's', verifiedDeviceId: 'd', deviceFingerprint: 'f', customerId: 'c', productCode: 'p' };
+
+    it.each(['otp-entry', 'account-entry', 'pin-setup'] as const)('resumes at %s', (step) => {
+      const state = run(at('id-verified', { ...initialRegistrationState, status: 'id-verified' }), { type: 'RESUME', step, context: saved });
+      expect(state).toMatchObject({ status: step, ...saved });
+    });
+
+    it('ignores progress that no longer satisfies the step guard', () => {
+      const state = at('id-verified', { ...initialRegistrationState, status: 'id-verified' });
+      expect(run(state, { type: 'RESUME', step: 'pin-setup', context: { ...saved, customerId: '' } })).toBe(state);
+    });
+
+    it('only resumes from the ID-verified screen', () => {
+      const state = at('phone-entry');
+      expect(run(state, { type: 'RESUME', step: 'otp-entry', context: saved })).toBe(state);
+    });
+  });
+
+  describe('guards', () => {
+    it.each([
+      ['account-entry', { verifiedDeviceId: '' }],
+      ['account-confirmation', { verifiedDeviceId: '' }],
+      ['account-confirmation', { pendingAccount: null }],
+      ['pin-setup', { verifiedDeviceId: '' }],
+      ['pin-setup', { customerId: '' }],
+      ['rebind-otp', { rebindSessionId: '' }],
+    ] as const)('blocks SUBMIT from %s without %j', (status, missing) => {
+      const state = at(status, missing);
+      expect(canSubmit(state)).toBe(false);
+      expect(run(state, { type: 'SUBMIT' })).toBe(state);
+    });
+
+    it.each(INPUT_STEPS)('allows SUBMIT from %s with its context', (status) => {
+      expect(canSubmit(at(status))).toBe(true);
+    });
+
+    it.each(['idle', 'id-verified', 'checking', 'completed', 'error'] as const)('never submits from %s', (status) => {
+      expect(canSubmit(at(status))).toBe(false);
+    });
+
+    // Each event is only accepted in the states listed for it; anywhere else the state is returned as is.
+    it.each<[RegistrationEvent, AppStatus[]]>([
+      [{ type: 'CHECK_STARTED' }, ['idle']],
+      [{ type: 'ENVIRONMENT_INVALID' }, ['checking']],
+      [{ type: 'ID_VERIFIED' }, ['checking']],
+      [{ type: 'CONTINUE' }, ['id-verified']],
+      [{ type: 'PHONE_REGISTERED', sessionId: 's', verifiedDeviceId: 'd', deviceFingerprint: 'f', resendAvailableAt: 0 }, ['processing-registration']],
+      [{ type: 'OTP_REJECTED', message: 'common.back' }, ['verifying-otp', 'rebinding-device']],
+      [{ type: 'OTP_VERIFIED' }, ['verifying-otp']],
+      [{ type: 'CODE_RESENT', resendAvailableAt: 0 }, ['otp-entry', 'rebind-otp']],
+      [{ type: 'RESEND_FAILED', message: 'common.back' }, ['otp-entry', 'rebind-otp']],
+      [{ type: 'CUSTOMER_VERIFIED', account: account('1') }, ['processing-customer']],
+      [{ type: 'PRODUCT_VALIDATED' }, ['validating-product']],
+      [{ type: 'PRODUCT_REJECTED', reason: 'r' }, ['validating-product']],
+      [{ type: 'REGISTERED', offerBiometrics: false, kycRequired: false, kycStatus: '' }, ['registering-onepulse']],
+      [{ type: 'KYC_SUBMITTED', kycStatus: '' }, ['submitting-kyc']],
+      [{ type: 'KYC_SKIPPED' }, ['kyc-capture']],
+      [{ type: 'UNLOCK_REQUIRED' }, ['checking']],
+      [{ type: 'REBIND_STARTED', rebindSessionId: 'r', resendAvailableAt: 0 }, ['checking']],
+      [{ type: 'DEVICE_REBOUND' }, ['rebinding-device']],
+      [{ type: 'PIN_REJECTED', message: 'common.back' }, ['unlocking']],
+      [{ type: 'UNLOCKED' }, ['unlocking']],
+      [{ type: 'UNLOCK_WITH_BIOMETRICS' }, ['pin-unlock']],
+      [{ type: 'BIOMETRIC_REJECTED', message: 'common.back' }, ['unlocking']],
+      [{ type: 'BIOMETRICS_ENABLED' }, ['enabling-biometrics']],
+      [{ type: 'BIOMETRICS_DENIED', message: 'common.back' }, ['enabling-biometrics']],
+      [{ type: 'BIOMETRICS_SKIPPED' }, ['biometric-setup']],
+      [{ type: 'FAILED', error }, PROCESSING.map(([step]) => step)],
+      [{ type: 'PROGRESS', message: 'common.back' }, PROCESSING.map(([step]) => step)],
+    ])('accepts $type only where expected', (event, accepted) => {
+      const statuses: AppStatus[] = [
+        'idle', 'id-verified', 'completed', 'unlocked', 'error', 'invalid-environment',
+        ...INPUT_STEPS, ...PROCESSING.map(([step]) => step),
+      ];
+      for (const status of statuses) {
+        const state = at(status);
+        const changed = run(state, event) !== state;
+        expect({ status, changed }).toEqual({ status, changed: accepted.includes(status) });
+      }
+    });
+  });
+
+  describe('BACK', () => {
+    it.each<[InputStep, AppStatus | undefined]>([
+      ['phone-entry', 'id-verified'],
+      ['otp-entry', 'phone-entry'],
+      ['account-entry', 'otp-entry'],
+      ['account-confirmation', 'account-entry'],
+      ['pin-setup', 'account-entry'],
+      ['rebind-otp', undefined],
+      ['pin-unlock', undefined],
+      ['kyc-capture', undefined],
+      ['biometric-setup', undefined],
+    ])('goes from %s to %s', (status, target) => {
+      const state = at(status);
+      expect(backTarget(state)).toBe(target);
+      expect(run(state, { type: 'BACK' }).status).toBe(target ?? status);
+    });
+
+    it.each(['idle', 'checking', 'id-verified', 'completed', 'unlocked'] as const)('does nothing from %s', (status) => {
+      const state = at(status);
+      expect(run(state, { type: 'BACK' })).toBe(state);
+    });
+  });
+
+  describe('error states', () => {
+    describe.each(PROCESSING)('after %s fails', (processing, failedStep, back) => {
+      const failed = run(at(processing), { type: 'FAILED', error });
+
+      it('shows the error for the step it came from', () => {
+        expect(failed).toMatchObject({ status: 'error', error, failedStep });
+      });
+
+      it(`goes BACK to ${back ?? 'nowhere'}`, () => {
+        expect(backTarget(failed)).toBe(back);
+        const state = run(failed, { type: 'BACK' });
+        if (back === 'idle') expect(state).toEqual(initialRegistrationState);
+        else if (back) expect(state).toMatchObject({ status: back, error: null, failedStep: null });
+        else expect(state).toBe(failed);
+      });
+
+      it(`RETRYs ${failedStep ?? 'the ID check'}`, () => {
+        const state = run(failed, { type: 'RETRY' });
+        if (failedStep) expect(state).toMatchObject({ status: failedStep, error: null, failedStep: null, sessionId: 'session-1' });
+        else expect(state).toEqual(initialRegistrationState);
+      });
+
+      it.each(INPUT_STEPS)('RECOVERs to %s when its guard allows', (step) => {
+        expect(run(failed, { type: 'RECOVER', step })).toMatchObject({ status: step, error: null, failedStep: null });
+      });
+
+      it('does not RECOVER to a step whose guard fails', () => {
+        const withoutDevice = run(at(processing, { verifiedDeviceId: '' }), { type: 'FAILED', error });
+        expect(run(withoutDevice, { type: 'RECOVER', step: 'pin-setup' })).toBe(withoutDevice);
+        expect(run(withoutDevice, { type: 'RECOVER', step: 'phone-entry' }).status).toBe('phone-entry');
+      });
+    });
+
+    it.each(['phone-entry', 'completed', 'idle'] as const)('ignores RETRY and RECOVER outside the error screen (%s)', (status) => {
+      const state = at(status);
+      expect(run(state, { type: 'RETRY' })).toBe(state);
+      expect(run(state, { type: 'RECOVER', step: 'phone-entry' })).toBe(state);
+    });
+  });
+});
@@ -0,0 +1,492 @@
+import type { AppError } from '@/utils/appError';
+import type { MessageKey } from '@/utils/i18n';
+import type { LinkedAccount } from '@/utils/linkedAccounts';
+
+// Registration funnel as a pure reducer. Every step, event, guard, loading
+// sub-state and error-recovery target lives here; RegistrationFlow only
+// renders the current state and dispatches events. Messages are catalog
+// keys, so a language switch also applies to text already in state.
+
+// --- STEPS ---
+
+export type InputStep =
+  | 'phone-entry'
+  | 'otp-entry'
+  | 'account-entry'
+  // The account holder confirms the account verifyCustomer matched.
+  | 'account-confirmation'
+  | 'pin-setup'
+  // Returning customers: PIN login, preceded by an OTP when the device is new.
+  | 'rebind-otp'
+  | 'pin-unlock'
+  // Identity documents, when the bank asks for them after registration. Can be skipped.
+  | 'kyc-capture'
+  // Opt-in biometric unlock, offered once registration is done.
+  | 'biometric-setup';
+
+export type ProcessingStep =
+  | 'checking'
+  | 'processing-registration'
+  | 'verifying-otp'
+  | 'processing-customer'
+  | 'validating-product'
+  | 'registering-onepulse'
+  | 'rebinding-device'
+  | 'unlocking'
+  | 'submitting-kyc'
+  | 'enabling-biometrics';
+
+// Steps a saved registration can be resumed at (see utils/registrationProgress).
+export type ResumableStep = 'otp-entry' | 'account-entry' | 'pin-setup';
+
+export type AppStatus =
+  | 'idle'
+  | 'id-verified'
+  | InputStep
+  | ProcessingStep
+  | 'completed'
+  // PIN login succeeded and an app session was issued.
+  | 'unlocked'
+  | 'error'
+  | 'invalid-environment';
+
+// Inline state of a screen that accepts a limited number of wrong codes.
+// Timestamps are epoch milliseconds supplied by the events, so the reducer
+// itself never reads the clock.
+export interface AttemptState {
+  error: MessageKey | '';
+  attemptsRemaining?: number;
+  lockedUntil?: number;
+}
+
+export interface OtpState extends AttemptState {
+  resendAvailableAt?: number;
+}
+
+export interface RegistrationState {
+  status: AppStatus;
+  loadingMessage: MessageKey;
+  error: AppError | null;
+  // The input step whose submission failed. `null` means the initial ID check failed.
+  failedStep: InputStep | null;
+  otp: OtpState;
+  pinUnlock: AttemptState;
+  // Why biometric setup or unlock did not go through; the PIN screen stays usable.
+  biometricError: MessageKey | '';
+  // Whether biometric setup follows registration (and KYC, when required).
+  biometricsOffered: boolean;
+
+  // *** CRITICAL DATA: FROM BACKEND RESPONSE ***
+  sessionId: string;
+  verifiedDeviceId: string;
+  deviceFingerprint: string;
+  // The primary account's; set when the user continues to PIN setup.
+  customerId: string;
+  productCode: string;
+  rebindSessionId: string;
+  // As reported by registration or the KYC submission; '' when unknown.
+  kycStatus: string;
+
+  // Accounts linked so far, and the one awaiting the holder's confirmation.
+  // Not part of the saved progress.
+  accounts: LinkedAccount[];
+  pendingAccount: LinkedAccount | null;
+  primaryAccountNumber: string;
+}
+
+export type RegistrationEvent =
+  | { type: 'CHECK_STARTED' }
+  | { type: 'ENVIRONMENT_INVALID' }
+  | { type: 'ID_VERIFIED' }
+  | { type: 'CONTINUE' }
+  | { type: 'RESUME'; step: ResumableStep; context: ResumeContext }
+  | { type: 'SUBMIT' }
+  | { type: 'PROGRESS'; message: MessageKey }
+  | { type: 'PHONE_REGISTERED'; sessionId: string; verifiedDeviceId: string; deviceFingerprint: string; resendAvailableAt: number }
+  | { type: 'OTP_REJECTED'; message: MessageKey; attemptsRemaining?: number; lockedUntil?: number }
+  | { type: 'OTP_VERIFIED' }
+  | { type: 'CODE_RESENT'; resendAvailableAt: number }
+  | { type: 'RESEND_FAILED'; message: MessageKey; resendAvailableAt?: number }
+  | { type: 'CUSTOMER_VERIFIED'; account: LinkedAccount }
+  | { type: 'PRODUCT_VALIDATED' }
+  | { type: 'PRODUCT_REJECTED'; reason: string }
+  | { type: 'PRIMARY_SELECTED'; accountNumber: string }
+  // Leaves account entry for PIN setup with the primary account.
+  | { type: 'ACCOUNTS_CONFIRMED' }
+  | { type: 'REGISTERED'; offerBiometrics: boolean; kycRequired: boolean; kycStatus: string }
+  | { type: 'KYC_SUBMITTED'; kycStatus: string }
+  | { type: 'KYC_SKIPPED' }
+  | { type: 'UNLOCK_REQUIRED' }
+  | { type: 'REBIND_STARTED'; rebindSessionId: string; resendAvailableAt: number }
+  | { type: 'DEVICE_REBOUND' }
+  | { type: 'PIN_REJECTED'; message: MessageKey; attemptsRemaining?: number; lockedUntil?: number }
+  | { type: 'UNLOCKED' }
+  | { type: 'UNLOCK_WITH_BIOMETRICS' }
+  | { type: 'BIOMETRIC_REJECTED'; message: MessageKey }
+  | { type: 'BIOMETRICS_ENABLED' }
+  | { type: 'BIOMETRICS_DENIED'; message: MessageKey }
+  | { type: 'BIOMETRICS_SKIPPED' }
+  | { type: 'FAILED'; error: AppError }
+  // Leaves the error screen for an input step chosen by the error's recovery action.
+  | { type: 'RECOVER'; step: InputStep }
+  | { type: 'BACK' }
+  | { type: 'RETRY' };
+
+export type ResumeContext = Pick<
+  RegistrationState,
+  'sessionId' | 'verifiedDeviceId' | 'deviceFingerprint' | 'customerId' | 'productCode'
+>;
+
+interface InputStepDefinition {
+  // Loading state entered on SUBMIT, and its first message.
+  submitTo: ProcessingStep;
+  loadingMessage: MessageKey;
+  // Where BACK goes from this step, and from an error raised by it. Steps
+  // without one (returning-user login) have no way back.
+  back?: AppStatus;
+  // Context the step needs before it can be submitted.
+  guard?: (state: RegistrationState) => boolean;
+}
+
+export const INPUT_STEPS: Record<InputStep, InputStepDefinition> = {
+  'phone-entry': {
+    submitTo: 'processing-registration',
+    loadingMessage: 'loading.savingContact',
+    back: 'id-verified',
+  },
+  'otp-entry': {
+    submitTo: 'verifying-otp',
+    loadingMessage: 'loading.verifyingCode',
+    back: 'phone-entry',
+  },
+  'account-entry': {
+    submitTo: 'processing-customer',
+    loadingMessage: 'loading.verifyingAccount',
+    back: 'otp-entry',
+    guard: (state) => state.verifiedDeviceId !== '',
+  },
+  'account-confirmation': {
+    submitTo: 'validating-product',
+    loadingMessage: 'loading.validatingProduct',
+    back: 'account-entry',
+    guard: (state) => state.verifiedDeviceId !== '' && state.pendingAccount !== null,
+  },
+  'pin-setup': {
+    submitTo: 'registering-onepulse',
+    loadingMessage: 'loading.securingPin',
+    back: 'account-entry',
+    guard: (state) => state.verifiedDeviceId !== '' && state.customerId !== '',
+  },
+  'rebind-otp': {
+    submitTo: 'rebinding-device',
+    loadingMessage: 'loading.verifyingCode',
+    guard: (state) => state.rebindSessionId !== '',
+  },
+  'pin-unlock': {
+    submitTo: 'unlocking',
+    loadingMessage: 'loading.unlocking',
+  },
+  'kyc-capture': {
+    submitTo: 'submitting-kyc',
+    loadingMessage: 'loading.uploadingDocuments',
+  },
+  'biometric-setup': {
+    submitTo: 'enabling-biometrics',
+    loadingMessage: 'loading.enablingBiometrics',
+  },
+};
+
+// Which input step each loading state belongs to (`null` for the initial check).
+const PROCESSING_SOURCE: Record<ProcessingStep, InputStep | null> = {
+  'checking': null,
+  'processing-registration': 'phone-entry',
+  'verifying-otp': 'otp-entry',
+  'processing-customer': 'account-entry',
+  'validating-product': 'account-confirmation',
+  'registering-onepulse': 'pin-setup',
+  'rebinding-device': 'rebind-otp',
+  'unlocking': 'pin-unlock',
+  'submitting-kyc': 'kyc-capture',
+  'enabling-biometrics': 'biometric-setup',
+};
+
+export const isInputStep = (status: AppStatus): status is InputStep => status in INPUT_STEPS;
+
+export const isProcessingStep = (status: AppStatus): status is ProcessingStep => status in PROCESSING_SOURCE;
+
+const RESUMABLE_STEPS: ResumableStep[] = ['otp-entry', 'account-entry', 'pin-setup'];
+
+export const isResumableStep = (status: unknown): status is ResumableStep =>
+  RESUMABLE_STEPS.includes(status as ResumableStep);
+
+export const initialRegistrationState: RegistrationState = {
+  status: 'idle',
+  loadingMessage: 'loading.processing',
+  error: null,
+  failedStep: null,
+  otp: { error: '' },
+  pinUnlock: { error: '' },
+  biometricError: '',
+  biometricsOffered: false,
+  sessionId: '',
+  verifiedDeviceId: '',
+  deviceFingerprint: '',
+  customerId: '',
+  productCode: '',
+  rebindSessionId: '',
+  kycStatus: '',
+  accounts: [],
+  pendingAccount: null,
+  primaryAccountNumber: '',
+};
+
+/** Whether SUBMIT is currently allowed from the given state. */
+export const canSubmit = (state: RegistrationState): boolean => {
+  if (!isInputStep(state.status)) return false;
+  const { guard } = INPUT_STEPS[state.status];
+  return guard ? guard(state) : true;
+};
+
+/** The chosen primary account, if it is linked and eligible. */
+export const primaryAccount = (state: RegistrationState): LinkedAccount | undefined =>
+  state.accounts.find((account) => account.eligible && account.accountNumber === state.primaryAccountNumber);
+
+// Adds the confirmed account (replacing an earlier entry for the same number);
+// the first eligible one becomes primary.
+const linkPendingAccount = (state: RegistrationState, account: LinkedAccount): RegistrationState => {
+  const linked = state.accounts.some((existing) => existing.accountNumber === account.accountNumber);
+  const accounts = linked
+    ? state.accounts.map((existing) => (existing.accountNumber === account.accountNumber ? account : existing))
+    : [...state.accounts, account];
+  const primary = primaryAccount({ ...state, accounts }) ?? accounts.find((candidate) => candidate.eligible);
+  return {
+    ...moveTo(state, 'account-entry'),
+    accounts,
+    pendingAccount: null,
+    primaryAccountNumber: primary?.accountNumber ?? '',
+  };
+};
+
+// Registration is done: biometric setup when offered, else the end.
+const afterKyc = (state: RegistrationState): RegistrationState =>
+  moveTo(state, state.biometricsOffered ? 'biometric-setup' : 'completed');
+
+/** Target of BACK from the given state, or `undefined` when back is not available. */
+export const backTarget = (state: RegistrationState): AppStatus | undefined => {
+  if (isInputStep(state.status)) return INPUT_STEPS[state.status].back;
+  if (state.status === 'error') {
+    // Without a failed step there is nothing to go back to: start over.
+    return state.failedStep ? INPUT_STEPS[state.failedStep].back : 'idle';
+  }
+  return undefined;
+};
+
+// Leaving the error screen clears the error details; any move clears the biometric message.
+const moveTo = (state: RegistrationState, status: AppStatus): RegistrationState => ({
+  ...state,
+  status,
+  error: null,
+  failedStep: null,
+  biometricError: '',
+});
+
+export const registrationReducer = (state: RegistrationState, event: RegistrationEvent): RegistrationState => {
+  switch (event.type) {
+    case 'CHECK_STARTED':
+      if (state.status !== 'idle') return state;
+      return { ...moveTo(state, 'checking'), loadingMessage: 'loading.checking' };
+
+    case 'ENVIRONMENT_INVALID':
+      if (state.status !== 'checking') return state;
+      return moveTo(state, 'invalid-environment');
+
+    case 'ID_VERIFIED':
+      if (state.status !== 'checking') return state;
+      return moveTo(state, 'id-verified');
+
+    case 'CONTINUE':
+      if (state.status !== 'id-verified') return state;
+      return moveTo(state, 'phone-entry');
+
+    case 'RESUME': {
+      if (state.status !== 'id-verified') return state;
+      const resumed = { ...moveTo(state, event.step), ...event.context };
+      // Saved progress that no longer satisfies the step's guard is ignored.
+      return canSubmit(resumed) ? resumed : state;
+    }
+
+    case 'SUBMIT': {
+      if (!isInputStep(state.status) || !canSubmit(state)) return state;
+      const step = INPUT_STEPS[state.status];
+      return { ...moveTo(state, step.submitTo), loadingMessage: step.loadingMessage };
+    }
+
+    case 'PROGRESS':
+      if (!isProcessingStep(state.status)) return state;
+      return { ...state, loadingMessage: event.message };
+
+    case 'PHONE_REGISTERED':
+      if (state.status !== 'processing-registration') return state;
+      return {
+        ...moveTo(state, 'otp-entry'),
+        sessionId: event.sessionId,
+        verifiedDeviceId: event.verifiedDeviceId,
+        deviceFingerprint: event.deviceFingerprint,
+        otp: { error: '', resendAvailableAt: event.resendAvailableAt },
+      };
+
+    // A wrong code keeps the user on the OTP screen instead of the error screen.
+    case 'OTP_REJECTED':
+      if (state.status !== 'verifying-otp' && state.status !== 'rebinding-device') return state;
+      return {
+        ...moveTo(state, state.status === 'verifying-otp' ? 'otp-entry' : 'rebind-otp'),
+        otp: {
+          ...state.otp,
+          error: event.message,
+          attemptsRemaining: event.attemptsRemaining,
+          lockedUntil: event.lockedUntil,
+        },
+      };
+
+    case 'OTP_VERIFIED':
+      if (state.status !== 'verifying-otp') return state;
+      return { ...moveTo(state, 'account-entry'), otp: { error: '' } };
+
+    case 'CODE_RESENT':
+      if (state.status !== 'otp-entry' && state.status !== 'rebind-otp') return state;
+      return {
+        ...state,
+        otp: { ...state.otp, error: '', resendAvailableAt: event.resendAvailableAt },
+      };
+
+    case 'RESEND_FAILED':
+      if (state.status !== 'otp-entry' && state.status !== 'rebind-otp') return state;
+      return {
+        ...state,
+        otp: { ...state.otp, error: event.message, resendAvailableAt: event.resendAvailableAt ?? state.otp.resendAvailableAt },
+      };
+
+    case 'CUSTOMER_VERIFIED':
+      if (state.status !== 'processing-customer') return state;
+      return { ...moveTo(state, 'account-confirmation'), pendingAccount: event.account };
+
+    case 'PRODUCT_VALIDATED':
+      if (state.status !== 'validating-product' || !state.pendingAccount) return state;
+      return linkPendingAccount(state, { ...state.pendingAccount, eligible: true, ineligibleReason: undefined });
+
+    // An ineligible product is listed with the reason instead of failing the step.
+    case 'PRODUCT_REJECTED':
+      if (state.status !== 'validating-product' || !state.pendingAccount) return state;
+      return linkPendingAccount(state, { ...state.pendingAccount, eligible: false, ineligibleReason: event.reason });
+
+    case 'PRIMARY_SELECTED': {
+      if (state.status !== 'account-entry') return state;
+      const selected = { ...state, primaryAccountNumber: event.accountNumber };
+      return primaryAccount(selected) ? selected : state;
+    }
+
+    case 'ACCOUNTS_CONFIRMED': {
+      const primary = state.status === 'account-entry' ? primaryAccount(state) : undefined;
+      if (!primary) return state;
+      return {
+        ...moveTo(state, 'pin-setup'),
+        customerId: primary.customerId,
+        productCode: primary.productCode,
+      };
+    }
+
+    case 'REGISTERED': {
+      if (state.status !== 'registering-onepulse') return state;
+      const registered = { ...state, biometricsOffered: event.offerBiometrics, kycStatus: event.kycStatus };
+      return event.kycRequired ? moveTo(registered, 'kyc-capture') : afterKyc(registered);
+    }
+
+    case 'KYC_SUBMITTED':
+      if (state.status !== 'submitting-kyc') return state;
+      return afterKyc({ ...state, kycStatus: event.kycStatus });
+
+    case 'KYC_SKIPPED':
+      if (state.status !== 'kyc-capture') return state;
+      return afterKyc(state);
+
+    case 'BIOMETRICS_ENABLED':
+      if (state.status !== 'enabling-biometrics') return state;
+      return moveTo(state, 'completed');
+
+    // Denied access or a device that cannot store the token: the user can retry or skip.
+    case 'BIOMETRICS_DENIED':
+      if (state.status !== 'enabling-biometrics') return state;
+      return { ...moveTo(state, 'biometric-setup'), biometricError: event.message };
+
+    case 'BIOMETRICS_SKIPPED':
+      if (state.status !== 'biometric-setup') return state;
+      return moveTo(state, 'completed');
+
+    // --- RETURNING USERS ---
+
+    case 'UNLOCK_REQUIRED':
+      if (state.status !== 'checking') return state;
+      return { ...moveTo(state, 'pin-unlock'), pinUnlock: { error: '' } };
+
+    case 'REBIND_STARTED':
+      if (state.status !== 'checking') return state;
+      return {
+        ...moveTo(state, 'rebind-otp'),
+        rebindSessionId: event.rebindSessionId,
+        otp: { error: '', resendAvailableAt: event.resendAvailableAt },
+      };
+
+    case 'DEVICE_REBOUND':
+      if (state.status !== 'rebinding-device') return state;
+      return { ...moveTo(state, 'pin-unlock'), otp: { error: '' }, pinUnlock: { error: '' } };
+
+    // Like OTP_REJECTED: a wrong PIN stays on the unlock screen.
+    case 'PIN_REJECTED':
+      if (state.status !== 'unlocking') return state;
+      return {
+        ...moveTo(state, 'pin-unlock'),
+        pinUnlock: { error: event.message, attemptsRemaining: event.attemptsRemaining, lockedUntil: event.lockedUntil },
+      };
+
+    case 'UNLOCKED':
+      if (state.status !== 'unlocking') return state;
+      return moveTo(state, 'unlocked');
+
+    case 'UNLOCK_WITH_BIOMETRICS':
+      if (state.status !== 'pin-unlock') return state;
+      return { ...moveTo(state, 'unlocking'), loadingMessage: 'loading.confirmingIdentity' };
+
+    // Biometrics fall back to the PIN screen, with the reason shown there.
+    case 'BIOMETRIC_REJECTED':
+      if (state.status !== 'unlocking') return state;
+      return { ...moveTo(state, 'pin-unlock'), biometricError: event.message };
+
+    case 'FAILED':
+      if (!isProcessingStep(state.status)) return state;
+      return {
+        ...state,
+        status: 'error',
+        error: event.error,
+        failedStep: PROCESSING_SOURCE[state.status],
+      };
+
+    case 'BACK': {
+      const target = backTarget(state);
+      if (!target) return state;
+      return target === 'idle' ? initialRegistrationState : moveTo(state, target);
+    }
+
+    case 'RECOVER': {
+      if (state.status !== 'error') return state;
+      const recovered = moveTo(state, event.step);
+      return canSubmit(recovered) ? recovered : state;
+    }
+
+    case 'RETRY':
+      if (state.status !== 'error') return state;
+      return state.failedStep ? moveTo(state, state.failedStep) : initialRegistrationState;
+
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,93 @@
+import { maskAccountNumber } from '@/utils/accountNumber';
+import { getStoredItem, removeStoredItem, setStoredItem } from '@/utils/cloudStorage';
+import { maskPhoneNumber } from '@/utils/phoneNumber';
+import { ResumableStep, ResumeContext, isResumableStep } from '@/utils/registrationMachine';
+
+// Saves how far a user got in the registration funnel so closing the Mini App
+// between OTP and PIN setup does not cost another SIM verification.
+// Only backend-issued identifiers are stored in full. The phone and account
+// numbers are kept masked, as hints: the user types them again on resume and
+// the hints catch a different number. The OTP and PIN never leave component state.
+
+// Version 1 stored the phone and account numbers in full; such records are dropped on load.
+const STORAGE_VERSION = 2;
+
+// Backend registration sessions do not outlive this, so neither does the progress.
+export const PROGRESS_TTL_MS = 30 * 60 * 1000;
+
+export interface RegistrationProgress {
+  step: ResumableStep;
+  context: ResumeContext;
+  // Masked, e.g. `+251 •••• 67`.
+  phoneHint: string;
+  // Masked; only once an account is chosen.
+  accountHint?: string;
+  savedAt: number;
+}
+
+// What the flow knows when it saves; masked before anything is written.
+export interface ProgressInputs {
+  step: ResumableStep;
+  context: ResumeContext;
+  phoneNumber: string;
+  accountNumber: string;
+}
+
+interface StoredProgress extends RegistrationProgress {
+  version: number;
+  expiresAt: number;
+}
+
+const storageKey = (telegramId: number) => `registration_progress_${telegramId}`;
+
+export const saveProgress = (
+  telegramId: number,
+  progress: ProgressInputs,
+  now = Date.now(),
+): Promise<void> => {
+  const stored: StoredProgress = {
+    version: STORAGE_VERSION,
+    step: progress.step,
+    context: {
+      sessionId: progress.context.sessionId,
+      verifiedDeviceId: progress.context.verifiedDeviceId,
+      deviceFingerprint: progress.context.deviceFingerprint,
+      customerId: progress.context.customerId,
+      productCode: progress.context.productCode,
+    },
+    phoneHint: maskPhoneNumber(progress.phoneNumber),
+    accountHint: progress.accountNumber ? maskAccountNumber(progress.accountNumber) : undefined,
+    savedAt: now,
+    expiresAt: now + PROGRESS_TTL_MS,
+  };
+  return setStoredItem(storageKey(telegramId), JSON.stringify(stored));
+};
+
+/** Returns the saved progress, or `null` when there is none or it has expired. */
+export const loadProgress = async (telegramId: number, now = Date.now()): Promise<RegistrationProgress | null> => {
+  const raw = await getStoredItem(storageKey(telegramId));
+  if (!raw) return null;
+
+  let stored: StoredProgress;
+  try {
+    stored = JSON.parse(raw);
+  } catch {
+    await clearProgress(telegramId);
+    return null;
+  }
+
+  if (stored.version !== STORAGE_VERSION || !isResumableStep(stored.step) || stored.expiresAt <= now) {
+    await clearProgress(telegramId);
+    return null;
+  }
+
+  return {
+    step: stored.step,
+    context: stored.context,
+    phoneHint: stored.phoneHint,
+    accountHint: stored.accountHint,
+    savedAt: stored.savedAt,
+  };
+};
+
+export const clearProgress = (telegramId: number): Promise<void> => removeStoredItem(storageKey(telegramId));
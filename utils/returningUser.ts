@@ -0,0 +1,47 @@
+import { CheckTelegramIdData } from '@/types/api';
+import { ResumableStep, ResumeContext } from '@/utils/registrationMachine';
+
+// Decides where a launch goes from the checkTelegramID answer: PIN unlock for
+// registered customers, device rebinding when they open the app on a new
+// device, or the next pending step of an unfinished registration.
+
+export type LaunchRoute =
+  | { type: 'unlock' }
+  | { type: 'rebind' }
+  | { type: 'resume'; step: ResumableStep; context: ResumeContext }
+  | { type: 'new' };
+
+// Next step for each unfinished backend `registration_status`.
+const PENDING_STEPS: Record<string, ResumableStep> = {
+  OTP_PENDING: 'otp-entry',
+  PHONE_VERIFIED: 'account-entry',
+  // The holder confirms the account before PIN setup, and the check does not
+  // return their name: the saved account number is verified again.
+  ACCOUNT_LINKED: 'account-entry',
+};
+
+export const routeForCheck = (check: CheckTelegramIdData): LaunchRoute => {
+  const status = check.registration_status?.toUpperCase();
+
+  if (status === 'COMPLETED') {
+    // An unknown or missing device status is treated as a new device: rebinding costs an OTP, not access.
+    return check.device_status?.toUpperCase() === 'KNOWN' ? { type: 'unlock' } : { type: 'rebind' };
+  }
+
+  const step = status ? PENDING_STEPS[status] : undefined;
+  // Without the session the remaining steps cannot be submitted; start over.
+  if (!step || !check.registration_session_id || !check.device_id || !check.phone_number) return { type: 'new' };
+
+  return {
+    type: 'resume',
+    step,
+    context: {
+      sessionId: check.registration_session_id,
+      verifiedDeviceId: check.device_id,
+      // Only SIM-Verify uses the fingerprint, and it runs before any resumable step.
+      deviceFingerprint: '',
+      customerId: check.customer_id ?? '',
+      productCode: check.product_code ?? '',
+    },
+  };
+};
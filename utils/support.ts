@@ -0,0 +1,12 @@
+// Customer support entry point, shown on error screens when configured.
+
+export const SUPPORT_URL = process.env.NEXT_PUBLIC_SUPPORT_URL;
+
+/** Opens support inside Telegram when possible (t.me links stay in the app). */
+export const openSupport = () => {
+  if (!SUPPORT_URL) return;
+  const webApp = window.Telegram?.WebApp;
+  if (webApp?.openTelegramLink && /^https:\/\/t\.me\//.test(SUPPORT_URL)) webApp.openTelegramLink(SUPPORT_URL);
+  else if (webApp?.openLink) webApp.openLink(SUPPORT_URL);
+  else window.open(SUPPORT_URL, '_blank', 'noopener');
+};
@@ -0,0 +1,83 @@
+import type { TelegramBiometricManager } from '@/types/telegram';
+
+// Promise wrappers around `WebApp.BiometricManager` (Bot API 7.2+). The
+// manager keeps a token in the device's secure storage that is only released
+// after a successful Face ID or fingerprint check.
+
+export interface BiometricStatus {
+  available: boolean;
+  type: TelegramBiometricManager['biometricType'];
+  accessRequested: boolean;
+  accessGranted: boolean;
+  tokenSaved: boolean;
+  deviceId: string;
+}
+
+export type BiometricAuthResult =
+  | { type: 'success'; token: string }
+  // The user cancelled or the check failed.
+  | { type: 'failed' }
+  // Biometrics were re-enrolled or access was withdrawn; the saved token is gone.
+  | { type: 'token-missing' };
+
+const getManager = (): TelegramBiometricManager | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const webApp = window.Telegram?.WebApp;
+  return webApp?.BiometricManager && webApp.isVersionAtLeast('7.2') ? webApp.BiometricManager : undefined;
+};
+
+const statusOf = (manager: TelegramBiometricManager): BiometricStatus => ({
+  available: manager.isBiometricAvailable,
+  type: manager.biometricType,
+  accessRequested: manager.isAccessRequested,
+  accessGranted: manager.isAccessGranted,
+  tokenSaved: manager.isBiometricTokenSaved,
+  deviceId: manager.deviceId,
+});
+
+let initialized: Promise<TelegramBiometricManager | undefined> | undefined;
+
+const initManager = (): Promise<TelegramBiometricManager | undefined> => {
+  const manager = getManager();
+  if (!manager) return Promise.resolve(undefined);
+  if (manager.isInited) return Promise.resolve(manager);
+  initialized ??= new Promise((resolve) => manager.init(() => resolve(manager)));
+  return initialized;
+};
+
+/** Current biometric state, or `null` when the Telegram client has no BiometricManager. */
+export const getBiometricStatus = async (): Promise<BiometricStatus | null> => {
+  const manager = await initManager();
+  return manager ? statusOf(manager) : null;
+};
+
+/** Asks for permission to use biometrics; resolves `true` once access is granted. */
+export const requestBiometricAccess = async (reason: string): Promise<boolean> => {
+  const manager = await initManager();
+  if (!manager?.isBiometricAvailable) return false;
+  if (manager.isAccessGranted) return true;
+  return new Promise((resolve) => manager.requestAccess({ reason }, (granted) => resolve(granted)));
+};
+
+export const authenticateBiometric = async (reason: string): Promise<BiometricAuthResult> => {
+  const manager = await initManager();
+  if (!manager?.isBiometricAvailable || !manager.isAccessGranted || !manager.isBiometricTokenSaved) {
+    return { type: 'token-missing' };
+  }
+  return new Promise((resolve) => manager.authenticate({ reason }, (authenticated, token) => {
+    if (!authenticated) resolve({ type: 'failed' });
+    else resolve(token ? { type: 'success', token } : { type: 'token-missing' });
+  }));
+};
+
+/** Saves the token behind biometrics; an empty token removes it. */
+export const updateBiometricToken = async (token: string): Promise<boolean> => {
+  const manager = await initManager();
+  if (!manager) return false;
+  return new Promise((resolve) => manager.updateBiometricToken(token, (updated) => resolve(updated)));
+};
+
+/** Opens the Telegram settings screen where biometric access can be granted again. */
+export const openBiometricSettings = (): void => {
+  getManager()?.openSettings();
+};
@@ -0,0 +1,43 @@
+// Native phone number sharing through `WebApp.requestContact` (Bot API 6.9+).
+
+export interface SharedContact {
+  phoneNumber: string;
+  // Signed `contact=...&auth_date=...&hash=...` string for the backend to verify.
+  contactPayload?: string;
+}
+
+const getWebApp = () => (typeof window === 'undefined' ? undefined : window.Telegram?.WebApp);
+
+export const isContactRequestSupported = (): boolean => {
+  const webApp = getWebApp();
+  return !!webApp?.requestContact && !!webApp.initData && webApp.isVersionAtLeast('6.9');
+};
+
+// Telegram reports numbers without the leading "+" on some platforms.
+const withPlusPrefix = (phoneNumber: string) =>
+  phoneNumber.startsWith('+') ? phoneNumber : `+${phoneNumber}`;
+
+/**
+ * Asks Telegram for the user's own phone number. Resolves `null` when the
+ * user declines, the client does not return the contact, or the contact
+ * belongs to a different Telegram account.
+ */
+export const requestTelegramContact = (telegramId: number): Promise<SharedContact | null> => {
+  const webApp = getWebApp();
+  if (!webApp?.requestContact || !isContactRequestSupported()) return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    webApp.requestContact!((shared, response) => {
+      const contact = response?.responseUnsafe?.contact;
+      if (!shared || response?.status !== 'sent' || !contact?.phone_number) {
+        resolve(null);
+        return;
+      }
+      if (contact.user_id !== telegramId) {
+        resolve(null);
+        return;
+      }
+      resolve({ phoneNumber: withPlusPrefix(contact.phone_number), contactPayload: response.response });
+    });
+  });
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { InitDataError, signInitData, verifyInitData } from '@/utils/telegramInitData';
+
+const BOT_TOKEN = '123456:TEST-TOKEN';
+const NOW = new Date('2026-10-19T12:00:00Z');
+const nowSeconds = NOW.getTime() / 1000;
+
+const user = { id: 42, first_name: 'Abebe', language_code: 'am' };
+
+const sign = (fields: Record<string, string> = {}) =>
+  signInitData({ auth_date: String(nowSeconds - 60), query_id: 'AAH', user: JSON.stringify(user), ...fields }, BOT_TOKEN);
+
+const reasonOf = (promise: Promise<unknown>) =>
+  promise.then(
+    () => 'verified',
+    (err) => (err instanceof InitDataError ? err.reason : err),
+  );
+
+describe('verifyInitData', () => {
+  it('accepts initData signed with the bot token', async () => {
+    const raw = await sign();
+    const verified = await verifyInitData(raw, BOT_TOKEN, { now: NOW });
+    expect(verified).toEqual({ user, authDate: new Date((nowSeconds - 60) * 1000), raw });
+  });
+
+  it('rejects initData signed with another token', async () => {
+    const raw = await signInitData({ auth_date: String(nowSeconds), user: JSON.stringify(user) }, '654321:OTHER');
+    expect(await reasonOf(verifyInitData(raw, BOT_TOKEN, { now: NOW }))).toBe('bad-hash');
+  });
+
+  it('rejects a tampered field', async () => {
+    const raw = (await sign()).replace('%22id%22%3A42', '%22id%22%3A43');
+    expect(await reasonOf(verifyInitData(raw, BOT_TOKEN, { now: NOW }))).toBe('bad-hash');
+  });
+
+  it('rejects a tampered hash', async () => {
+    const raw = (await sign()).replace(/hash=([0-9a-f])/, (_, digit) => `hash=${digit === '0' ? '1' : '0'}`);
+    expect(await reasonOf(verifyInitData(raw, BOT_TOKEN, { now: NOW }))).toBe('bad-hash');
+  });
+
+  it('rejects an expired auth_date', async () => {
+    const raw = await sign({ auth_date: String(nowSeconds - 3_601) });
+    expect(await reasonOf(verifyInitData(raw, BOT_TOKEN, { now: NOW, maxAgeSeconds: 3_600 }))).toBe('expired');
+  });
+
+  it('rejects an auth_date beyond the clock skew, and allows one within it', async () => {
+    const future = await sign({ auth_date: String(nowSeconds + 3_600) });
+    expect(await reasonOf(verifyInitData(future, BOT_TOKEN, { now: NOW }))).toBe('malformed');
+
+    const skewed = await sign({ auth_date: String(nowSeconds + 30) });
+    expect(await reasonOf(verifyInitData(skewed, BOT_TOKEN, { now: NOW }))).toBe('verified');
+  });
+
+  it.each([
+    ['no user', { user: '' }],
+    ['a user without an id', { user: JSON.stringify({ first_name: 'Abebe' }) }],
+    ['a user that is not JSON', { user: 'Abebe' }],
+    ['no auth_date', { auth_date: '' }],
+  ])('rejects %s', async (_, fields) => {
+    expect(await reasonOf(verifyInitData(await sign(fields), BOT_TOKEN, { now: NOW }))).toBe('malformed');
+  });
+
+  it.each([undefined, null, ''])('rejects missing initData (%j)', async (raw) => {
+    expect(await reasonOf(verifyInitData(raw, BOT_TOKEN, { now: NOW }))).toBe('missing');
+  });
+
+  it('rejects initData without a hash', async () => {
+    expect(await reasonOf(verifyInitData(`auth_date=${nowSeconds}`, BOT_TOKEN, { now: NOW }))).toBe('malformed');
+  });
+});
@@ -0,0 +1,125 @@
+// Telegram Mini App initData signing and verification.
+// See https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+//
+// Uses WebCrypto so the same code runs in route handlers and in the browser
+// (the dev simulator signs its fake initData with a test token).
+
+export type InitDataErrorReason = 'missing' | 'malformed' | 'bad-hash' | 'expired';
+
+export class InitDataError extends Error {
+  constructor(public readonly reason: InitDataErrorReason, message: string) {
+    super(message);
+    this.name = 'InitDataError';
+  }
+}
+
+export interface InitDataUser {
+  id: number;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+  photo_url?: string;
+  is_premium?: boolean;
+}
+
+export interface VerifiedInitData {
+  user: InitDataUser;
+  authDate: Date;
+  raw: string;
+}
+
+export const DEFAULT_INIT_DATA_MAX_AGE_SECONDS = 24 * 60 * 60;
+// How far in the future auth_date may lie, for clocks that are slightly off.
+export const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+
+const encoder = new TextEncoder();
+
+const hmacSha256 = async (key: BufferSource, data: string): Promise<ArrayBuffer> => {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// Constant-time comparison of two hex digests.
+const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+const buildDataCheckString = (params: URLSearchParams): string =>
+  Array.from(params.entries())
+    .filter(([key]) => key !== 'hash')
+    .map(([key, value]) => `${key}=${value}`)
+    .sort()
+    .join('\n');
+
+const computeHash = async (dataCheckString: string, botToken: string): Promise<string> => {
+  const secretKey = await hmacSha256(encoder.encode('WebAppData'), botToken);
+  return toHex(await hmacSha256(secretKey, dataCheckString));
+};
+
+/**
+ * Signs a set of initData fields with the given bot token and returns the
+ * raw query string, exactly as Telegram would hand it to the Mini App.
+ */
+export const signInitData = async (fields: Record<string, string>, botToken: string): Promise<string> => {
+  const params = new URLSearchParams(fields);
+  params.delete('hash');
+  params.set('hash', await computeHash(buildDataCheckString(params), botToken));
+  return params.toString();
+};
+
+/**
+ * Verifies the initData HMAC and its freshness. Throws `InitDataError`
+ * when the data is missing, tampered with, older than `maxAgeSeconds` or
+ * dated more than `clockSkewSeconds` in the future.
+ */
+export const verifyInitData = async (
+  raw: string | null | undefined,
+  botToken: string,
+  {
+    maxAgeSeconds = DEFAULT_INIT_DATA_MAX_AGE_SECONDS,
+    clockSkewSeconds = DEFAULT_CLOCK_SKEW_SECONDS,
+    now = new Date(),
+  }: { maxAgeSeconds?: number; clockSkewSeconds?: number; now?: Date } = {},
+): Promise<VerifiedInitData> => {
+  if (!raw) throw new InitDataError('missing', 'Telegram initData is missing');
+
+  const params = new URLSearchParams(raw);
+  const hash = params.get('hash');
+  if (!hash) throw new InitDataError('malformed', 'Telegram initData has no hash');
+
+  const expected = await computeHash(buildDataCheckString(params), botToken);
+  if (!safeEqual(expected, hash.toLowerCase())) {
+    throw new InitDataError('bad-hash', 'Telegram initData signature is invalid');
+  }
+
+  const authDateSeconds = Number(params.get('auth_date'));
+  if (!Number.isFinite(authDateSeconds) || authDateSeconds <= 0) {
+    throw new InitDataError('malformed', 'Telegram initData has no valid auth_date');
+  }
+  const ageSeconds = now.getTime() / 1000 - authDateSeconds;
+  if (ageSeconds < -clockSkewSeconds) {
+    throw new InitDataError('malformed', 'Telegram initData auth_date is in the future');
+  }
+  if (ageSeconds > maxAgeSeconds) {
+    throw new InitDataError('expired', 'Telegram initData has expired');
+  }
+
+  let user: InitDataUser;
+  try {
+    user = JSON.parse(params.get('user') ?? '');
+  } catch {
+    throw new InitDataError('malformed', 'Telegram initData has no valid user');
+  }
+  if (!user || typeof user.id !== 'number') {
+    throw new InitDataError('malformed', 'Telegram initData has no valid user');
+  }
+
+  return { user, authDate: new Date(authDateSeconds * 1000), raw };
+};
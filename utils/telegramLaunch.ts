@@ -0,0 +1,96 @@
+import { retrieveLaunchParams } from '@telegram-apps/sdk-react';
+import { TelegramUser } from '@/types/user';
+import { Locale, resolveLocale } from '@/utils/i18n';
+
+// Reads the Telegram user and raw initData from whichever source is available:
+// the SDK launch params, `window.Telegram.WebApp`, or the `tgWebAppData` URL param.
+
+type UnsafeTelegramUser = {
+  id: number;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+  photo_url?: string;
+  is_premium?: boolean;
+} | undefined;
+
+export type InitDataSource = 'sdk' | 'unsafe' | 'url';
+
+export interface LaunchContext {
+  user?: TelegramUser;
+  initDataRaw?: string;
+  source?: InitDataSource;
+}
+
+const mapUnsafeUser = (unsafeUser: UnsafeTelegramUser): TelegramUser | undefined => {
+  if (!unsafeUser) return undefined;
+  return {
+    id: unsafeUser.id,
+    firstName: unsafeUser.first_name,
+    lastName: unsafeUser.last_name,
+    username: unsafeUser.username,
+    languageCode: unsafeUser.language_code,
+    photoUrl: unsafeUser.photo_url,
+    isPremium: unsafeUser.is_premium,
+  };
+};
+
+const parseUserFromInitDataString = (initDataString?: string | null): TelegramUser | undefined => {
+  if (!initDataString) return undefined;
+  try {
+    const params = new URLSearchParams(initDataString);
+    const userPayload = params.get('user');
+    if (!userPayload) return undefined;
+    const unsafeUser = JSON.parse(userPayload);
+    return mapUnsafeUser(unsafeUser);
+  } catch {
+    return undefined;
+  }
+};
+
+const getInitDataFromUrl = (): string | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  try {
+    const currentUrl = new URL(window.location.href);
+    const searchParam = currentUrl.searchParams.get('tgWebAppData');
+    if (searchParam) return decodeURIComponent(searchParam);
+    if (currentUrl.hash.startsWith('#tgWebAppData=')) {
+      return decodeURIComponent(currentUrl.hash.replace('#tgWebAppData=', ''));
+    }
+  } catch {}
+  return undefined;
+};
+
+export const readLaunchContext = (): LaunchContext => {
+  let initDataRaw: string | undefined;
+  try {
+    const params = retrieveLaunchParams();
+    initDataRaw = typeof params.initDataRaw === 'string' ? params.initDataRaw : undefined;
+  } catch {}
+
+  let user: TelegramUser | undefined;
+  let source: InitDataSource | undefined;
+
+  if (typeof window !== 'undefined') {
+    const webApp = window.Telegram?.WebApp;
+    const unsafeUser = webApp?.initDataUnsafe?.user as UnsafeTelegramUser;
+    if (unsafeUser) { user = mapUnsafeUser(unsafeUser); source = 'unsafe'; }
+    initDataRaw = initDataRaw ?? (webApp?.initData || undefined);
+
+    if (!user) {
+      const urlInitData = getInitDataFromUrl();
+      const parsed = parseUserFromInitDataString(urlInitData);
+      if (parsed) { user = parsed; source = 'url'; }
+      initDataRaw = initDataRaw ?? urlInitData;
+    }
+  }
+
+  return { user, initDataRaw, source };
+};
+
+/** The Telegram user's language if we support it, else the browser's, else English. */
+export const readLaunchLocale = (): Locale => {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  return resolveLocale([readLaunchContext().user?.languageCode, ...languages]);
+};
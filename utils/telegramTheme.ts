@@ -0,0 +1,82 @@
+import { TelegramSafeAreaInset, TelegramThemeParams, TelegramWebApp } from '@/types/telegram';
+
+// Maps Telegram themeParams, viewport size and safe-area insets onto the
+// `--app-*` CSS variables declared in app/globals.css. Keys Telegram does not
+// send keep the light/dark defaults selected by `data-theme`.
+
+const THEME_VARIABLES: Record<string, keyof TelegramThemeParams> = {
+  '--app-bg': 'bg_color',
+  '--app-text': 'text_color',
+  '--app-hint': 'hint_color',
+  '--app-link': 'link_color',
+  '--app-button': 'button_color',
+  '--app-button-text': 'button_text_color',
+  '--app-secondary-bg': 'secondary_bg_color',
+  '--app-section-bg': 'section_bg_color',
+  '--app-accent': 'accent_text_color',
+  '--app-destructive': 'destructive_text_color',
+  '--app-separator': 'section_separator_color',
+};
+
+const ZERO_INSET: TelegramSafeAreaInset = { top: 0, bottom: 0, left: 0, right: 0 };
+
+export const themeToCssVariables = (themeParams: TelegramThemeParams): Record<string, string | undefined> =>
+  Object.fromEntries(
+    Object.entries(THEME_VARIABLES).map(([variable, key]) => [variable, themeParams[key]]),
+  );
+
+// Device insets (notch, home indicator) plus Telegram's own overlays in fullscreen mode.
+export const insetsToCssVariables = (
+  safeArea: TelegramSafeAreaInset = ZERO_INSET,
+  contentSafeArea: TelegramSafeAreaInset = ZERO_INSET,
+): Record<string, string> => ({
+  '--app-inset-top': `${safeArea.top + contentSafeArea.top}px`,
+  '--app-inset-bottom': `${safeArea.bottom + contentSafeArea.bottom}px`,
+  '--app-inset-left': `${safeArea.left + contentSafeArea.left}px`,
+  '--app-inset-right': `${safeArea.right + contentSafeArea.right}px`,
+});
+
+const setVariables = (root: HTMLElement, variables: Record<string, string | undefined>) => {
+  for (const [name, value] of Object.entries(variables)) {
+    if (value) root.style.setProperty(name, value);
+    else root.style.removeProperty(name);
+  }
+};
+
+/**
+ * Applies the current theme, viewport height and insets, and keeps them in
+ * sync with Telegram's change events. Returns an unsubscribe function.
+ */
+export const bindTelegramTheme = (webApp: TelegramWebApp): (() => void) => {
+  const root = document.documentElement;
+
+  const applyTheme = () => {
+    root.dataset.theme = webApp.colorScheme === 'dark' ? 'dark' : 'light';
+    setVariables(root, themeToCssVariables(webApp.themeParams ?? {}));
+  };
+
+  const applyViewport = () => {
+    const height = webApp.viewportStableHeight || webApp.viewportHeight || window.innerHeight;
+    root.style.setProperty('--app-viewport-height', `${height}px`);
+  };
+
+  const applyInsets = () => {
+    setVariables(root, insetsToCssVariables(webApp.safeAreaInset, webApp.contentSafeAreaInset));
+  };
+
+  applyTheme();
+  applyViewport();
+  applyInsets();
+
+  webApp.onEvent('themeChanged', applyTheme);
+  webApp.onEvent('viewportChanged', applyViewport);
+  webApp.onEvent('safeAreaChanged', applyInsets);
+  webApp.onEvent('contentSafeAreaChanged', applyInsets);
+
+  return () => {
+    webApp.offEvent('themeChanged', applyTheme);
+    webApp.offEvent('viewportChanged', applyViewport);
+    webApp.offEvent('safeAreaChanged', applyInsets);
+    webApp.offEvent('contentSafeAreaChanged', applyInsets);
+  };
+};
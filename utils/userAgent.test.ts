@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { OsInfo, parseUserAgent, UNKNOWN } from '@/utils/userAgent';
+
+// User agents as Telegram clients send them, with the `WebApp.platform` each reports.
+const CORPUS: { client: string; ua: string; platform?: string; expected: OsInfo }[] = [
+  {
+    client: 'Telegram for Android, phone',
+    ua: 'Mozilla/5.0 (Linux; Android 14; SM-S918B Build/UP1A.231005.007; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/124.0.6367.82 Mobile Safari/537.36 Telegram-Android/10.12.0 (Samsung SM-S918B; Android 14; SDK 34; HIGH)',
+    platform: 'android',
+    expected: { name: 'Android', version: '14', deviceType: 'mobile' },
+  },
+  {
+    client: 'Telegram for Android, tablet',
+    ua: 'Mozilla/5.0 (Linux; Android 13; SM-X710 Build/TP1A.220624.014; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/123.0.6312.118 Safari/537.36 Telegram-Android/10.11.1 (Samsung SM-X710; Android 13; SDK 33; HIGH)',
+    platform: 'android',
+    expected: { name: 'Android', version: '13', deviceType: 'tablet' },
+  },
+  {
+    client: 'Telegram X for Android',
+    ua: 'Mozilla/5.0 (Linux; Android 11; Redmi Note 8 Pro Build/RP1A.200720.011; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/122.0.6261.119 Mobile Safari/537.36',
+    platform: 'android_x',
+    expected: { name: 'Android', version: '11', deviceType: 'mobile' },
+  },
+  {
+    client: 'Telegram for iOS, iPhone',
+    ua: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148',
+    platform: 'ios',
+    expected: { name: 'iOS', version: '17.4.1', deviceType: 'mobile' },
+  },
+  {
+    client: 'Telegram for iOS, iPad with a mobile UA',
+    ua: 'Mozilla/5.0 (iPad; CPU OS 16_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148',
+    platform: 'ios',
+    expected: { name: 'iOS', version: '16.6', deviceType: 'tablet' },
+  },
+  {
+    client: 'Telegram for iOS, iPad requesting desktop sites',
+    ua: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko)',
+    platform: 'ios',
+    expected: { name: 'iOS', version: UNKNOWN, deviceType: 'tablet' },
+  },
+  {
+    client: 'Telegram for macOS',
+    ua: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko)',
+    platform: 'macos',
+    expected: { name: 'macOS', version: '10.15.7', deviceType: 'desktop' },
+  },
+  {
+    client: 'Telegram Desktop on Windows (WebView2)',
+    ua: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0',
+    platform: 'tdesktop',
+    expected: { name: 'Windows', version: '10', deviceType: 'desktop' },
+  },
+  {
+    client: 'Telegram Desktop on Windows 7',
+    ua: 'Mozilla/5.0 (Windows NT 6.1; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/109.0.0.0 Safari/537.36',
+    platform: 'tdesktop',
+    expected: { name: 'Windows', version: '7', deviceType: 'desktop' },
+  },
+  {
+    client: 'Telegram Desktop on macOS',
+    ua: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko)',
+    platform: 'tdesktop',
+    expected: { name: 'macOS', version: '10.15.7', deviceType: 'desktop' },
+  },
+  {
+    client: 'Telegram Desktop on Linux (WebKitGTK)',
+    ua: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15',
+    platform: 'tdesktop',
+    expected: { name: 'Linux', version: UNKNOWN, deviceType: 'desktop' },
+  },
+  {
+    client: 'Unigram',
+    ua: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0',
+    platform: 'unigram',
+    expected: { name: 'Windows', version: '10', deviceType: 'desktop' },
+  },
+  {
+    client: 'Telegram Web A in Chrome on Android',
+    ua: 'Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36',
+    platform: 'weba',
+    expected: { name: 'Android', version: '10', deviceType: 'mobile' },
+  },
+  {
+    client: 'Telegram Web A in Safari on macOS',
+    ua: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4.1 Safari/605.1.15',
+    platform: 'weba',
+    expected: { name: 'macOS', version: '10.15.7', deviceType: 'desktop' },
+  },
+  {
+    client: 'Telegram Web K in Firefox on Windows',
+    ua: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:125.0) Gecko/20100101 Firefox/125.0',
+    platform: 'webk',
+    expected: { name: 'Windows', version: '10', deviceType: 'desktop' },
+  },
+  {
+    client: 'Telegram Web K in Chrome on ChromeOS',
+    ua: 'Mozilla/5.0 (X11; CrOS x86_64 14541.0.0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+    platform: 'webk',
+    expected: { name: 'ChromeOS', version: '14541.0.0', deviceType: 'desktop' },
+  },
+  {
+    client: 'Telegram Web K in Safari on iPhone',
+    ua: 'Mozilla/5.0 (iPhone; CPU iPhone OS 16_7_8 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.6 Mobile/15E148 Safari/604.1',
+    platform: 'webk',
+    expected: { name: 'iOS', version: '16.7.8', deviceType: 'mobile' },
+  },
+  {
+    client: 'Telegram for Android with a stripped webview UA',
+    ua: 'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko)',
+    platform: 'android',
+    expected: { name: 'Android', version: UNKNOWN, deviceType: 'mobile' },
+  },
+  {
+    client: 'Unknown client',
+    ua: 'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko)',
+    expected: { name: UNKNOWN, version: UNKNOWN, deviceType: 'desktop' },
+  },
+];
+
+describe('parseUserAgent', () => {
+  it.each(CORPUS)('$client', ({ ua, platform, expected }) => {
+    expect(parseUserAgent(ua, platform)).toEqual(expected);
+  });
+});
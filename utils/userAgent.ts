@@ -0,0 +1,133 @@
+// Operating system and form-factor detection from the user agent, with the
+// Telegram client platform (`WebApp.platform`) as a hint where the UA is ambiguous.
+// Pure so it can run against recorded user agents.
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop';
+
+export interface OsInfo {
+  name: string;
+  version: string;
+  deviceType: DeviceType;
+}
+
+export const UNKNOWN = 'Unknown';
+
+// `Windows NT` kernel versions; Windows 11 still reports 10.0 (see refineWithClientHints).
+const WINDOWS_VERSIONS: Record<string, string> = {
+  '10.0': '10',
+  '6.3': '8.1',
+  '6.2': '8',
+  '6.1': '7',
+};
+
+// What each Telegram client platform (`WebApp.platform`) says about the device.
+// `os` and `deviceType` stand in when the webview's UA reveals nothing; the
+// desktop apps are desktops whatever their UA claims. The web clients
+// (Telegram Web A/K) run inside the user's own browser, whose UA is authoritative.
+interface PlatformHint {
+  os?: string;
+  deviceType?: DeviceType;
+  desktopApp?: boolean;
+}
+
+const TELEGRAM_PLATFORMS: Record<string, PlatformHint> = {
+  android: { os: 'Android', deviceType: 'mobile' },
+  android_x: { os: 'Android', deviceType: 'mobile' },
+  ios: { os: 'iOS', deviceType: 'mobile' },
+  macos: { os: 'macOS', deviceType: 'desktop', desktopApp: true },
+  // Telegram Desktop runs on Windows, macOS and Linux, so it says nothing about the OS.
+  tdesktop: { deviceType: 'desktop', desktopApp: true },
+  unigram: { os: 'Windows', deviceType: 'desktop', desktopApp: true },
+  weba: {},
+  webk: {},
+  web: {},
+};
+
+const match = (ua: string, pattern: RegExp): string | undefined => pattern.exec(ua)?.[1];
+
+const dotted = (version: string | undefined): string => (version ? version.replace(/_/g, '.') : UNKNOWN);
+
+// Checks run from most to least specific: Android UAs also contain "Linux"
+// and iOS UAs contain "Mac OS X".
+const parseOs = (ua: string, telegramPlatform?: string): OsInfo => {
+  if (/Android/i.test(ua)) {
+    return {
+      name: 'Android',
+      version: match(ua, /Android[ /]([\d.]+)/i) ?? UNKNOWN,
+      // Android tablets drop the "Mobile" token.
+      deviceType: /Mobile/.test(ua) ? 'mobile' : 'tablet',
+    };
+  }
+
+  if (/iPhone|iPad|iPod/.test(ua)) {
+    return {
+      name: 'iOS',
+      version: dotted(match(ua, /OS ([\d_]+) like Mac OS X/)),
+      deviceType: /iPad/.test(ua) ? 'tablet' : 'mobile',
+    };
+  }
+
+  // iPadOS requests desktop sites with a Macintosh UA; only the Telegram
+  // platform tells it apart from a Mac. Its OS version is not exposed.
+  if (/Macintosh/.test(ua) && telegramPlatform === 'ios') {
+    return { name: 'iOS', version: UNKNOWN, deviceType: 'tablet' };
+  }
+
+  if (/Windows NT/.test(ua)) {
+    const nt = match(ua, /Windows NT ([\d.]+)/);
+    return { name: 'Windows', version: (nt && WINDOWS_VERSIONS[nt]) ?? UNKNOWN, deviceType: 'desktop' };
+  }
+
+  if (/Mac OS X|Macintosh/.test(ua)) {
+    return { name: 'macOS', version: dotted(match(ua, /Mac OS X ([\d_.]+)/)), deviceType: 'desktop' };
+  }
+
+  if (/CrOS/.test(ua)) {
+    return { name: 'ChromeOS', version: match(ua, /CrOS \S+ ([\d.]+)/) ?? UNKNOWN, deviceType: 'desktop' };
+  }
+
+  if (/Linux|X11/.test(ua)) {
+    return { name: 'Linux', version: UNKNOWN, deviceType: 'desktop' };
+  }
+
+  return { name: UNKNOWN, version: UNKNOWN, deviceType: /Mobi/i.test(ua) ? 'mobile' : 'desktop' };
+};
+
+/**
+ * Parses the OS out of a user agent, then applies the Telegram platform hint:
+ * an OS the UA does not reveal, and the desktop form factor of the desktop apps.
+ */
+export const parseUserAgent = (ua: string, telegramPlatform?: string): OsInfo => {
+  const os = parseOs(ua, telegramPlatform);
+  const hint: PlatformHint = (telegramPlatform && TELEGRAM_PLATFORMS[telegramPlatform]) || {};
+  if (hint.desktopApp) os.deviceType = 'desktop';
+  if (os.name === UNKNOWN && hint.os) return { ...os, name: hint.os, deviceType: hint.deviceType ?? os.deviceType };
+  return os;
+};
+
+// Subset of the User-Agent Client Hints API (Chromium only).
+interface UserAgentData {
+  getHighEntropyValues(hints: string[]): Promise<{ platform?: string; platformVersion?: string }>;
+}
+
+/**
+ * Chromium freezes the OS version in the UA string (Windows 11 reports NT 10.0,
+ * macOS reports 10_15_7). Where client hints are available they give the real one.
+ */
+export const refineWithClientHints = async (os: OsInfo): Promise<OsInfo> => {
+  const uaData = (navigator as Navigator & { userAgentData?: UserAgentData }).userAgentData;
+  if (!uaData || (os.name !== 'Windows' && os.name !== 'macOS')) return os;
+
+  try {
+    const { platformVersion } = await uaData.getHighEntropyValues(['platformVersion']);
+    if (!platformVersion) return os;
+    if (os.name === 'Windows') {
+      // Windows 11 is platformVersion 13 and up; 1-10 are Windows 10.
+      const major = Number(platformVersion.split('.')[0]);
+      return major > 0 ? { ...os, version: major >= 13 ? '11' : '10' } : os;
+    }
+    return { ...os, version: platformVersion };
+  } catch {
+    return os;
+  }
+};